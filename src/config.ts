@@ -16,7 +16,7 @@
  * ```
  */
 
-import { Config, ConfigError, Effect, Either, pipe } from 'effect';
+import { Config, ConfigError, Effect, Either, Option, pipe } from 'effect';
 import { DEFAULTS, SERVER_INFO } from './constants.js';
 
 /**
@@ -90,13 +90,90 @@ const parseCommaSeparatedList = (value: string): string[] =>
     .map(s => s.trim())
     .filter(s => s.length > 0);
 
+/**
+ * Checks that a graph name can be embedded in environment variable names.
+ * @param name - Graph name
+ */
+const isValidGraphName = (name: string): boolean => /^[A-Za-z0-9_]+$/.test(name);
+
 const GremlinEndpointConfig = pipe(
   Config.string('GREMLIN_ENDPOINT'),
   Config.mapOrFail(parseEndpoint)
 );
 
+/**
+ * GREMLIN_GRAPH_NAME: string, default: default. Name of the graph served by GREMLIN_ENDPOINT
+ */
+const GremlinGraphNameConfig = pipe(
+  Config.string('GREMLIN_GRAPH_NAME'),
+  Config.withDefault(DEFAULTS.GRAPH_NAME),
+  Config.validate({
+    message: 'Graph name may only contain letters, digits and underscores',
+    validation: isValidGraphName,
+  })
+);
+
+/**
+ * GREMLIN_GRAPHS: string, optional. Comma-separated names of additional graphs,
+ * each configured through GREMLIN_GRAPH_<NAME>_* variables
+ */
+const GremlinAdditionalGraphsConfig = pipe(
+  Config.string('GREMLIN_GRAPHS'),
+  Config.withDefault(''),
+  Config.map(parseCommaSeparatedList),
+  Config.validate({
+    message: 'Graph names may only contain letters, digits and underscores',
+    validation: names => names.every(isValidGraphName),
+  })
+);
+
 const GremlinUseSslConfig = Config.withDefault(Config.boolean('GREMLIN_USE_SSL'), DEFAULTS.USE_SSL);
 
+/**
+ * Wire serializer used by the driver, read from the given variable.
+ * @param name - Serializer variable of the graph
+ */
+const SerializerConfig = (name: string) =>
+  pipe(
+    Config.literal('graphsonv2', 'graphsonv3', 'graphbinary')(name),
+    Config.withDefault(DEFAULTS.SERIALIZER)
+  );
+
+/**
+ * GREMLIN_SERIALIZER: 'graphsonv2' | 'graphsonv3' | 'graphbinary', default: graphsonv3. Wire serializer
+ */
+const GremlinSerializerConfig = SerializerConfig('GREMLIN_SERIALIZER');
+
+/**
+ * GREMLIN_LAZY_CONNECT: boolean, default: false. Start without connecting and connect on first use
+ */
+const GremlinLazyConnectConfig = Config.withDefault(
+  Config.boolean('GREMLIN_LAZY_CONNECT'),
+  DEFAULTS.LAZY_CONNECT
+);
+
+/**
+ * GREMLIN_READ_ONLY: boolean, default: false. Reject mutating queries and disable data import
+ */
+const GremlinReadOnlyConfig = Config.withDefault(
+  Config.boolean('GREMLIN_READ_ONLY'),
+  DEFAULTS.READ_ONLY
+);
+
+/**
+ * Whether read-only mode also applies TinkerPop's ReadOnlyStrategy, read from the given variable.
+ * Opt-in, as the strategy is bound with a Groovy statement that servers without Groovy script
+ * evaluation (e.g. Amazon Neptune, Azure Cosmos DB) reject.
+ * @param name - Strategy variable of the graph
+ */
+const ReadOnlyStrategyConfig = (name: string) =>
+  Config.withDefault(Config.boolean(name), DEFAULTS.READ_ONLY_STRATEGY);
+
+/**
+ * GREMLIN_READ_ONLY_STRATEGY: boolean, default: false. Apply ReadOnlyStrategy in read-only mode
+ */
+const GremlinReadOnlyStrategyConfig = ReadOnlyStrategyConfig('GREMLIN_READ_ONLY_STRATEGY');
+
 /**
  * GREMLIN_USERNAME: string, optional. Gremlin DB username
  */
@@ -107,6 +184,91 @@ const GremlinUsernameConfig = Config.option(Config.string('GREMLIN_USERNAME'));
  */
 const GremlinPasswordConfig = Config.option(Config.redacted('GREMLIN_PASSWORD'));
 
+/**
+ * GREMLIN_IAM_AUTH: boolean, default: false. Sign the handshake with AWS SigV4 (Amazon Neptune IAM auth)
+ */
+const GremlinIamAuthConfig = Config.withDefault(
+  Config.boolean('GREMLIN_IAM_AUTH'),
+  DEFAULTS.IAM_AUTH
+);
+
+/**
+ * AWS region for IAM authentication, falling back to AWS_REGION and AWS_DEFAULT_REGION.
+ * @param name - Graph-specific region variable
+ */
+const AwsRegionConfig = (name: string) =>
+  pipe(
+    Config.string(name),
+    Config.orElse(() => Config.string('AWS_REGION')),
+    Config.orElse(() => Config.string('AWS_DEFAULT_REGION')),
+    Config.option
+  );
+
+/**
+ * GREMLIN_AWS_REGION: string, optional. Region of the Neptune cluster (default: AWS_REGION)
+ */
+const GremlinAwsRegionConfig = AwsRegionConfig('GREMLIN_AWS_REGION');
+
+/**
+ * Requires a region whenever IAM authentication is enabled.
+ */
+const requireRegionForIam = <A extends { iamAuth: boolean; awsRegion: Option.Option<string> }>(
+  config: Config.Config<A>
+) =>
+  Config.validate(config, {
+    message: 'IAM authentication requires an AWS region (GREMLIN_AWS_REGION or AWS_REGION)',
+    validation: graph => !graph.iamAuth || Option.isSome(graph.awsRegion),
+  });
+
+/**
+ * TlsConfig: TLS settings for wss connections, read from <PREFIX>TLS_CA_FILE, _CERT_FILE, _KEY_FILE,
+ * _KEY_PASSPHRASE, _SERVERNAME and _INSECURE_SKIP_VERIFY. The primary graph uses the GREMLIN_ prefix.
+ * @param prefix - Variable prefix of the graph
+ */
+const TlsConfig = (prefix: string) =>
+  pipe(
+    Config.all({
+      caFile: Config.option(Config.string(`${prefix}TLS_CA_FILE`)),
+      certFile: Config.option(Config.string(`${prefix}TLS_CERT_FILE`)),
+      keyFile: Config.option(Config.string(`${prefix}TLS_KEY_FILE`)),
+      keyPassphrase: Config.option(Config.redacted(`${prefix}TLS_KEY_PASSPHRASE`)),
+      servername: Config.option(Config.string(`${prefix}TLS_SERVERNAME`)),
+      insecureSkipVerify: Config.withDefault(
+        Config.boolean(`${prefix}TLS_INSECURE_SKIP_VERIFY`),
+        DEFAULTS.TLS_INSECURE_SKIP_VERIFY
+      ),
+    }),
+    Config.validate({
+      message: 'TLS client certificate and key must be configured together',
+      validation: tls => Option.isSome(tls.certFile) === Option.isSome(tls.keyFile),
+    })
+  );
+
+type TlsSettings = Config.Config.Success<ReturnType<typeof TlsConfig>>;
+
+/**
+ * Checks whether any TLS option differs from the Node.js defaults.
+ * @param tls - TLS settings of a graph
+ */
+export const hasCustomTls = (tls: TlsSettings): boolean =>
+  tls.insecureSkipVerify ||
+  Option.isSome(tls.caFile) ||
+  Option.isSome(tls.certFile) ||
+  Option.isSome(tls.keyFile) ||
+  Option.isSome(tls.keyPassphrase) ||
+  Option.isSome(tls.servername);
+
+/**
+ * Requires SSL whenever TLS options are configured, so they are never silently ignored.
+ */
+const requireSslForTls = <A extends { useSSL: boolean; tls: TlsSettings }>(
+  config: Config.Config<A>
+) =>
+  Config.validate(config, {
+    message: 'TLS options require SSL to be enabled (GREMLIN_USE_SSL=true)',
+    validation: ({ useSSL, tls }) => useSSL || !hasCustomTls(tls),
+  });
+
 /**
  * LOG_LEVEL: 'error' | 'warn' | 'info' | 'debug', default: info. Logging verbosity
  */
@@ -127,6 +289,135 @@ const GremlinIdleTimeoutConfig = pipe(
   })
 );
 
+/**
+ * GREMLIN_QUERY_TIMEOUT_MS: number, default: 30000. Default time limit for a query, enforced by client and server
+ */
+const GremlinQueryTimeoutConfig = pipe(
+  Config.integer('GREMLIN_QUERY_TIMEOUT_MS'),
+  Config.withDefault(DEFAULTS.QUERY_TIMEOUT_MS),
+  Config.validate({
+    message: 'Query timeout must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_MAX_RESULTS: number, default: 500. Max results returned by run_gremlin_query per page
+ */
+const GremlinMaxResultsConfig = pipe(
+  Config.integer('GREMLIN_MAX_RESULTS'),
+  Config.withDefault(DEFAULTS.MAX_RESULTS),
+  Config.validate({
+    message: 'Max results must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_MAX_RESULT_BYTES: number, default: 131072. Max serialized size of the results per page
+ */
+const GremlinMaxResultBytesConfig = pipe(
+  Config.integer('GREMLIN_MAX_RESULT_BYTES'),
+  Config.withDefault(DEFAULTS.MAX_RESULT_BYTES),
+  Config.validate({
+    message: 'Max result bytes must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_RESULT_CURSOR_MAX_BYTES: number, default: 67108864. Max serialized size of the results kept for cursors
+ */
+const GremlinResultCursorMaxBytesConfig = pipe(
+  Config.integer('GREMLIN_RESULT_CURSOR_MAX_BYTES'),
+  Config.withDefault(DEFAULTS.RESULT_CURSOR_MAX_BYTES),
+  Config.validate({
+    message: 'Result cursor max bytes must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_HISTORY_SIZE: number, default: 100. Queries kept in the query history (0 disables it)
+ */
+const GremlinHistorySizeConfig = pipe(
+  Config.integer('GREMLIN_HISTORY_SIZE'),
+  Config.withDefault(DEFAULTS.HISTORY_SIZE),
+  Config.validate({
+    message: 'History size must be a non-negative integer',
+    validation: n => n >= 0,
+  })
+);
+
+/**
+ * GREMLIN_HISTORY_FILE: string, optional. JSON file the query history is persisted to
+ */
+const GremlinHistoryFileConfig = Config.option(Config.string('GREMLIN_HISTORY_FILE'));
+
+/**
+ * GREMLIN_HISTORY_FILE_BINDINGS: boolean, default: false. Also write query bindings to the history file
+ */
+const GremlinHistoryFileBindingsConfig = Config.withDefault(
+  Config.boolean('GREMLIN_HISTORY_FILE_BINDINGS'),
+  DEFAULTS.HISTORY_FILE_BINDINGS
+);
+
+/**
+ * GREMLIN_SAVED_QUERIES_FILE: string, optional. JSON file of saved queries registered as tools
+ */
+const GremlinSavedQueriesFileConfig = Config.option(Config.string('GREMLIN_SAVED_QUERIES_FILE'));
+
+/**
+ * GREMLIN_RECONNECT_INITIAL_DELAY_MS: number, default: 500. First backoff delay after a lost connection
+ */
+const GremlinReconnectInitialDelayConfig = pipe(
+  Config.integer('GREMLIN_RECONNECT_INITIAL_DELAY_MS'),
+  Config.withDefault(DEFAULTS.RECONNECT_INITIAL_DELAY_MS),
+  Config.validate({
+    message: 'Reconnect initial delay must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_RECONNECT_MAX_DELAY_MS: number, default: 30000. Upper bound for a single backoff delay
+ */
+const GremlinReconnectMaxDelayConfig = pipe(
+  Config.integer('GREMLIN_RECONNECT_MAX_DELAY_MS'),
+  Config.withDefault(DEFAULTS.RECONNECT_MAX_DELAY_MS),
+  Config.validate({
+    message: 'Reconnect max delay must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_RECONNECT_MAX_ATTEMPTS: number, default: 5. Retries per reconnection before failing (0 disables)
+ */
+const GremlinReconnectMaxAttemptsConfig = pipe(
+  Config.integer('GREMLIN_RECONNECT_MAX_ATTEMPTS'),
+  Config.withDefault(DEFAULTS.RECONNECT_MAX_ATTEMPTS),
+  Config.validate({
+    message: 'Reconnect max attempts must be a non-negative integer',
+    validation: n => n >= 0,
+  })
+);
+
+/**
+ * ReconnectConfig: Exponential backoff (with jitter) used to re-acquire lost connections.
+ */
+const ReconnectConfig = pipe(
+  Config.all({
+    initialDelayMs: GremlinReconnectInitialDelayConfig,
+    maxDelayMs: GremlinReconnectMaxDelayConfig,
+    maxAttempts: GremlinReconnectMaxAttemptsConfig,
+  }),
+  Config.validate({
+    message: 'Reconnect max delay must be greater than or equal to the initial delay',
+    validation: reconnect => reconnect.maxDelayMs >= reconnect.initialDelayMs,
+  })
+);
+
 /**
  * GREMLIN_ENUM_DISCOVERY_ENABLED: boolean, default: true. Enable enum property discovery
  */
@@ -187,19 +478,130 @@ const GremlinSchemaIncludeCountsConfig = Config.withDefault(
   true
 );
 
+/**
+ * GREMLIN_SCHEMA_CACHE_TTL_MS: number, default: 300000. How long a generated schema is served before it expires
+ */
+const GremlinSchemaCacheTtlConfig = pipe(
+  Config.integer('GREMLIN_SCHEMA_CACHE_TTL_MS'),
+  Config.withDefault(DEFAULTS.SCHEMA_CACHE_TTL_MS),
+  Config.validate({
+    message: 'Schema cache TTL must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * GREMLIN_SCHEMA_STALE_WHILE_REVALIDATE: boolean, default: false. Serve expired schemas while regenerating them
+ */
+const GremlinSchemaStaleWhileRevalidateConfig = Config.withDefault(
+  Config.boolean('GREMLIN_SCHEMA_STALE_WHILE_REVALIDATE'),
+  DEFAULTS.SCHEMA_STALE_WHILE_REVALIDATE
+);
+
+/**
+ * GREMLIN_SCHEMA_CACHE_DIR: string, optional. Directory generated schemas are persisted to, so restarts skip discovery
+ */
+const GremlinSchemaCacheDirConfig = Config.option(Config.string('GREMLIN_SCHEMA_CACHE_DIR'));
+
+/**
+ * GREMLIN_SCHEMA_CACHE_MAX_AGE_MS: number, default: 86400000. Oldest persisted schema loaded at startup
+ */
+const GremlinSchemaCacheMaxAgeConfig = pipe(
+  Config.integer('GREMLIN_SCHEMA_CACHE_MAX_AGE_MS'),
+  Config.withDefault(DEFAULTS.SCHEMA_CACHE_MAX_AGE_MS),
+  Config.validate({
+    message: 'Schema cache max age must be a positive integer',
+    validation: n => n > 0,
+  })
+);
+
+/**
+ * MCP_TRANSPORT: 'stdio' | 'http' | 'sse', default: stdio. Transport used to serve MCP clients
+ */
+const McpTransportConfig = pipe(
+  Config.literal('stdio', 'http', 'sse')('MCP_TRANSPORT'),
+  Config.withDefault(DEFAULTS.TRANSPORT)
+);
+
+/**
+ * MCP_HTTP_HOST: string, default: 127.0.0.1. Interface the HTTP transport listens on
+ */
+const McpHttpHostConfig = Config.withDefault(Config.string('MCP_HTTP_HOST'), DEFAULTS.HTTP_HOST);
+
+/**
+ * MCP_HTTP_PORT: number, default: 3000. Port the HTTP transport listens on
+ */
+const McpHttpPortConfig = pipe(
+  Config.integer('MCP_HTTP_PORT'),
+  Config.withDefault(DEFAULTS.HTTP_PORT),
+  Config.validate({
+    message: 'HTTP port must be a positive integer between 1 and 65535',
+    validation: n => n > 0 && n <= 65535,
+  })
+);
+
+/**
+ * MCP_HTTP_PATH: string, default: /mcp. URL path serving the MCP endpoint (the event stream for SSE)
+ */
+const McpHttpPathConfig = pipe(
+  Config.string('MCP_HTTP_PATH'),
+  Config.withDefault(DEFAULTS.HTTP_PATH),
+  Config.validate({
+    message: 'HTTP path must start with "/"',
+    validation: path => path.startsWith('/'),
+  })
+);
+
+/**
+ * MCP_HTTP_MESSAGES_PATH: string, default: /messages. URL path receiving client messages (SSE only)
+ */
+const McpHttpMessagesPathConfig = pipe(
+  Config.string('MCP_HTTP_MESSAGES_PATH'),
+  Config.withDefault(DEFAULTS.HTTP_MESSAGES_PATH),
+  Config.validate({
+    message: 'HTTP messages path must start with "/"',
+    validation: path => path.startsWith('/'),
+  })
+);
+
+/**
+ * MCP_HTTP_SESSION_IDLE_TIMEOUT_MS: number, default: 1800000. Closes Streamable HTTP sessions without
+ * requests or open streams for this long (0 disables)
+ */
+const McpHttpSessionIdleTimeoutConfig = pipe(
+  Config.integer('MCP_HTTP_SESSION_IDLE_TIMEOUT_MS'),
+  Config.withDefault(DEFAULTS.HTTP_SESSION_IDLE_TIMEOUT_MS),
+  Config.validate({
+    message: 'HTTP session idle timeout must be a non-negative integer',
+    validation: n => n >= 0,
+  })
+);
+
 /**
  * GremlinConnectionConfig: Aggregates and validates all Gremlin connection-related environment variables.
- * Ensures host, port, traversalSource, useSSL, username, password, and idleTimeout are present and valid.
+ * Ensures name, host, port, traversalSource, useSSL, tls, serializer, lazyConnect, readOnly, readOnlyStrategy, username, password, iamAuth, awsRegion, idleTimeout, queryTimeoutMs, and reconnect are present and valid.
  * Returns a validated config object or throws ConfigError on failure.
  */
 const GremlinConnectionConfig = pipe(
   Config.all({
+    name: GremlinGraphNameConfig,
     endpoint: GremlinEndpointConfig,
     useSSL: GremlinUseSslConfig,
+    tls: TlsConfig('GREMLIN_'),
+    serializer: GremlinSerializerConfig,
+    lazyConnect: GremlinLazyConnectConfig,
+    readOnly: GremlinReadOnlyConfig,
+    readOnlyStrategy: GremlinReadOnlyStrategyConfig,
     username: GremlinUsernameConfig,
     password: GremlinPasswordConfig,
+    iamAuth: GremlinIamAuthConfig,
+    awsRegion: GremlinAwsRegionConfig,
     idleTimeout: GremlinIdleTimeoutConfig,
+    queryTimeoutMs: GremlinQueryTimeoutConfig,
+    reconnect: ReconnectConfig,
   }),
+  requireRegionForIam,
+  requireSslForTls,
   Config.map(({ endpoint, ...rest }) => ({
     host: endpoint.host,
     port: endpoint.port,
@@ -208,9 +610,64 @@ const GremlinConnectionConfig = pipe(
   }))
 );
 
+/**
+ * AdditionalGraphConfig: Endpoint, SSL and credentials of one named graph from GREMLIN_GRAPHS.
+ * Read from GREMLIN_GRAPH_<NAME>_ENDPOINT, _USE_SSL, _TLS_*, _SERIALIZER, _READ_ONLY_STRATEGY, _USERNAME,
+ * _PASSWORD, _IAM_AUTH and _AWS_REGION.
+ * @param name - Graph name as listed in GREMLIN_GRAPHS
+ */
+const AdditionalGraphConfig = (name: string) => {
+  const prefix = `GREMLIN_GRAPH_${name.toUpperCase()}_`;
+
+  return pipe(
+    Config.all({
+      endpoint: pipe(Config.string(`${prefix}ENDPOINT`), Config.mapOrFail(parseEndpoint)),
+      useSSL: Config.withDefault(Config.boolean(`${prefix}USE_SSL`), DEFAULTS.USE_SSL),
+      tls: TlsConfig(prefix),
+      serializer: SerializerConfig(`${prefix}SERIALIZER`),
+      readOnlyStrategy: ReadOnlyStrategyConfig(`${prefix}READ_ONLY_STRATEGY`),
+      username: Config.option(Config.string(`${prefix}USERNAME`)),
+      password: Config.option(Config.redacted(`${prefix}PASSWORD`)),
+      iamAuth: Config.withDefault(Config.boolean(`${prefix}IAM_AUTH`), DEFAULTS.IAM_AUTH),
+      awsRegion: AwsRegionConfig(`${prefix}AWS_REGION`),
+    }),
+    requireRegionForIam,
+    requireSslForTls,
+    Config.map(({ endpoint, ...rest }) => ({
+      name,
+      host: endpoint.host,
+      port: endpoint.port,
+      traversalSource: endpoint.traversalSource,
+      ...rest,
+    }))
+  );
+};
+
+/**
+ * GraphsConfig: Every configured graph, the GREMLIN_ENDPOINT graph first.
+ * Additional graphs share lazy connect, read-only, idle timeout, query timeout and
+ * reconnect settings with the primary graph. Fails with ConfigError when two graphs share a name.
+ */
+const GraphsConfig = Effect.gen(function* () {
+  const primary = yield* GremlinConnectionConfig;
+  const names = yield* GremlinAdditionalGraphsConfig;
+  const additional = yield* Config.all(names.map(AdditionalGraphConfig));
+
+  const graphs = [primary, ...additional.map(graph => ({ ...primary, ...graph }))];
+  const uniqueNames = new Set(graphs.map(graph => graph.name.toLowerCase()));
+  if (uniqueNames.size !== graphs.length) {
+    return yield* Effect.fail(
+      ConfigError.InvalidData(['GREMLIN_GRAPHS'], 'Graph names must be unique')
+    );
+  }
+
+  return graphs;
+});
+
 /**
  * SchemaDiscoveryConfig: Aggregates and validates all schema discovery-related environment variables.
- * Ensures enum discovery, cardinality, blacklist, sample values, max enum values, and counts are present and valid.
+ * Ensures enum discovery, cardinality, blacklist, sample values, max enum values, counts and the
+ * schema cache TTL, expiry and persistence settings are present and valid.
  * Returns a validated config object or throws ConfigError on failure.
  */
 const SchemaDiscoveryConfig = Config.all({
@@ -220,6 +677,50 @@ const SchemaDiscoveryConfig = Config.all({
   includeSampleValues: GremlinSchemaIncludeSampleValuesConfig,
   maxEnumValues: GremlinSchemaMaxEnumValuesConfig,
   includeCounts: GremlinSchemaIncludeCountsConfig,
+  cacheTtlMs: GremlinSchemaCacheTtlConfig,
+  staleWhileRevalidate: GremlinSchemaStaleWhileRevalidateConfig,
+  cacheDir: GremlinSchemaCacheDirConfig,
+  cacheMaxAgeMs: GremlinSchemaCacheMaxAgeConfig,
+});
+
+/**
+ * ResultLimitsConfig: Page size limits for query results returned to MCP clients.
+ * Larger results are truncated and continued through a cursor, whose remaining
+ * results are kept in memory up to a total size.
+ */
+const ResultLimitsConfig = Config.all({
+  maxResults: GremlinMaxResultsConfig,
+  maxBytes: GremlinMaxResultBytesConfig,
+  cursorMaxBytes: GremlinResultCursorMaxBytesConfig,
+});
+
+/**
+ * HistoryConfig: Size and optional persistence file of the query history.
+ */
+const HistoryConfig = Config.all({
+  size: GremlinHistorySizeConfig,
+  file: GremlinHistoryFileConfig,
+  fileBindings: GremlinHistoryFileBindingsConfig,
+});
+
+/**
+ * SavedQueriesConfig: Location of the saved query library, loaded at startup.
+ */
+const SavedQueriesConfig = Config.all({
+  file: GremlinSavedQueriesFileConfig,
+});
+
+/**
+ * TransportConfig: Aggregates and validates the MCP transport settings.
+ * The HTTP host, port and path are only used when the transport type is not stdio.
+ */
+const TransportConfig = Config.all({
+  type: McpTransportConfig,
+  host: McpHttpHostConfig,
+  port: McpHttpPortConfig,
+  path: McpHttpPathConfig,
+  messagesPath: McpHttpMessagesPathConfig,
+  sessionIdleTimeoutMs: McpHttpSessionIdleTimeoutConfig,
 });
 
 /**
@@ -246,13 +747,19 @@ const LoggingConfig = pipe(
 
 /**
  * AppConfig: Complete validated application configuration object.
- * Aggregates gremlin, schema, server, and logging configs.
+ * Aggregates gremlin (the primary graph), graphs, schema, results, history, savedQueries, server,
+ * transport, and logging configs.
  * Throws ConfigError on any validation failure.
  */
-export const AppConfig = Config.all({
+export const AppConfig = Effect.all({
   gremlin: GremlinConnectionConfig,
+  graphs: GraphsConfig,
   schema: SchemaDiscoveryConfig,
+  results: ResultLimitsConfig,
+  history: HistoryConfig,
+  savedQueries: SavedQueriesConfig,
   server: ServerConfig,
+  transport: TransportConfig,
   logging: LoggingConfig,
 });
 
@@ -260,3 +767,8 @@ export const AppConfig = Config.all({
  * Type alias for the resolved, validated application configuration object.
  */
 export type AppConfigType = Effect.Effect.Success<typeof AppConfig>;
+
+/**
+ * Type alias for the connection settings of a single configured graph.
+ */
+export type GraphConfigType = AppConfigType['graphs'][number];
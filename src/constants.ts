@@ -15,6 +15,9 @@ export const SERVER_INFO = {
 export const RESOURCE_URIS = {
   STATUS: 'gremlin://status',
   SCHEMA: 'gremlin://schema',
+  HISTORY: 'gremlin://history',
+  VERTEX_LABEL_TEMPLATE: 'gremlin://schema/vertex/{label}',
+  EDGE_LABEL_TEMPLATE: 'gremlin://schema/edge/{label}',
 } as const;
 
 // MCP Tool Names
@@ -22,16 +25,158 @@ export const TOOL_NAMES = {
   GET_GRAPH_STATUS: 'get_graph_status',
   GET_GRAPH_SCHEMA: 'get_graph_schema',
   RUN_GREMLIN_QUERY: 'run_gremlin_query',
+  PROFILE_GREMLIN_QUERY: 'profile_gremlin_query',
+  RERUN_QUERY: 'rerun_query',
   REFRESH_SCHEMA_CACHE: 'refresh_schema_cache',
+  DIFF_GRAPH_SCHEMA: 'diff_graph_schema',
   IMPORT_GRAPH_DATA: 'import_graph_data',
   EXPORT_SUBGRAPH: 'export_subgraph',
 } as const;
 
+// MCP Prompt Names
+export const PROMPT_NAMES = {
+  EXPLORE_GRAPH: 'explore_graph',
+  WRITE_TRAVERSAL: 'write_traversal',
+  DIAGNOSE_SLOW_QUERY: 'diagnose_slow_query',
+  REVIEW_DATA_QUALITY: 'review_data_quality',
+} as const;
+
+// Options sent with every query request
+export const QUERY_REQUEST = {
+  // Results per response message; Gremlin Server's default resultIterationBatchSize
+  BATCH_SIZE: 64,
+  USER_AGENT: `${SERVER_INFO.NAME}/${SERVER_INFO.VERSION}`,
+} as const;
+
 // Default Configuration Values
 export const DEFAULTS = {
   TRAVERSAL_SOURCE: 'g',
+  GRAPH_NAME: 'default',
   USE_SSL: false,
+  TLS_INSECURE_SKIP_VERIFY: false,
+  SERIALIZER: 'graphsonv3' as const,
+  LAZY_CONNECT: false,
+  IAM_AUTH: false,
+  READ_ONLY: false,
+  READ_ONLY_STRATEGY: false,
+  QUERY_TIMEOUT_MS: 30000,
+  MAX_RESULTS: 500,
+  MAX_RESULT_BYTES: 128 * 1024,
+  RESULT_CURSOR_MAX_BYTES: 64 * 1024 * 1024,
+  HISTORY_SIZE: 100,
+  HISTORY_FILE_BINDINGS: false,
+  SCHEMA_CACHE_TTL_MS: 5 * 60 * 1000,
+  SCHEMA_STALE_WHILE_REVALIDATE: false,
+  SCHEMA_CACHE_MAX_AGE_MS: 24 * 60 * 60 * 1000,
   LOG_LEVEL: 'info' as const,
+  TRANSPORT: 'stdio' as const,
+  HTTP_HOST: '127.0.0.1',
+  HTTP_PORT: 3000,
+  HTTP_PATH: '/mcp',
+  HTTP_MESSAGES_PATH: '/messages',
+  HTTP_SESSION_IDLE_TIMEOUT_MS: 30 * 60 * 1000,
+  RECONNECT_INITIAL_DELAY_MS: 500,
+  RECONNECT_MAX_DELAY_MS: 30000,
+  RECONNECT_MAX_ATTEMPTS: 5,
+} as const;
+
+// Wire serializers and the mime types the Gremlin driver selects them by
+export const SERIALIZER_MIME_TYPES = {
+  graphsonv2: 'application/vnd.gremlin-v2.0+json',
+  graphsonv3: 'application/vnd.gremlin-v3.0+json',
+  graphbinary: 'application/vnd.graphbinary-v1.0',
+} as const;
+
+// HTTP transport headers and limits
+export const HTTP_TRANSPORT = {
+  SESSION_HEADER: 'mcp-session-id',
+  MAX_BODY_BYTES: 4 * 1024 * 1024,
+  // Longest interval between checks for idle sessions
+  SESSION_SWEEP_INTERVAL_MS: 60 * 1000,
+} as const;
+
+// Amazon Neptune IAM authentication
+export const AWS_IAM = {
+  SERVICE: 'neptune-db',
+  GREMLIN_PATH: '/gremlin',
+  DEFAULT_PROFILE: 'default',
+  // Credentials expiring sooner than this are treated as already expired
+  CREDENTIAL_REFRESH_WINDOW_MS: 5 * 60 * 1000,
+} as const;
+
+// Continuation cursors for truncated query results
+export const RESULT_CURSORS = {
+  TTL_MS: 10 * 60 * 1000,
+  // Oldest cursors are dropped beyond this many, bounding the memory they hold
+  MAX_ENTRIES: 50,
+} as const;
+
+// Argument completion for prompts and resource templates
+export const COMPLETIONS = {
+  MAX_VALUES: 50,
+  // Completions still waiting on the graph after this long return no suggestions
+  TIMEOUT_MS: 5000,
+} as const;
+
+// Schema comparison with diff_graph_schema
+export const SCHEMA_DIFF = {
+  // Smallest relative change of a vertex or edge count that is reported
+  COUNT_CHANGE_THRESHOLD: 0.1,
+} as const;
+
+// Gremlin Server response status codes
+export const GREMLIN_STATUS_CODES = {
+  // The credentials were rejected
+  UNAUTHORIZED: 401,
+  // The server requires the client to authenticate
+  AUTHENTICATE: 407,
+  // The request message could not be deserialized
+  REQUEST_ERROR_SERIALIZATION: 497,
+  // The request message was malformed
+  REQUEST_ERROR_MALFORMED_REQUEST: 498,
+  // The request arguments were invalid
+  REQUEST_ERROR_INVALID_REQUEST_ARGUMENTS: 499,
+  // A general server-side failure
+  SERVER_ERROR: 500,
+  // A fail() step was reached
+  SERVER_ERROR_FAIL_STEP: 595,
+  // A transient failure, e.g. a lock or concurrent modification conflict
+  SERVER_ERROR_TEMPORARY: 596,
+  // The script failed to compile or evaluate
+  SERVER_ERROR_EVALUATION: 597,
+  // The script or traversal exceeded its evaluation timeout
+  SERVER_TIMEOUT: 598,
+  // The result could not be serialized
+  SERVER_ERROR_SERIALIZATION: 599,
+} as const;
+
+// Read-only mode
+export const READ_ONLY = {
+  // Steps and Structure API methods that write to the graph
+  MUTATING_STEPS: [
+    'addV',
+    'addE',
+    'property',
+    'drop',
+    'mergeV',
+    'mergeE',
+    'addVertex',
+    'addEdge',
+    'remove',
+    'io',
+  ],
+  // Groovy methods that call other methods by name, which hides the step names
+  DYNAMIC_METHODS: ['invokeMethod', 'metaClass', 'getMetaClass'],
+  // Reported for member calls named by a string literal, such as g.V()."drop"()
+  QUOTED_METHOD_CALL: 'quoted method call',
+  // Rebinds the traversal source of a script so the server rejects mutations
+  STRATEGY_PREFIX: 'g = g.withStrategies(ReadOnlyStrategy.instance());\n',
+} as const;
+
+// Connection status probing
+export const STATUS_PROBE = {
+  TIMEOUT_MS: 5000,
+  SERVER_VERSION_QUERY: 'Gremlin.version()',
 } as const;
 
 // Connection Status Messages (only used ones)
@@ -6,7 +6,10 @@
  * contextual metadata for debugging and user-friendly error messages.
  */
 
-import { Data } from 'effect';
+import { Cause, Data } from 'effect';
+import { ZodError } from 'zod';
+import { GREMLIN_STATUS_CODES } from './constants.js';
+import { isServerResponseError } from './utils/type-guards.js';
 
 /**
  * Standardized error message prefixes for consistency
@@ -151,3 +154,323 @@ export const Errors = {
       details,
     }),
 } as const;
+
+/**
+ * Machine-readable error codes reported to MCP clients
+ */
+export const ERROR_CODES = {
+  INVALID_ARGUMENTS: 'INVALID_ARGUMENTS',
+  CONFIGURATION_ERROR: 'CONFIGURATION_ERROR',
+  UNKNOWN_GRAPH: 'UNKNOWN_GRAPH',
+  CONNECTION_FAILED: 'CONNECTION_FAILED',
+  AUTHENTICATION_FAILED: 'AUTHENTICATION_FAILED',
+  QUERY_SYNTAX_ERROR: 'QUERY_SYNTAX_ERROR',
+  QUERY_EVALUATION_ERROR: 'QUERY_EVALUATION_ERROR',
+  QUERY_TIMEOUT: 'QUERY_TIMEOUT',
+  READ_ONLY_VIOLATION: 'READ_ONLY_VIOLATION',
+  INVALID_CURSOR: 'INVALID_CURSOR',
+  NOT_FOUND: 'NOT_FOUND',
+  UNSUPPORTED_OPERATION: 'UNSUPPORTED_OPERATION',
+  TEMPORARY_FAILURE: 'TEMPORARY_FAILURE',
+  SERVER_ERROR: 'SERVER_ERROR',
+  SERIALIZATION_ERROR: 'SERIALIZATION_ERROR',
+  RESULT_PARSE_ERROR: 'RESULT_PARSE_ERROR',
+  SCHEMA_ERROR: 'SCHEMA_ERROR',
+  RESOURCE_ERROR: 'RESOURCE_ERROR',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+/**
+ * Broad classes of errors, for clients that only distinguish who has to act
+ */
+export type ErrorCategory =
+  | 'validation'
+  | 'configuration'
+  | 'connection'
+  | 'query'
+  | 'timeout'
+  | 'server'
+  | 'internal';
+
+/**
+ * Error description returned by tools in place of a result
+ */
+export interface StructuredError {
+  readonly code: ErrorCode;
+  readonly category: ErrorCategory;
+  readonly message: string;
+  /** Whether the same request may succeed when retried unchanged */
+  readonly retryable: boolean;
+  /** Gremlin Server response status code, when the server rejected the request */
+  readonly status_code?: number;
+  readonly query?: string;
+  /** Suggested next step for the caller */
+  readonly hint?: string;
+}
+
+const ERROR_CODE_INFO: Record<
+  ErrorCode,
+  { category: ErrorCategory; retryable: boolean; hint?: string }
+> = {
+  INVALID_ARGUMENTS: {
+    category: 'validation',
+    retryable: false,
+    hint: 'Check the tool arguments against its input schema',
+  },
+  CONFIGURATION_ERROR: {
+    category: 'configuration',
+    retryable: false,
+    hint: 'Check the server configuration (environment variables)',
+  },
+  UNKNOWN_GRAPH: {
+    category: 'validation',
+    retryable: false,
+    hint: 'Use one of the configured graph names, or omit graph to use the primary graph',
+  },
+  CONNECTION_FAILED: {
+    category: 'connection',
+    retryable: true,
+    hint: 'The graph database is unreachable; retry shortly or check get_graph_status',
+  },
+  AUTHENTICATION_FAILED: {
+    category: 'connection',
+    retryable: false,
+    hint: 'Check the credentials configured for this graph',
+  },
+  QUERY_SYNTAX_ERROR: {
+    category: 'query',
+    retryable: false,
+    hint: 'Fix the Gremlin syntax: check step names, parentheses and quoting, and pass values as bindings',
+  },
+  QUERY_EVALUATION_ERROR: {
+    category: 'query',
+    retryable: false,
+    hint: 'Check the labels, property keys and value types used against get_graph_schema',
+  },
+  QUERY_TIMEOUT: {
+    category: 'timeout',
+    retryable: true,
+    hint: 'Narrow the traversal with filters or limit(), or raise timeout_ms',
+  },
+  READ_ONLY_VIOLATION: {
+    category: 'validation',
+    retryable: false,
+    hint: 'The server is in read-only mode; only traversals that do not modify the graph are allowed',
+  },
+  INVALID_CURSOR: {
+    category: 'validation',
+    retryable: false,
+    hint: 'Run the query again without a cursor to get a fresh one',
+  },
+  NOT_FOUND: {
+    category: 'validation',
+    retryable: false,
+    hint: 'The referenced item does not exist; list the available items and try again',
+  },
+  UNSUPPORTED_OPERATION: {
+    category: 'configuration',
+    retryable: false,
+    hint: 'The operation is not supported by the configuration of this graph',
+  },
+  TEMPORARY_FAILURE: {
+    category: 'server',
+    retryable: true,
+    hint: 'The server reported a transient failure such as a lock conflict; retry the request',
+  },
+  SERVER_ERROR: {
+    category: 'server',
+    retryable: false,
+    hint: 'The graph database reported an internal error; check its logs',
+  },
+  SERIALIZATION_ERROR: {
+    category: 'server',
+    retryable: false,
+    hint: 'Return simpler values, e.g. with valueMap(), elementMap() or project()',
+  },
+  RESULT_PARSE_ERROR: {
+    category: 'internal',
+    retryable: false,
+    hint: 'Return simpler values, e.g. with valueMap(), elementMap() or project()',
+  },
+  SCHEMA_ERROR: {
+    category: 'server',
+    retryable: true,
+    hint: 'Retry, or rebuild the schema with refresh_schema_cache',
+  },
+  RESOURCE_ERROR: {
+    category: 'validation',
+    retryable: false,
+    hint: 'Check the data and format passed to the tool',
+  },
+  INTERNAL_ERROR: { category: 'internal', retryable: false },
+};
+
+/**
+ * Exception names reported by Gremlin Server for scripts that do not compile or
+ * refer to undefined steps and variables, as opposed to failing while running.
+ */
+const SYNTAX_FAILURE =
+  /MultipleCompilationErrorsException|MissingPropertyException|MissingMethodException|startup failed|No such property|No signature of method/;
+
+/**
+ * Connection failures caused by the server refusing the credentials.
+ */
+const AUTHENTICATION_FAILURE = /\b(?:401|403|407)\b|unauthori[sz]ed|forbidden/i;
+
+const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && value in ERROR_CODES;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : undefined;
+
+/**
+ * Finds the server response error carried in error details, directly or as `{ error }`.
+ */
+const findResponseError = (details: unknown) =>
+  [details, asRecord(details)?.['error']].find(isServerResponseError);
+
+const describeDetails = (details: unknown): string => {
+  if (typeof details === 'string') {
+    return details;
+  }
+  if (details instanceof Error) {
+    return details.message;
+  }
+  const nested = asRecord(details)?.['error'];
+  return nested === undefined ? '' : describeDetails(nested);
+};
+
+/**
+ * Serializes the Map-valued status attributes of GraphSON 3 responses.
+ */
+const mapReplacer = (_key: string, value: unknown) =>
+  value instanceof Map ? Object.fromEntries(value) : value;
+
+/**
+ * Maps a Gremlin Server status code onto an error code.
+ */
+const codeForStatus = (statusCode: number, description: string): ErrorCode => {
+  switch (statusCode) {
+    case GREMLIN_STATUS_CODES.UNAUTHORIZED:
+    case GREMLIN_STATUS_CODES.AUTHENTICATE:
+      return ERROR_CODES.AUTHENTICATION_FAILED;
+    case GREMLIN_STATUS_CODES.REQUEST_ERROR_MALFORMED_REQUEST:
+    case GREMLIN_STATUS_CODES.REQUEST_ERROR_INVALID_REQUEST_ARGUMENTS:
+      return ERROR_CODES.INVALID_ARGUMENTS;
+    case GREMLIN_STATUS_CODES.REQUEST_ERROR_SERIALIZATION:
+    case GREMLIN_STATUS_CODES.SERVER_ERROR_SERIALIZATION:
+      return ERROR_CODES.SERIALIZATION_ERROR;
+    case GREMLIN_STATUS_CODES.SERVER_ERROR_FAIL_STEP:
+      return ERROR_CODES.QUERY_EVALUATION_ERROR;
+    case GREMLIN_STATUS_CODES.SERVER_ERROR_TEMPORARY:
+      return ERROR_CODES.TEMPORARY_FAILURE;
+    case GREMLIN_STATUS_CODES.SERVER_ERROR_EVALUATION:
+      return SYNTAX_FAILURE.test(description)
+        ? ERROR_CODES.QUERY_SYNTAX_ERROR
+        : ERROR_CODES.QUERY_EVALUATION_ERROR;
+    case GREMLIN_STATUS_CODES.SERVER_TIMEOUT:
+      return ERROR_CODES.QUERY_TIMEOUT;
+    default:
+      return ERROR_CODES.SERVER_ERROR;
+  }
+};
+
+/**
+ * Derives the error code of a known error, without an explicit code override.
+ */
+const deriveCode = (error: GremlinMcpError, description: string): ErrorCode => {
+  switch (error._tag) {
+    case 'ConfigError':
+      return ERROR_CODES.CONFIGURATION_ERROR;
+    case 'GremlinConnectionError':
+      return AUTHENTICATION_FAILURE.test(description)
+        ? ERROR_CODES.AUTHENTICATION_FAILED
+        : ERROR_CODES.CONNECTION_FAILED;
+    case 'GremlinQueryError':
+      return ERROR_CODES.QUERY_EVALUATION_ERROR;
+    case 'SchemaError':
+      return ERROR_CODES.SCHEMA_ERROR;
+    case 'TimeoutError':
+      return ERROR_CODES.QUERY_TIMEOUT;
+    case 'ResourceError':
+      return ERROR_CODES.RESOURCE_ERROR;
+    case 'ParseError':
+      return ERROR_CODES.RESULT_PARSE_ERROR;
+  }
+};
+
+const isGremlinMcpError = (error: unknown): error is GremlinMcpError =>
+  error instanceof ConfigError ||
+  error instanceof GremlinConnectionError ||
+  error instanceof GremlinQueryError ||
+  error instanceof SchemaError ||
+  error instanceof TimeoutError ||
+  error instanceof ResourceError ||
+  error instanceof ParseError;
+
+const withCodeInfo = (
+  code: ErrorCode,
+  fields: Omit<StructuredError, 'code' | 'category' | 'retryable' | 'hint'>
+): StructuredError => {
+  const { category, retryable, hint } = ERROR_CODE_INFO[code];
+  const { message, ...context } = fields;
+  return { code, category, message, retryable, ...context, ...(hint ? { hint } : {}) };
+};
+
+/**
+ * Describes any failure as a structured error for MCP clients.
+ *
+ * Codes are derived from the error type and, for errors returned by Gremlin
+ * Server, from its response status. Errors may set an explicit `code` in their
+ * details to override the derived one.
+ *
+ * @param error - Failure of a tool effect
+ * @returns Structured error with code, category, retryability and hint
+ */
+export const toStructuredError = (error: unknown): StructuredError => {
+  if (Cause.isUnknownException(error) && error.error instanceof ZodError) {
+    return withCodeInfo(ERROR_CODES.INVALID_ARGUMENTS, {
+      message: error.error.issues
+        .map(issue =>
+          issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        )
+        .join('; '),
+    });
+  }
+
+  if (!isGremlinMcpError(error)) {
+    return withCodeInfo(ERROR_CODES.INTERNAL_ERROR, {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const details = 'details' in error ? error.details : undefined;
+  const explicitCode = asRecord(details)?.['code'];
+  const responseError = findResponseError(details);
+  const description = responseError
+    ? `${responseError.message} ${JSON.stringify(responseError.statusAttributes ?? {}, mapReplacer)}`
+    : describeDetails(details);
+
+  const code = isErrorCode(explicitCode)
+    ? explicitCode
+    : responseError
+      ? codeForStatus(responseError.statusCode, description)
+      : deriveCode(error, description);
+
+  const query =
+    error._tag === 'GremlinQueryError'
+      ? error.query
+      : error._tag === 'TimeoutError'
+        ? error.operation
+        : undefined;
+
+  return withCodeInfo(code, {
+    message: responseError
+      ? `${error.message}: ${responseError.statusMessage ?? responseError.message}`
+      : error.message,
+    ...(responseError ? { status_code: responseError.statusCode } : {}),
+    ...(query ? { query } : {}),
+  });
+};
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Resolution of AWS credentials for Neptune IAM authentication.
+ *
+ * Looks up credentials from the standard AWS sources, in order: the
+ * `AWS_ACCESS_KEY_ID` / `AWS_SECRET_ACCESS_KEY` / `AWS_SESSION_TOKEN` environment
+ * variables, then the shared credentials file (`AWS_SHARED_CREDENTIALS_FILE` or
+ * `~/.aws/credentials`, profile `AWS_PROFILE` or `default`).
+ *
+ * Credentials are resolved again for every connection attempt, so rotated
+ * credentials are picked up on reconnect. Temporary credentials that expire
+ * within the refresh window are skipped rather than used for a handshake.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { Effect, Option, pipe } from 'effect';
+import { AWS_IAM } from '../constants.js';
+import { Errors, type GremlinConnectionError } from '../errors.js';
+import type { AwsCredentials } from '../utils/aws-sigv4.js';
+
+type Environment = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Parses an optional expiration timestamp, ignoring values that are not dates.
+ */
+const parseExpiration = (value: string | undefined): Date | undefined => {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Builds credentials from an access key pair, if both halves are present.
+ */
+const toCredentials = (
+  accessKeyId: string | undefined,
+  secretAccessKey: string | undefined,
+  sessionToken: string | undefined,
+  expiration: string | undefined
+): Option.Option<AwsCredentials> => {
+  if (!accessKeyId || !secretAccessKey) {
+    return Option.none();
+  }
+
+  const expiresAt = parseExpiration(expiration);
+  return Option.some({
+    accessKeyId,
+    secretAccessKey,
+    ...(sessionToken ? { sessionToken } : {}),
+    ...(expiresAt ? { expiration: expiresAt } : {}),
+  });
+};
+
+/**
+ * Reads credentials from the standard AWS environment variables.
+ *
+ * @param env - Environment to read from
+ * @returns Credentials, or none when the access key pair is not set
+ */
+export const credentialsFromEnv = (env: Environment): Option.Option<AwsCredentials> =>
+  toCredentials(
+    env['AWS_ACCESS_KEY_ID'],
+    env['AWS_SECRET_ACCESS_KEY'],
+    env['AWS_SESSION_TOKEN'],
+    env['AWS_CREDENTIAL_EXPIRATION']
+  );
+
+/**
+ * Extracts one profile from the contents of a shared credentials file.
+ *
+ * @param content - INI-formatted credentials file
+ * @param profile - Profile (section) name
+ * @returns Credentials, or none when the profile or its access key pair is missing
+ */
+export const parseSharedCredentials = (
+  content: string,
+  profile: string
+): Option.Option<AwsCredentials> => {
+  const values: Record<string, string> = {};
+  let section: string | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+
+    const header = /^\[\s*(.+?)\s*\]$/.exec(line);
+    if (header) {
+      section = header[1];
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (section === profile && separator > 0) {
+      values[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return toCredentials(
+    values['aws_access_key_id'],
+    values['aws_secret_access_key'],
+    values['aws_session_token'],
+    values['aws_expiration']
+  );
+};
+
+/**
+ * Checks that credentials stay valid beyond the refresh window.
+ */
+const isFresh = (credentials: AwsCredentials, now: Date): boolean =>
+  credentials.expiration === undefined ||
+  credentials.expiration.getTime() - AWS_IAM.CREDENTIAL_REFRESH_WINDOW_MS > now.getTime();
+
+/**
+ * Reads the shared credentials file, treating a missing file as no credentials.
+ */
+const credentialsFromSharedFile = (env: Environment) =>
+  Effect.gen(function* () {
+    const path = env['AWS_SHARED_CREDENTIALS_FILE'] ?? join(homedir(), '.aws', 'credentials');
+    const profile = env['AWS_PROFILE'] ?? AWS_IAM.DEFAULT_PROFILE;
+
+    const content = yield* pipe(
+      Effect.tryPromise(() => readFile(path, 'utf8')),
+      Effect.option
+    );
+
+    return Option.flatMap(content, text => parseSharedCredentials(text, profile));
+  });
+
+/**
+ * Resolves the AWS credentials to sign a Neptune handshake with.
+ *
+ * @param env - Environment to read from
+ * @param now - Current time, used to reject credentials about to expire
+ * @returns Credentials from the first source that has fresh ones
+ */
+export const resolveAwsCredentials = (
+  env: Environment = process.env,
+  now: Date = new Date()
+): Effect.Effect<AwsCredentials, GremlinConnectionError> =>
+  Effect.gen(function* () {
+    const fromEnv = Option.filter(credentialsFromEnv(env), credentials =>
+      isFresh(credentials, now)
+    );
+    if (Option.isSome(fromEnv)) {
+      return fromEnv.value;
+    }
+
+    const fromFile = Option.filter(yield* credentialsFromSharedFile(env), credentials =>
+      isFresh(credentials, now)
+    );
+    if (Option.isSome(fromFile)) {
+      return fromFile.value;
+    }
+
+    return yield* Effect.fail(
+      Errors.connection(
+        'No valid AWS credentials found for IAM authentication. Set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY, or configure a profile in the shared credentials file',
+        { profile: env['AWS_PROFILE'] ?? AWS_IAM.DEFAULT_PROFILE }
+      )
+    );
+  });
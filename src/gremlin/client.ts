@@ -1,11 +1,21 @@
-import { Context } from 'effect';
+import { Context, type Effect } from 'effect';
 import type { ConnectionState } from './types.js';
+import type { GremlinConnectionError } from '../errors.js';
+import type { GraphConfigType } from '../config.js';
+
+/**
+ * The configured graph that the surrounding `GremlinClient`, `SchemaService`
+ * and `GremlinService` talk to. Each named graph gets its own instance of
+ * those services, built with its own `GremlinGraph`.
+ */
+export class GremlinGraph extends Context.Tag('GremlinGraph')<GremlinGraph, GraphConfigType>() {}
 
 /**
  * Represents the Gremlin client as a service in the Effect context.
  *
- * This service provides access to the active Gremlin connection state,
- * including the client, connection, and traversal source (`g`).
+ * This service hands out the active Gremlin connection state, including the
+ * client, connection, and traversal source (`g`). Connections that close or
+ * error are re-acquired transparently on the next `getConnection`.
  *
  * @example
  * ```typescript
@@ -14,9 +24,18 @@ import type { ConnectionState } from './types.js';
  *
  * const myEffect = Effect.gen(function* () {
  *   const gremlin = yield* GremlinClient;
- *   const count = yield* Effect.tryPromise(() => gremlin.g.V().count().next());
+ *   const { g } = yield* gremlin.getConnection;
+ *   const count = yield* Effect.tryPromise(() => g.V().count().next());
  *   return count.value;
  * });
  * ```
  */
-export class GremlinClient extends Context.Tag('GremlinClient')<GremlinClient, ConnectionState>() {}
+export class GremlinClient extends Context.Tag('GremlinClient')<
+  GremlinClient,
+  {
+    /** Returns an open connection, re-acquiring it with backoff if it was lost */
+    readonly getConnection: Effect.Effect<ConnectionState, GremlinConnectionError>;
+    /** Discards a connection known to be broken so the next use reconnects */
+    readonly invalidate: (state: ConnectionState, reason: string) => Effect.Effect<void>;
+  }
+>() {}
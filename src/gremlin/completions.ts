@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Candidate values for argument completion.
+ *
+ * Clients request completions while the user types, so candidates come from
+ * the cached schema wherever possible and are narrowed to the typed prefix.
+ */
+
+import { COMPLETIONS } from '../constants.js';
+import type { GraphSchema } from './models/index.js';
+
+/**
+ * Narrows completion candidates to those starting with the typed value.
+ *
+ * @param candidates - All candidate values, possibly with duplicates
+ * @param prefix - Value typed so far; matched case-insensitively
+ * @param limit - Maximum number of values to return
+ * @returns Matching values without duplicates, sorted alphabetically
+ */
+export const filterCompletions = (
+  candidates: readonly string[],
+  prefix: string,
+  limit: number = COMPLETIONS.MAX_VALUES
+): string[] => {
+  const typed = prefix.toLowerCase();
+  return [...new Set(candidates)]
+    .filter(candidate => candidate.toLowerCase().startsWith(typed))
+    .sort((a, b) => a.localeCompare(b))
+    .slice(0, limit);
+};
+
+/**
+ * Lists the property keys of a schema.
+ *
+ * @param schema - Graph schema
+ * @param label - Vertex or edge label to restrict the keys to; all labels when omitted
+ * @returns Property keys, possibly with duplicates across labels
+ */
+export const listPropertyKeys = (schema: GraphSchema, label?: string): string[] =>
+  [
+    ...schema.nodes.map(node => ({ label: node.labels, properties: node.properties })),
+    ...schema.relationships.map(relationship => ({
+      label: relationship.type,
+      properties: relationship.properties,
+    })),
+  ]
+    .filter(element => label === undefined || element.label === label)
+    .flatMap(element => element.properties.map(property => property.name));
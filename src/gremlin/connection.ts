@@ -6,18 +6,50 @@
  * The layer uses `Effect.Layer` to provide the `GremlinClient` service
  * to the application's context, ensuring that the connection is acquired
  * when the layer is built and released when the application shuts down.
+ *
+ * Connections that close or error (for example after a Gremlin Server restart)
+ * are discarded and transparently re-acquired on next use, retrying with
+ * exponential backoff and jitter as configured in `AppConfig`.
  */
 
-import { Effect, Layer, Option, Redacted } from 'effect';
+import { Duration, Effect, Layer, Option, Redacted, Ref, Runtime, Schedule, pipe } from 'effect';
 import gremlin from 'gremlin';
-import { AppConfig } from '../config.js';
-import { Errors } from '../errors.js';
-import { GremlinClient } from './client.js';
+import { AppConfig, type AppConfigType, type GraphConfigType } from '../config.js';
+import { SERIALIZER_MIME_TYPES } from '../constants.js';
+import { Errors, type GremlinConnectionError } from '../errors.js';
+import { GremlinClient, GremlinGraph } from './client.js';
+import { resolveAwsCredentials } from './aws-credentials.js';
+import { makeTlsAgent } from './tls.js';
+import { signNeptuneHandshake } from '../utils/aws-sigv4.js';
 import type { ConnectionState } from './types.js';
 
 const { Client, DriverRemoteConnection } = gremlin.driver;
 const { AnonymousTraversalSource } = gremlin.process;
 
+/**
+ * Builds the websocket handshake headers for a graph.
+ *
+ * With IAM authentication enabled the headers carry a SigV4 signature made
+ * from freshly resolved AWS credentials, so every (re)connection is signed
+ * with a current timestamp and current credentials.
+ *
+ * @param graph The connection details of the graph to connect to.
+ * @returns An `Effect` that resolves to the handshake headers.
+ */
+const makeHandshakeHeaders = (
+  graph: GraphConfigType
+): Effect.Effect<Record<string, string>, GremlinConnectionError> =>
+  Option.match(
+    Option.filter(graph.awsRegion, () => graph.iamAuth),
+    {
+      onNone: () => Effect.succeed({}),
+      onSome: region =>
+        Effect.map(resolveAwsCredentials(), credentials =>
+          signNeptuneHandshake(graph.host, graph.port, region, credentials)
+        ),
+    }
+  );
+
 /**
  * Creates and tests a Gremlin connection.
  *
@@ -25,67 +57,106 @@ const { AnonymousTraversalSource } = gremlin.process;
  * server, creating a client and a graph traversal source (`g`), and then
  * testing the connection to ensure it is functional before it is used.
  *
- * @param config The application configuration containing Gremlin connection details.
+ * @param graph The connection details of the graph to connect to.
+ * @param logLevel The driver log level.
  * @returns An `Effect` that resolves to a `ConnectionState` object or fails with a `GremlinConnectionError`.
  */
-const makeConnection = Effect.gen(function* () {
-  const config = yield* AppConfig;
-  const protocol = config.gremlin.useSSL ? 'wss' : 'ws';
-  const url = `${protocol}://${config.gremlin.host}:${config.gremlin.port}/gremlin`;
-  const traversalSource = config.gremlin.traversalSource;
-
-  yield* Effect.logInfo('Acquiring Gremlin connection', {
-    host: config.gremlin.host,
-    port: config.gremlin.port,
-    ssl: config.gremlin.useSSL,
-  });
+const makeConnection = (
+  graph: GraphConfigType,
+  logLevel: AppConfigType['logging']['level']
+): Effect.Effect<ConnectionState, GremlinConnectionError> =>
+  Effect.gen(function* () {
+    const protocol = graph.useSSL ? 'wss' : 'ws';
+    const url = `${protocol}://${graph.host}:${graph.port}/gremlin`;
+    const traversalSource = graph.traversalSource;
+    const mimeType = SERIALIZER_MIME_TYPES[graph.serializer];
 
-  const auth = Option.zipWith(
-    config.gremlin.username,
-    config.gremlin.password,
-    (username, password) => ({ username, password: Redacted.value(password) })
-  );
+    yield* Effect.logInfo('Acquiring Gremlin connection', {
+      graph: graph.name,
+      host: graph.host,
+      port: graph.port,
+      ssl: graph.useSSL,
+      iamAuth: graph.iamAuth,
+      serializer: graph.serializer,
+    });
+
+    // IAM authentication replaces username/password authentication
+    const auth = graph.iamAuth
+      ? Option.none()
+      : Option.zipWith(graph.username, graph.password, (username, password) => ({
+          username,
+          password: Redacted.value(password),
+        }));
+    const headers = yield* makeHandshakeHeaders(graph);
+    const agent = graph.useSSL ? yield* makeTlsAgent(graph.tls) : undefined;
+    const tlsOptions = agent ? { agent, rejectUnauthorized: !graph.tls.insecureSkipVerify } : {};
+
+    const connection = yield* Effect.try({
+      try: () =>
+        new DriverRemoteConnection(url, {
+          traversalSource,
+          mimeType,
+          auth: Option.getOrUndefined(auth),
+          headers,
+          ...tlsOptions,
+          log: {
+            level: logLevel,
+            stream: process.stderr,
+          },
+        }),
+      catch: error => Errors.connection('Failed to create remote connection', { error }),
+    });
 
-  const connection = yield* Effect.try({
-    try: () =>
-      new DriverRemoteConnection(url, {
-        traversalSource,
-        auth: Option.getOrUndefined(auth),
-        headers: {},
-        log: {
-          level: config.logging.level,
-          stream: process.stderr,
-        },
+    const g = AnonymousTraversalSource.traversal().withRemote(connection);
+    const client = new Client(url, {
+      traversalSource,
+      mimeType,
+      auth: Option.getOrUndefined(auth),
+      headers,
+      ...tlsOptions,
+      log: {
+        level: logLevel,
+        stream: process.stderr,
+      },
+    });
+
+    const state: ConnectionState = {
+      client,
+      connection,
+      g,
+      lastUsed: Date.now(),
+    };
+
+    // Test the connection within the query timeout, closing it again if the test fails or is interrupted
+    yield* pipe(
+      Effect.tryPromise({
+        try: () => g.V().limit(1).count().next(),
+        catch: error =>
+          Errors.connection('Connection test failed', { error }, graph.host, graph.port),
       }),
-    catch: error => Errors.connection('Failed to create remote connection', { error }),
-  });
+      Effect.timeoutFail({
+        duration: Duration.millis(graph.queryTimeoutMs),
+        onTimeout: () =>
+          Errors.connection(
+            `Connection test timed out after ${graph.queryTimeoutMs}ms`,
+            { timeoutMs: graph.queryTimeoutMs },
+            graph.host,
+            graph.port
+          ),
+      }),
+      Effect.onError(() => closeQuietly(state))
+    );
 
-  const g = AnonymousTraversalSource.traversal().withRemote(connection);
-  const client = new Client(url, {
-    traversalSource,
-    auth: Option.getOrUndefined(auth),
-    headers: {},
-    log: {
-      level: config.logging.level,
-      stream: process.stderr,
-    },
-  });
+    yield* Effect.logInfo('✅ Gremlin connection acquired successfully', { graph: graph.name });
 
-  // Test the connection
-  yield* Effect.tryPromise({
-    try: () => g.V().limit(1).count().next(),
-    catch: error => Errors.connection('Connection test failed', { error }),
+    return state;
   });
 
-  yield* Effect.logInfo('✅ Gremlin connection acquired successfully');
-
-  return {
-    client,
-    connection,
-    g,
-    lastUsed: Date.now(),
-  };
-});
+/**
+ * Closes both the client and the remote connection, ignoring failures.
+ */
+const closeQuietly = (state: ConnectionState) =>
+  Effect.promise(() => Promise.allSettled([state.client.close(), state.connection.close()]));
 
 /**
  * Safely closes a Gremlin connection.
@@ -100,18 +171,136 @@ const releaseConnection = (state: ConnectionState) =>
   Effect.gen(function* () {
     yield* Effect.logInfo('Releasing Gremlin connection');
     yield* Effect.tryPromise({
-      try: () => state.connection.close(),
+      try: () => Promise.all([state.client.close(), state.connection.close()]),
       catch: error => Errors.connection('Failed to close Gremlin connection', { error }),
     }).pipe(Effect.catchAll(error => Effect.logWarning(`Error during release: ${error.message}`)));
     yield* Effect.logInfo('Gremlin connection released successfully');
   });
 
 /**
- * A layer that provides a live `GremlinClient` service.
+ * Builds the retry schedule used while (re)acquiring a connection.
+ *
+ * Delays grow exponentially from `initialDelayMs`, are capped at `maxDelayMs`,
+ * are jittered to avoid synchronized reconnect storms, and stop after
+ * `maxAttempts` retries.
+ *
+ * @param reconnect Reconnect settings from `AppConfig`
+ * @returns A `Schedule` suitable for `Effect.retry`
+ */
+export const makeReconnectSchedule = (reconnect: AppConfigType['gremlin']['reconnect']) =>
+  pipe(
+    Schedule.exponential(Duration.millis(reconnect.initialDelayMs)),
+    Schedule.union(Schedule.spaced(Duration.millis(reconnect.maxDelayMs))),
+    Schedule.jittered,
+    Schedule.intersect(Schedule.recurs(reconnect.maxAttempts))
+  );
+
+/**
+ * Registers listeners that report when the driver's websockets close or error.
+ *
+ * @param state The connection to watch
+ * @param onLost Callback invoked with a reason when the connection is lost
+ */
+const watchConnection = (state: ConnectionState, onLost: (reason: string) => void): void => {
+  const onClose = (code?: number) =>
+    onLost(code === undefined ? 'connection closed' : `connection closed (code ${code})`);
+  const onSocketError = (error: unknown) =>
+    onLost(`socket error: ${error instanceof Error ? error.message : String(error)}`);
+
+  for (const emitter of [state.client, state.connection]) {
+    emitter.addListener('close', onClose);
+    emitter.addListener('socketError', onSocketError);
+  }
+};
+
+/**
+ * Creates the connection manager behind the `GremlinClient` service.
+ *
+ * Holds at most one live connection. `getConnection` returns it, or acquires a
+ * new one (retrying with backoff) when there is none; acquisitions are
+ * serialized so concurrent callers share a single reconnect. `invalidate`
+ * discards a broken connection so the next caller reconnects.
+ */
+const makeGremlinClient = Effect.gen(function* () {
+  const config = yield* AppConfig;
+  const graph = yield* GremlinGraph;
+  const runtime = yield* Effect.runtime<never>();
+  const currentRef = yield* Ref.make<Option.Option<ConnectionState>>(Option.none());
+  const acquireLock = yield* Effect.makeSemaphore(1);
+  const reconnectSchedule = makeReconnectSchedule(graph.reconnect);
+
+  const invalidate = (state: ConnectionState, reason: string) =>
+    Effect.gen(function* () {
+      const wasCurrent = yield* Ref.modify(currentRef, current =>
+        Option.isSome(current) && current.value === state ? [true, Option.none()] : [false, current]
+      );
+      if (!wasCurrent) {
+        return;
+      }
+
+      yield* Effect.logWarning('Gremlin connection lost; reconnecting on next use', {
+        graph: graph.name,
+        reason,
+      });
+      yield* releaseConnection(state);
+    });
+
+  const acquire = pipe(
+    makeConnection(graph, config.logging.level),
+    Effect.tapError(error =>
+      Effect.logWarning(`Gremlin connection attempt failed: ${error.message}`)
+    ),
+    Effect.retry(reconnectSchedule),
+    Effect.tap(state =>
+      Effect.sync(() =>
+        watchConnection(state, reason => Runtime.runFork(runtime)(invalidate(state, reason)))
+      )
+    )
+  );
+
+  const getConnection = acquireLock.withPermits(1)(
+    Effect.gen(function* () {
+      const current = yield* Ref.get(currentRef);
+      if (Option.isSome(current)) {
+        return current.value;
+      }
+
+      // Callers may time out while acquiring, so a new connection is stored before interruption
+      return yield* Effect.uninterruptibleMask(restore =>
+        Effect.tap(restore(acquire), state => Ref.set(currentRef, Option.some(state)))
+      );
+    })
+  );
+
+  yield* Effect.addFinalizer(() =>
+    Effect.gen(function* () {
+      const current = yield* Ref.getAndSet(currentRef, Option.none());
+      if (Option.isSome(current)) {
+        yield* releaseConnection(current.value);
+      }
+    })
+  );
+
+  if (graph.lazyConnect) {
+    yield* Effect.logInfo('Lazy connect enabled; connecting to Gremlin on first use', {
+      graph: graph.name,
+    });
+  } else {
+    // Connect eagerly so startup fails fast when the graph is unreachable
+    yield* getConnection;
+  }
+
+  return GremlinClient.of({ getConnection, invalidate });
+});
+
+/**
+ * A layer that provides a live `GremlinClient` service for the graph
+ * described by `GremlinGraph`.
  *
  * This layer is responsible for the lifecycle of the Gremlin connection.
- * It acquires a connection when the layer is initialized and releases it
- * when the application scope is closed.
+ * It acquires a connection when the layer is initialized (or on first use when
+ * `GREMLIN_LAZY_CONNECT` is enabled), re-acquires it whenever it is lost, and
+ * releases it when the application scope is closed.
  *
  * @example
  * ```typescript
@@ -124,7 +313,4 @@ const releaseConnection = (state: ConnectionState) =>
  * );
  * ```
  */
-export const GremlinClientLive = Layer.scoped(
-  GremlinClient,
-  Effect.acquireRelease(makeConnection, releaseConnection)
-);
+export const GremlinClientLive = Layer.scoped(GremlinClient, makeGremlinClient);
@@ -0,0 +1,11 @@
+/**
+ * Version of the installed gremlin JavaScript driver, read from its package.json.
+ */
+
+import { createRequire } from 'node:module';
+
+const requirePackage = createRequire(import.meta.url);
+
+export const GREMLIN_DRIVER_VERSION: string = (
+  requirePackage('gremlin/package.json') as { version: string }
+).version;
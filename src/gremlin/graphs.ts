@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Registry of the named graphs served by this process.
+ *
+ * Every graph configured through `GREMLIN_ENDPOINT` and `GREMLIN_GRAPHS` gets its
+ * own `GremlinClient`, `SchemaService` (and therefore schema cache) and
+ * `GremlinService`. Tools pick a graph by name; the primary graph is used when
+ * no name is given.
+ */
+
+import { Context, Effect, Layer, pipe } from 'effect';
+import { AppConfig } from '../config.js';
+import { ERROR_CODES, Errors, type ConfigError } from '../errors.js';
+import { GremlinGraph } from './client.js';
+import { GremlinClientLive } from './connection.js';
+import { SchemaServiceLive } from './schema.js';
+import { GremlinService, GremlinServiceLive } from './service.js';
+
+/**
+ * Service tag resolving graph names to their `GremlinService`.
+ */
+export class GraphRegistry extends Context.Tag('GraphRegistry')<
+  GraphRegistry,
+  {
+    /** Configured graph names, the primary graph first */
+    readonly names: ReadonlyArray<string>;
+    /** Returns the service for the named graph, or for the primary graph when omitted */
+    readonly get: (
+      graph?: string
+    ) => Effect.Effect<Context.Tag.Service<typeof GremlinService>, ConfigError>;
+  }
+>() {}
+
+/**
+ * The per-graph service stack, built once for every configured graph.
+ */
+const GraphServicesLive = pipe(
+  GremlinServiceLive,
+  Layer.provide(SchemaServiceLive),
+  Layer.provide(GremlinClientLive)
+);
+
+/**
+ * A layer that builds the services of every configured graph.
+ *
+ * Graph services live as long as the layer, so connections are released when
+ * the application scope closes.
+ */
+export const GraphRegistryLive = Layer.scoped(
+  GraphRegistry,
+  Effect.gen(function* () {
+    const config = yield* AppConfig;
+
+    const entries = yield* Effect.forEach(config.graphs, graph =>
+      pipe(
+        Layer.build(Layer.provide(GraphServicesLive, Layer.succeed(GremlinGraph, graph))),
+        Effect.map(context => [graph.name, Context.get(context, GremlinService)] as const)
+      )
+    );
+    const services = new Map(entries);
+    const names = entries.map(([name]) => name);
+    const primary = names[0] ?? '';
+
+    const get = (graph?: string) => {
+      const service = services.get(graph ?? primary);
+      return service
+        ? Effect.succeed(service)
+        : Effect.fail(
+            Errors.config(`Unknown graph '${graph}'. Configured graphs: ${names.join(', ')}`, {
+              code: ERROR_CODES.UNKNOWN_GRAPH,
+              graph,
+            })
+          );
+    };
+
+    return GraphRegistry.of({ names, get });
+  })
+);
+
+/**
+ * A layer exposing the primary graph's service as `GremlinService`.
+ */
+export const PrimaryGremlinServiceLive = Layer.effect(
+  GremlinService,
+  Effect.flatMap(GraphRegistry, registry => registry.get())
+);
+
+/**
+ * Runs an effect against the `GremlinService` of the named graph.
+ *
+ * @param graph - Graph name, or undefined for the primary graph
+ * @returns Function providing the selected graph's service to an effect
+ */
+export const withGraph =
+  (graph: string | undefined) =>
+  <A, E, R>(
+    effect: Effect.Effect<A, E, R>
+  ): Effect.Effect<A, E | ConfigError, Exclude<R, GremlinService> | GraphRegistry> =>
+    Effect.flatMap(GraphRegistry, registry =>
+      Effect.flatMap(registry.get(graph), service =>
+        Effect.provideService(effect, GremlinService, service)
+      )
+    );
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Per-label views of the graph schema.
+ *
+ * The full schema of a graph with hundreds of labels is too large to hand to an
+ * agent at once. These views cut out everything known about a single vertex or
+ * edge label: its properties (with enums and sample values), its count and the
+ * relationship patterns it takes part in.
+ */
+
+import type { GraphSchema, Property } from './models/index.js';
+
+/**
+ * Schema of one vertex label.
+ */
+export interface VertexLabelSchema {
+  readonly label: string;
+  readonly count?: number;
+  readonly properties: readonly Property[];
+  /** Edges leaving vertices of this label, by edge label and target vertex label */
+  readonly outgoing: ReadonlyArray<{ readonly relation: string; readonly to: string }>;
+  /** Edges arriving at vertices of this label, by edge label and source vertex label */
+  readonly incoming: ReadonlyArray<{ readonly relation: string; readonly from: string }>;
+}
+
+/**
+ * Schema of one edge label.
+ */
+export interface EdgeLabelSchema {
+  readonly label: string;
+  readonly count?: number;
+  readonly properties: readonly Property[];
+  /** Vertex labels the edge connects */
+  readonly connects: ReadonlyArray<{ readonly from: string; readonly to: string }>;
+}
+
+/**
+ * Lists the vertex labels of a schema.
+ */
+export const listVertexLabels = (schema: GraphSchema): string[] =>
+  schema.nodes.map(node => node.labels);
+
+/**
+ * Lists the edge labels of a schema.
+ */
+export const listEdgeLabels = (schema: GraphSchema): string[] =>
+  schema.relationships.map(relationship => relationship.type);
+
+/**
+ * Extracts the schema of one vertex label.
+ *
+ * @param schema - Full graph schema
+ * @param label - Vertex label
+ * @returns The label's schema, or undefined when the graph has no such vertex label
+ */
+export const getVertexLabelSchema = (
+  schema: GraphSchema,
+  label: string
+): VertexLabelSchema | undefined => {
+  const node = schema.nodes.find(candidate => candidate.labels === label);
+  if (!node) {
+    return undefined;
+  }
+
+  return {
+    label,
+    ...(node.count !== undefined ? { count: node.count } : {}),
+    properties: node.properties,
+    outgoing: schema.relationship_patterns
+      .filter(pattern => pattern.left_node === label)
+      .map(pattern => ({ relation: pattern.relation, to: pattern.right_node })),
+    incoming: schema.relationship_patterns
+      .filter(pattern => pattern.right_node === label)
+      .map(pattern => ({ relation: pattern.relation, from: pattern.left_node })),
+  };
+};
+
+/**
+ * Extracts the schema of one edge label.
+ *
+ * @param schema - Full graph schema
+ * @param label - Edge label
+ * @returns The label's schema, or undefined when the graph has no such edge label
+ */
+export const getEdgeLabelSchema = (
+  schema: GraphSchema,
+  label: string
+): EdgeLabelSchema | undefined => {
+  const relationship = schema.relationships.find(candidate => candidate.type === label);
+  if (!relationship) {
+    return undefined;
+  }
+
+  return {
+    label,
+    ...(relationship.count !== undefined ? { count: relationship.count } : {}),
+    properties: relationship.properties,
+    connects: schema.relationship_patterns
+      .filter(pattern => pattern.relation === label)
+      .map(pattern => ({ from: pattern.left_node, to: pattern.right_node })),
+  };
+};
@@ -7,3 +7,6 @@
 export * from './graph-schema.js';
 export * from './query-result.js';
 export * from './import-export.js';
+export * from './query-profile.js';
+export * from './query-history.js';
+export * from './saved-query.js';
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Query history models for queries run through the service.
+ */
+
+import { z } from 'zod';
+import { GremlinBindingsSchema } from './query-result.js';
+
+/**
+ * One query executed through `GremlinService.executeQuery`.
+ */
+export const QueryHistoryEntrySchema = z.object({
+  /** Sequence number, used to re-run the query */
+  id: z.number().int().positive(),
+  /** Name of the graph the query ran against */
+  graph: z.string(),
+  query: z.string(),
+  bindings: GremlinBindingsSchema.optional(),
+  /** When the query started, as an ISO timestamp */
+  executed_at: z.string(),
+  duration_ms: z.number(),
+  status: z.enum(['success', 'error']),
+  /** Number of results, for successful queries */
+  result_count: z.number().optional(),
+  /** Error code and message, for failed queries */
+  error: z.object({ code: z.string(), message: z.string() }).optional(),
+});
+
+export type QueryHistoryEntry = z.infer<typeof QueryHistoryEntrySchema>;
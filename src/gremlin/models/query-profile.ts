@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Query profiling models for profile() and explain() results.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Metrics of one traversal step, as reported by profile().
+ */
+export interface ProfileStep {
+  /** Step as printed by the server, e.g. TinkerGraphStep(vertex,[~label.eq(person)]) */
+  step: string;
+  /** Traversers that left the step (bulked) */
+  traversers: number;
+  /** Elements that left the step (unbulked) */
+  count: number;
+  /** Time spent in the step, in milliseconds */
+  duration_ms: number;
+  /** Share of the total traversal time, in percent */
+  percent: number;
+  /** Steps of child traversals, e.g. inside where() or repeat() */
+  nested_steps?: ProfileStep[];
+}
+
+export const ProfileStepSchema: z.ZodType<ProfileStep> = z.lazy(() =>
+  z.object({
+    step: z.string(),
+    traversers: z.number(),
+    count: z.number(),
+    duration_ms: z.number(),
+    percent: z.number(),
+    nested_steps: z.array(ProfileStepSchema).optional(),
+  })
+);
+
+/**
+ * Per-step breakdown of a profiled traversal.
+ */
+export const QueryProfileSchema = z.object({
+  /** Total traversal time, in milliseconds */
+  total_duration_ms: z.number(),
+  steps: z.array(ProfileStepSchema),
+});
+
+export type QueryProfile = z.infer<typeof QueryProfileSchema>;
+
+/**
+ * How the server's strategies rewrote a traversal, as reported by explain().
+ */
+export const QueryExplanationSchema = z.object({
+  /** Steps as written */
+  original: z.array(z.string()),
+  /** Traversal after each applied strategy */
+  intermediate: z.array(
+    z.object({
+      strategy: z.string(),
+      category: z.string(),
+      traversal: z.array(z.string()),
+    })
+  ),
+  /** Steps that are actually executed */
+  final: z.array(z.string()),
+});
+
+export type QueryExplanation = z.infer<typeof QueryExplanationSchema>;
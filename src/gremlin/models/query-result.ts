@@ -111,6 +111,42 @@ export const GremlinQueryResultSchema = z.object({
 
 export type GremlinQueryResult = z.infer<typeof GremlinQueryResultSchema>;
 
+/**
+ * One page of query results, with a cursor when more results remain.
+ */
+export const PagedQueryResultSchema = GremlinQueryResultSchema.extend({
+  /** Whether results were left out of this page */
+  truncated: z.boolean(),
+  /** Number of results the query produced */
+  total_results: z.number(),
+  /** Passed back with the same query to fetch the next page */
+  cursor: z.string().optional(),
+});
+
+export type PagedQueryResult = z.infer<typeof PagedQueryResultSchema>;
+
+/**
+ * Names Gremlin Server reserves and rejects as binding keys.
+ */
+const RESERVED_BINDING_NAMES = ['id', 'key', 'label', 'value'];
+
+/**
+ * Name of a query parameter, usable as a variable in the query script.
+ */
+export const GremlinBindingNameSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Binding names must be valid identifiers')
+  .refine(name => !RESERVED_BINDING_NAMES.includes(name), {
+    message: `Binding names cannot be one of: ${RESERVED_BINDING_NAMES.join(', ')}`,
+  });
+
+/**
+ * Query parameters, bound by name to variables used in the query script.
+ */
+export const GremlinBindingsSchema = z.record(GremlinBindingNameSchema, z.unknown());
+
+export type GremlinBindings = z.infer<typeof GremlinBindingsSchema>;
+
 /**
  * Input schema for Gremlin query operations.
  */
@@ -119,6 +155,9 @@ export const GremlinQueryInputSchema = z.object({
     .string()
     .min(1, 'Query cannot be empty')
     .describe('The Gremlin query to execute against the graph database'),
+  bindings: GremlinBindingsSchema.optional().describe(
+    'Values for the variables used in the query, keyed by variable name'
+  ),
 });
 
 export type GremlinQueryInput = z.infer<typeof GremlinQueryInputSchema>;
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Saved query models for the named query library.
+ */
+
+import { z } from 'zod';
+import { GremlinBindingNameSchema } from './query-result.js';
+
+/**
+ * A declared parameter of a saved query, bound to the variable of the same name.
+ */
+export const SavedQueryParameterSchema = z
+  .object({
+    type: z.enum(['string', 'number', 'integer', 'boolean']),
+    description: z.string().optional(),
+    /** Parameters are required unless they have a default or set this to false */
+    required: z.boolean().optional(),
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    /** Allowed values, for string parameters */
+    enum: z.array(z.string()).nonempty().optional(),
+  })
+  .strict()
+  .refine(parameter => !parameter.enum || parameter.type === 'string', {
+    message: 'enum is only supported for string parameters',
+  });
+
+export type SavedQueryParameter = z.infer<typeof SavedQueryParameterSchema>;
+
+/**
+ * A vetted, parameterized traversal registered as its own MCP tool.
+ */
+export const SavedQuerySchema = z
+  .object({
+    /** Tool name, in snake_case */
+    name: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, 'Saved query names must be lowercase snake_case identifiers'),
+    title: z.string().optional(),
+    description: z.string().min(1, 'Saved queries need a description'),
+    query: z.string().min(1, 'Query cannot be empty'),
+    parameters: z.record(GremlinBindingNameSchema, SavedQueryParameterSchema).default({}),
+    /** Graph the query always runs against; callers choose the graph when omitted */
+    graph: z.string().optional(),
+  })
+  .strict();
+
+export type SavedQuery = z.infer<typeof SavedQuerySchema>;
+
+/**
+ * Contents of the saved queries file.
+ */
+export const SavedQueryFileSchema = z.object({
+  queries: z.array(SavedQuerySchema),
+});
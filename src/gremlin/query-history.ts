@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Bounded history of the queries executed by this process.
+ *
+ * Every query run through `GremlinService.executeQuery`, on any graph, is
+ * recorded with its timing, result count and outcome so it can be reviewed and
+ * repeated. Only the most recent entries are kept. When a history file is
+ * configured the history is loaded from it at startup and rewritten in the
+ * background after every query, so it survives restarts; bindings are left out
+ * of the file unless enabled, and file errors are logged and never fail a query.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { Context, Effect, Layer, Option, Ref, pipe } from 'effect';
+import { z } from 'zod';
+import { AppConfig } from '../config.js';
+import { RESOURCE_URIS } from '../constants.js';
+import { ERROR_CODES, Errors, type ResourceError } from '../errors.js';
+import { type QueryHistoryEntry, QueryHistoryEntrySchema } from './models/index.js';
+
+/**
+ * Service tag for the query history.
+ */
+export class QueryHistory extends Context.Tag('QueryHistory')<
+  QueryHistory,
+  {
+    /** Adds an executed query, dropping the oldest entries beyond the configured size */
+    readonly record: (entry: Omit<QueryHistoryEntry, 'id'>) => Effect.Effect<void>;
+    /** Recorded queries, most recent first */
+    readonly list: Effect.Effect<ReadonlyArray<QueryHistoryEntry>>;
+    /** Returns a recorded query by id */
+    readonly get: (id: number) => Effect.Effect<QueryHistoryEntry, ResourceError>;
+  }
+>() {}
+
+/**
+ * Reads the persisted history, starting empty when the file is missing or invalid.
+ */
+const loadHistoryFile = (file: string) =>
+  pipe(
+    Effect.tryPromise(() => readFile(file, 'utf8')),
+    Effect.flatMap(text =>
+      Effect.try(() => z.array(QueryHistoryEntrySchema).parse(JSON.parse(text)))
+    ),
+    Effect.catchAll(error =>
+      pipe(
+        error.error instanceof Error && 'code' in error.error && error.error.code === 'ENOENT'
+          ? Effect.void
+          : Effect.logWarning(`Ignoring unreadable query history file ${file}`, {
+              error: String(error.error),
+            }),
+        Effect.as([] as QueryHistoryEntry[])
+      )
+    )
+  );
+
+const makeQueryHistory = Effect.gen(function* () {
+  const { history: config } = yield* AppConfig;
+  const file = Option.getOrUndefined(config.file);
+
+  const initial = file && config.size > 0 ? yield* loadHistoryFile(file) : [];
+  const entriesRef = yield* Ref.make<ReadonlyArray<QueryHistoryEntry>>(initial.slice(-config.size));
+  const nextIdRef = yield* Ref.make(Math.max(0, ...initial.map(entry => entry.id)) + 1);
+  // Serializes file writes, so a slow write never overwrites a newer history
+  const writeLock = yield* Effect.makeSemaphore(1);
+
+  const scope = yield* Effect.scope;
+
+  const persist = (path: string) =>
+    writeLock.withPermits(1)(
+      pipe(
+        Ref.get(entriesRef),
+        Effect.map(entries =>
+          config.fileBindings ? entries : entries.map(({ bindings: _, ...entry }) => entry)
+        ),
+        // A write that has started is finished, so the file is never left half written
+        Effect.flatMap(entries =>
+          Effect.uninterruptible(
+            Effect.tryPromise(() => writeFile(path, JSON.stringify(entries, null, 2)))
+          )
+        ),
+        Effect.catchAll(error =>
+          Effect.logWarning(`Failed to write query history file ${path}`, {
+            error: String(error.error),
+          })
+        )
+      )
+    );
+
+  const record = (entry: Omit<QueryHistoryEntry, 'id'>) =>
+    config.size === 0
+      ? Effect.void
+      : Effect.gen(function* () {
+          const id = yield* Ref.getAndUpdate(nextIdRef, n => n + 1);
+          yield* Ref.update(entriesRef, entries =>
+            [...entries, { id, ...entry }].slice(-config.size)
+          );
+          if (file) {
+            yield* Effect.forkIn(persist(file), scope);
+          }
+        });
+
+  const list = Effect.map(Ref.get(entriesRef), entries => [...entries].reverse());
+
+  const get = (id: number) =>
+    Effect.flatMap(Ref.get(entriesRef), entries => {
+      const entry = entries.find(candidate => candidate.id === id);
+      return entry
+        ? Effect.succeed(entry)
+        : Effect.fail(
+            Errors.resource(`Query ${id} is not in the query history`, RESOURCE_URIS.HISTORY, {
+              code: ERROR_CODES.NOT_FOUND,
+              id,
+            })
+          );
+    });
+
+  if (file && config.size > 0) {
+    // Background writes still waiting are interrupted on shutdown, so write the final history
+    yield* Effect.addFinalizer(() => persist(file));
+  }
+
+  return QueryHistory.of({ record, list, get });
+});
+
+/**
+ * A layer providing the query history shared by all graphs and MCP sessions.
+ */
+export const QueryHistoryLive = Layer.scoped(QueryHistory, makeQueryHistory);
@@ -65,6 +65,15 @@ export const executeGremlinQuery = <T>(
     catch: (error: unknown) => Errors.query(errorMessage, queryDescription, { error }),
   });
 
+/**
+ * Formats labels as the arguments of a `hasLabel()` step in query descriptions.
+ *
+ * @param labels - Labels to format
+ * @returns Comma-separated, quoted labels
+ */
+export const quoteLabels = (labels: readonly string[]): string =>
+  labels.map(label => `'${label}'`).join(', ');
+
 /**
  * Gets all vertex labels from the graph.
  *
@@ -99,26 +108,28 @@ export const getEdgeLabels = (
  * Gets vertex counts grouped by label.
  *
  * @param g - Gremlin traversal source
+ * @param labels - Labels to count; all labels when omitted
  * @returns Effect with vertex count data
  */
-export const getVertexCounts = (g: GraphTraversalSource) =>
+export const getVertexCounts = (g: GraphTraversalSource, labels?: readonly string[]) =>
   executeGremlinQuery(
-    () => g.V().groupCount().by(label()).next(),
+    () => (labels ? g.V().hasLabel(...labels) : g.V()).groupCount().by(label()).next(),
     'Failed to get vertex counts',
-    'g.V().groupCount().by(label()).next()'
+    `g.V()${labels ? `.hasLabel(${quoteLabels(labels)})` : ''}.groupCount().by(label()).next()`
   );
 
 /**
  * Gets edge counts grouped by label.
  *
  * @param g - Gremlin traversal source
+ * @param labels - Labels to count; all labels when omitted
  * @returns Effect with edge count data
  */
-export const getEdgeCounts = (g: GraphTraversalSource) =>
+export const getEdgeCounts = (g: GraphTraversalSource, labels?: readonly string[]) =>
   executeGremlinQuery(
-    () => g.E().groupCount().by(label()).next(),
+    () => (labels ? g.E().hasLabel(...labels) : g.E()).groupCount().by(label()).next(),
     'Failed to get edge counts',
-    'g.E().groupCount().by(label()).next()'
+    `g.E()${labels ? `.hasLabel(${quoteLabels(labels)})` : ''}.groupCount().by(label()).next()`
   );
 
 /**
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Read-only enforcement for Gremlin query scripts.
+ *
+ * Queries are checked for mutating steps before they are submitted, so obvious
+ * writes are rejected without reaching the server. Methods called through a
+ * quoted name or by reflection are rejected too, as their names cannot be
+ * checked. The check is lexical and may still miss dynamic code, so where the
+ * server evaluates Groovy scripts the traversal source can additionally be
+ * rebound with TinkerPop's `ReadOnlyStrategy`, which makes the server refuse
+ * any mutation.
+ */
+
+import { Effect } from 'effect';
+import { READ_ONLY } from '../constants.js';
+import { ERROR_CODES, Errors, type GremlinQueryError } from '../errors.js';
+
+/**
+ * Matches single, double and triple quoted string literals, honoring escapes.
+ */
+const STRING_LITERAL = /'''[\s\S]*?'''|"""[\s\S]*?"""|'(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*"/g;
+
+/**
+ * Matches any mutating step, or method that calls methods by name, used as an identifier.
+ */
+const MUTATING_STEP = new RegExp(
+  `(?<![\\w$])(${[...READ_ONLY.MUTATING_STEPS, ...READ_ONLY.DYNAMIC_METHODS].join('|')})(?![\\w$])`,
+  'g'
+);
+
+/**
+ * Matches a member named by a string literal once literals are blanked, e.g. `g.V()."drop"()`.
+ */
+const QUOTED_MEMBER = /\.[&@]?\s*""/g;
+
+/**
+ * Lists the mutating steps a query uses, ignoring text inside string literals.
+ *
+ * Methods called through a quoted name or by reflection cannot be checked, so
+ * they are reported as well.
+ *
+ * @param query - Gremlin query script
+ * @returns Distinct mutating step names in order of appearance
+ */
+export const findMutatingSteps = (query: string): string[] => {
+  const code = query.replace(STRING_LITERAL, '""');
+  const matches = [
+    ...Array.from(code.matchAll(MUTATING_STEP), match => ({
+      index: match.index,
+      step: match[1] as string,
+    })),
+    ...Array.from(code.matchAll(QUOTED_MEMBER), match => ({
+      index: match.index,
+      step: READ_ONLY.QUOTED_METHOD_CALL as string,
+    })),
+  ].sort((a, b) => a.index - b.index);
+  return [...new Set(matches.map(match => match.step))];
+};
+
+/**
+ * Rejects mutating queries and prepares the script to submit in read-only mode.
+ *
+ * @param query - Gremlin query script
+ * @param applyStrategy - Whether to bind `g` with `ReadOnlyStrategy` for the script
+ * @returns Effect with the script to submit, or a query error naming the mutating steps
+ */
+export const enforceReadOnly = (
+  query: string,
+  applyStrategy: boolean
+): Effect.Effect<string, GremlinQueryError> => {
+  const steps = findMutatingSteps(query);
+
+  if (steps.length > 0) {
+    return Effect.fail(
+      Errors.query(`Read-only mode does not allow mutating steps (${steps.join(', ')})`, query, {
+        code: ERROR_CODES.READ_ONLY_VIOLATION,
+        steps,
+      })
+    );
+  }
+
+  return Effect.succeed(applyStrategy ? `${READ_ONLY.STRATEGY_PREFIX}${query}` : query);
+};
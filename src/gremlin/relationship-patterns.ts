@@ -8,7 +8,8 @@
 import { Effect } from 'effect';
 import gremlin from 'gremlin';
 import type { RelationshipPattern } from './models/index.js';
-import { executeGremlinQuery } from './query-utils.js';
+import { executeGremlinQuery, quoteLabels } from './query-utils.js';
+import type { LabelSelection } from './schema-filter.js';
 import type { GremlinQueryError } from '../errors.js';
 import type { process } from 'gremlin';
 
@@ -29,38 +30,65 @@ interface RawPatternData {
  * Generates relationship patterns by analyzing edge connectivity.
  *
  * @param g - Gremlin traversal source
- * @param maxPatterns - Maximum number of patterns to retrieve (default: 1000)
+ * @param maxPatterns - Maximum number of patterns to retrieve per query (default: 1000)
+ * @param labels - Restricts the analysis to edges with these labels and edges
+ *   incident to vertices with these labels; all edges when omitted
  * @returns Effect with array of relationship patterns
  */
 export const generateRelationshipPatterns = (
   g: GraphTraversalSource,
-  maxPatterns: number = 1000
+  maxPatterns: number = 1000,
+  labels?: LabelSelection
 ): Effect.Effect<RelationshipPattern[], GremlinQueryError> =>
   Effect.gen(function* () {
     yield* Effect.logInfo('Generating relationship patterns from edge connectivity');
 
-    // Get all patterns in a single optimized query
-    const allPatterns = yield* executeGremlinQuery(
-      () =>
-        g
-          .E()
-          .project('from', 'to', 'label')
-          .by(outV().label())
-          .by(inV().label())
-          .by(label())
-          .dedup()
-          .limit(maxPatterns)
-          .toList(),
-      'Failed to get relationship patterns',
-      `g.E().project('from', 'to', 'label').by(outV().label()).by(inV().label()).by(label()).dedup().limit(${maxPatterns}).toList()`
-    );
-
-    yield* Effect.logInfo(
-      `Retrieved ${(allPatterns as unknown[]).length} raw patterns from database`
-    );
+    // One optimized query over all edges, or one per kind of selected label
+    const sources = labels
+      ? [
+          ...(labels.edgeLabels.length > 0
+            ? [
+                {
+                  edges: () => g.E().hasLabel(...labels.edgeLabels),
+                  description: `g.E().hasLabel(${quoteLabels(labels.edgeLabels)})`,
+                },
+              ]
+            : []),
+          ...(labels.vertexLabels.length > 0
+            ? [
+                {
+                  edges: () =>
+                    g
+                      .V()
+                      .hasLabel(...labels.vertexLabels)
+                      .bothE(),
+                  description: `g.V().hasLabel(${quoteLabels(labels.vertexLabels)}).bothE()`,
+                },
+              ]
+            : []),
+        ]
+      : [{ edges: () => g.E(), description: 'g.E()' }];
+
+    const allPatterns = yield* Effect.forEach(sources, ({ edges, description }) =>
+      executeGremlinQuery(
+        () =>
+          edges()
+            .project('from', 'to', 'label')
+            .by(outV().label())
+            .by(inV().label())
+            .by(label())
+            .dedup()
+            .limit(maxPatterns)
+            .toList(),
+        'Failed to get relationship patterns',
+        `${description}.project('from', 'to', 'label').by(outV().label()).by(inV().label()).by(label()).dedup().limit(${maxPatterns}).toList()`
+      )
+    ).pipe(Effect.map(results => results.flat()));
+
+    yield* Effect.logInfo(`Retrieved ${allPatterns.length} raw patterns from database`);
 
     // Process the results into structured patterns
-    const processedPatterns = yield* processRawPatterns(allPatterns as unknown[]);
+    const processedPatterns = yield* processRawPatterns(allPatterns);
 
     yield* Effect.logInfo(`Processed ${processedPatterns.length} valid relationship patterns`);
 
@@ -82,7 +110,15 @@ const processRawPatterns = (
   // Filter out invalid patterns and convert to final format
   const validPatterns = extractedPatterns.filter(isValidPattern).map(convertToRelationshipPattern);
 
-  return Effect.succeed(validPatterns);
+  // Drop patterns returned by more than one query
+  const uniquePatterns = new Map(
+    validPatterns.map(pattern => [
+      JSON.stringify([pattern.left_node, pattern.relation, pattern.right_node]),
+      pattern,
+    ])
+  );
+
+  return Effect.succeed([...uniquePatterns.values()]);
 };
 
 /**
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Paging of large query results returned to MCP clients.
+ *
+ * Results that exceed the configured count or serialized size are split into
+ * pages. The results after the first page are kept in memory for a limited time
+ * under a continuation cursor, so follow-up pages neither re-run the query nor
+ * see a graph that changed in between. Cursors encode their offset and can
+ * therefore be retried safely. A cursor only continues the request that created
+ * it: the same query, against the same graph, with the same bindings.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Context, Effect, Layer, Ref } from 'effect';
+import { AppConfig, type AppConfigType } from '../config.js';
+import { RESULT_CURSORS } from '../constants.js';
+import { ERROR_CODES, Errors, type GremlinQueryError } from '../errors.js';
+import type {
+  GremlinBindings,
+  GremlinQueryResult,
+  GremlinResultItem,
+  PagedQueryResult,
+} from './models/index.js';
+
+type PageLimits = Pick<AppConfigType['results'], 'maxResults' | 'maxBytes'>;
+
+/**
+ * The request whose results a cursor continues.
+ */
+export interface CursorRequest {
+  readonly query: string;
+  /** Name of the graph the query ran against */
+  readonly graph: string;
+  readonly bindings?: GremlinBindings | undefined;
+}
+
+/**
+ * Results kept for a truncated query.
+ */
+interface CursorEntry {
+  readonly query: string;
+  readonly graph: string;
+  /** Bindings serialized with sorted keys */
+  readonly bindings: string;
+  /** Results after the first page, starting at index `start` of the complete result set */
+  readonly results: readonly GremlinResultItem[];
+  readonly start: number;
+  readonly total: number;
+  /** Serialized size of the kept results */
+  readonly bytes: number;
+  readonly expiresAt: number;
+}
+
+/**
+ * Service tag for paging query results.
+ */
+export class ResultCursors extends Context.Tag('ResultCursors')<
+  ResultCursors,
+  {
+    /** Returns the first page of a result, keeping the rest under a cursor when truncated */
+    readonly paginate: (
+      request: CursorRequest,
+      result: GremlinQueryResult
+    ) => Effect.Effect<PagedQueryResult>;
+    /** Returns the page a cursor points to; the request must match the one that created it */
+    readonly resume: (
+      request: CursorRequest,
+      cursor: string
+    ) => Effect.Effect<PagedQueryResult, GremlinQueryError>;
+  }
+>() {}
+
+/**
+ * Finds where the page starting at an offset ends.
+ *
+ * A page holds at most `maxResults` results whose combined JSON size stays
+ * within `maxBytes`, but always at least one result so paging makes progress.
+ *
+ * @param results - Complete result set
+ * @param offset - Index of the first result of the page
+ * @param limits - Page size limits
+ * @returns Index after the last result of the page
+ */
+export const findPageEnd = (
+  results: readonly unknown[],
+  offset: number,
+  limits: PageLimits
+): number => {
+  let end = offset;
+  let bytes = 0;
+
+  while (end < results.length && end - offset < limits.maxResults) {
+    bytes += resultBytes(results[end]);
+    if (bytes > limits.maxBytes && end > offset) {
+      break;
+    }
+    end++;
+  }
+
+  return end;
+};
+
+const resultBytes = (result: unknown): number =>
+  Buffer.byteLength(JSON.stringify(result) ?? 'null');
+
+/**
+ * Serializes bindings with object keys sorted, so equal bindings compare equal
+ * whatever order their keys were given in.
+ */
+const serializeBindings = (bindings: GremlinBindings | undefined): string =>
+  JSON.stringify(bindings ?? {}, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value
+  );
+
+/**
+ * Names the parts of a request that differ from the one a cursor was issued for.
+ */
+const findMismatches = (entry: CursorEntry, request: CursorRequest): string[] => [
+  ...(entry.query !== request.query ? ['query'] : []),
+  ...(entry.graph !== request.graph ? ['graph'] : []),
+  ...(entry.bindings !== serializeBindings(request.bindings) ? ['bindings'] : []),
+];
+
+const formatCursor = (id: string, offset: number): string => `${id}:${offset}`;
+
+const parseCursor = (cursor: string): { id: string; offset: number } | undefined => {
+  const match = /^([\w-]+):(\d+)$/.exec(cursor);
+  return match ? { id: match[1] as string, offset: Number(match[2]) } : undefined;
+};
+
+const makeResultCursors = Effect.gen(function* () {
+  const config = yield* AppConfig;
+  const entriesRef = yield* Ref.make(new Map<string, CursorEntry>());
+
+  /**
+   * Builds the page starting at an offset of the complete result set, from the
+   * part of it starting at index `start`.
+   *
+   * @param id - Cursor id for the following page, or undefined when none is kept
+   */
+  const toPage = (
+    id: string | undefined,
+    results: readonly GremlinResultItem[],
+    start: number,
+    total: number,
+    offset: number,
+    message: string
+  ): PagedQueryResult => {
+    const end = start + findPageEnd(results, offset - start, config.results);
+    const truncated = end < total;
+    const range = `Returned results ${offset + 1}-${end} of ${total}`;
+
+    return {
+      results: results.slice(offset - start, end - start),
+      message: truncated
+        ? id
+          ? `${range}. Run the same query with the cursor to fetch the next page`
+          : `${range}. The remaining results are too large to keep; narrow the query to see them`
+        : offset > 0
+          ? range
+          : message,
+      truncated,
+      total_results: total,
+      ...(truncated && id ? { cursor: formatCursor(id, end) } : {}),
+    };
+  };
+
+  /**
+   * Stores a result set, dropping expired cursors and the oldest ones beyond
+   * the entry count or total size limits.
+   */
+  const store = (id: string, entry: CursorEntry) =>
+    Ref.update(entriesRef, entries => {
+      const now = Date.now();
+      const kept = [...entries, [id, entry] as const]
+        .filter(([, stored]) => stored.expiresAt > now)
+        .slice(-RESULT_CURSORS.MAX_ENTRIES);
+
+      let bytes = kept.reduce((sum, [, stored]) => sum + stored.bytes, 0);
+      while (bytes > config.results.cursorMaxBytes) {
+        bytes -= kept.shift()?.[1].bytes ?? 0;
+      }
+      return new Map(kept);
+    });
+
+  const paginate = (request: CursorRequest, result: GremlinQueryResult) =>
+    Effect.gen(function* () {
+      const { results } = result;
+      const firstPageEnd = findPageEnd(results, 0, config.results);
+      if (firstPageEnd >= results.length) {
+        return toPage(undefined, results, 0, results.length, 0, result.message);
+      }
+
+      // Only the results after the first page are kept, within the total size limit
+      const remaining = results.slice(firstPageEnd);
+      const bytes = remaining.reduce((sum: number, item) => sum + resultBytes(item), 0);
+      if (bytes > config.results.cursorMaxBytes) {
+        return toPage(undefined, results, 0, results.length, 0, result.message);
+      }
+
+      const id = randomUUID();
+      yield* store(id, {
+        query: request.query,
+        graph: request.graph,
+        bindings: serializeBindings(request.bindings),
+        results: remaining,
+        start: firstPageEnd,
+        total: results.length,
+        bytes,
+        expiresAt: Date.now() + RESULT_CURSORS.TTL_MS,
+      });
+
+      return toPage(id, results, 0, results.length, 0, result.message);
+    });
+
+  const resume = (request: CursorRequest, cursor: string) =>
+    Effect.gen(function* () {
+      const position = parseCursor(cursor);
+      const entry = position ? (yield* Ref.get(entriesRef)).get(position.id) : undefined;
+
+      if (!position || !entry || entry.expiresAt <= Date.now()) {
+        return yield* Effect.fail(
+          Errors.query('Cursor is unknown or has expired; run the query again', request.query, {
+            code: ERROR_CODES.INVALID_CURSOR,
+            cursor,
+          })
+        );
+      }
+
+      const mismatches = findMismatches(entry, request);
+      if (mismatches.length > 0) {
+        return yield* Effect.fail(
+          Errors.query(
+            `Cursor was issued for a different ${mismatches.join(' and ')}`,
+            request.query,
+            { code: ERROR_CODES.INVALID_CURSOR, cursor, mismatches }
+          )
+        );
+      }
+
+      return toPage(
+        position.id,
+        entry.results,
+        entry.start,
+        entry.total,
+        Math.max(entry.start, Math.min(position.offset, entry.total)),
+        ''
+      );
+    });
+
+  return ResultCursors.of({ paginate, resume });
+});
+
+/**
+ * A layer providing the result cursor store shared by all MCP sessions.
+ */
+export const ResultCursorsLive = Layer.effect(ResultCursors, makeResultCursors);
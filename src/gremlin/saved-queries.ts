@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Library of saved, parameterized queries loaded at startup.
+ *
+ * Teams describe vetted traversals in a JSON file; each becomes its own MCP tool
+ * whose arguments are the declared parameters. Arguments are sent as bindings,
+ * never spliced into the script, so callers can only supply values. The file is
+ * validated as a whole and any problem fails startup, as a half-loaded library
+ * would silently hide tools.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { Effect, pipe } from 'effect';
+import { z } from 'zod';
+import { TOOL_NAMES } from '../constants.js';
+import { Errors, type ConfigError } from '../errors.js';
+import {
+  type GremlinBindings,
+  type SavedQuery,
+  SavedQueryFileSchema,
+  type SavedQueryParameter,
+} from './models/index.js';
+
+/**
+ * Tool arguments every saved query tool accepts besides its parameters.
+ */
+export const SAVED_QUERY_ARGUMENTS = ['timeout_ms', 'cursor', 'graph'] as const;
+
+/**
+ * Builds the zod schema validating the value of one parameter.
+ *
+ * @param parameter - Declared parameter
+ * @returns Schema for the argument, optional when the parameter has a default or is not required
+ */
+export const toParameterSchema = (parameter: SavedQueryParameter): z.ZodTypeAny => {
+  const base: z.ZodTypeAny =
+    parameter.type === 'string'
+      ? parameter.enum
+        ? z.enum(parameter.enum)
+        : z.string()
+      : parameter.type === 'integer'
+        ? z.number().int()
+        : parameter.type === 'number'
+          ? z.number()
+          : z.boolean();
+  const described = parameter.description ? base.describe(parameter.description) : base;
+
+  if (parameter.default !== undefined) {
+    return described.default(parameter.default);
+  }
+  return parameter.required === false ? described.optional() : described;
+};
+
+/**
+ * Builds the zod shape of a saved query's parameters.
+ *
+ * @param savedQuery - Saved query definition
+ * @returns Shape with one entry per declared parameter
+ */
+export const toParameterShape = (savedQuery: SavedQuery): z.ZodRawShape =>
+  Object.fromEntries(
+    Object.entries(savedQuery.parameters).map(([name, parameter]) => [
+      name,
+      toParameterSchema(parameter),
+    ])
+  );
+
+/**
+ * Turns validated arguments into bindings. Omitted optional parameters are bound
+ * to null, so the script can always refer to every declared parameter.
+ *
+ * @param savedQuery - Saved query definition
+ * @param args - Arguments parsed with the parameter shape
+ * @returns Bindings for every declared parameter
+ */
+export const toBindings = (
+  savedQuery: SavedQuery,
+  args: Record<string, unknown>
+): GremlinBindings =>
+  Object.fromEntries(Object.keys(savedQuery.parameters).map(name => [name, args[name] ?? null]));
+
+/**
+ * Lists the problems of a parsed library that its schema cannot express.
+ */
+const findLibraryProblems = (
+  queries: readonly SavedQuery[],
+  graphNames: readonly string[]
+): string[] => {
+  const builtInTools: readonly string[] = Object.values(TOOL_NAMES);
+  const seen = new Set<string>();
+
+  return queries.flatMap(savedQuery => {
+    const problems: string[] = [];
+    const at = `queries.${savedQuery.name}`;
+
+    if (builtInTools.includes(savedQuery.name)) {
+      problems.push(`${at}: name is already used by a built-in tool`);
+    }
+    if (seen.has(savedQuery.name)) {
+      problems.push(`${at}: name is used more than once`);
+    }
+    seen.add(savedQuery.name);
+
+    if (savedQuery.graph !== undefined && !graphNames.includes(savedQuery.graph)) {
+      problems.push(`${at}: graph '${savedQuery.graph}' is not configured`);
+    }
+
+    for (const [name, parameter] of Object.entries(savedQuery.parameters)) {
+      if ((SAVED_QUERY_ARGUMENTS as readonly string[]).includes(name)) {
+        problems.push(`${at}.parameters.${name}: name is reserved for a tool argument`);
+      }
+      if (parameter.default !== undefined) {
+        const checked = toParameterSchema({ ...parameter, default: undefined }).safeParse(
+          parameter.default
+        );
+        if (!checked.success) {
+          problems.push(`${at}.parameters.${name}: default does not match type ${parameter.type}`);
+        }
+      }
+    }
+
+    return problems;
+  });
+};
+
+/**
+ * Loads and validates the saved queries file.
+ *
+ * @param file - Path of the JSON file
+ * @param graphNames - Configured graph names, which saved queries may pin
+ * @returns Effect with the saved queries, or a configuration error describing every problem
+ */
+export const loadSavedQueries = (
+  file: string,
+  graphNames: readonly string[]
+): Effect.Effect<SavedQuery[], ConfigError> =>
+  pipe(
+    Effect.tryPromise({
+      try: () => readFile(file, 'utf8'),
+      catch: error => Errors.config(`Failed to read saved queries file ${file}`, { file, error }),
+    }),
+    Effect.flatMap(text =>
+      Effect.try({
+        try: () => JSON.parse(text) as unknown,
+        catch: error => Errors.config(`Saved queries file ${file} is not valid JSON`, { error }),
+      })
+    ),
+    Effect.flatMap(content => {
+      const parsed = SavedQueryFileSchema.safeParse(content);
+      const problems = parsed.success
+        ? findLibraryProblems(parsed.data.queries, graphNames)
+        : parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+
+      return parsed.success && problems.length === 0
+        ? Effect.succeed(parsed.data.queries)
+        : Effect.fail(
+            Errors.config(`Invalid saved queries file ${file}: ${problems.join('; ')}`, {
+              file,
+              problems,
+            })
+          );
+    })
+  );
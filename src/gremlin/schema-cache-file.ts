@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Persistent on-disk copy of the schema cache.
+ *
+ * Schema discovery can take minutes on large graphs. When a cache directory is
+ * configured, every generated schema is written to it, and a restarted server
+ * loads the file instead of discovering the schema again, provided it is not
+ * older than the configured maximum age. Files are keyed by endpoint, traversal
+ * source and schema generation settings, so another graph or a changed setting
+ * never picks up a mismatching schema. File errors are logged and never fail
+ * schema access.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Effect, Option, pipe } from 'effect';
+import { z } from 'zod';
+import { GraphSchemaSchema } from './models/index.js';
+import type { SchemaCacheEntry, SchemaConfig } from './types.js';
+
+/**
+ * What a persisted schema was generated from.
+ */
+export interface SchemaCacheKey {
+  /** Gremlin server endpoint (host:port) */
+  readonly endpoint: string;
+  readonly traversalSource: string;
+  /** Settings the schema was generated with */
+  readonly config: SchemaConfig;
+}
+
+/**
+ * Contents of a schema cache file.
+ */
+const SchemaCacheFileSchema = z.object({
+  /** Hash of the `SchemaCacheKey` */
+  key: z.string(),
+  /** When the schema was generated, in milliseconds since the epoch */
+  generated_at: z.number(),
+  schema: GraphSchemaSchema,
+});
+
+/**
+ * Hashes a cache key, so equal keys always name the same file.
+ */
+const hashKey = (key: SchemaCacheKey): string =>
+  createHash('sha256')
+    .update(JSON.stringify([key.endpoint, key.traversalSource, key.config]))
+    .digest('hex');
+
+/**
+ * Returns the path of the cache file for a key.
+ *
+ * @param directory - Schema cache directory
+ * @param key - What the schema is generated from
+ * @returns Path of the JSON file within the directory
+ */
+export const schemaCacheFilePath = (directory: string, key: SchemaCacheKey): string =>
+  join(directory, `schema-${hashKey(key).slice(0, 16)}.json`);
+
+/**
+ * Loads a persisted schema.
+ *
+ * @param directory - Schema cache directory
+ * @param key - What the schema must have been generated from
+ * @param maxAgeMs - Oldest schema, by generation time, that is accepted
+ * @returns Effect with the persisted schema and its generation time, or none when
+ *   there is no matching, readable and recent enough file
+ */
+export const loadSchemaCacheFile = (
+  directory: string,
+  key: SchemaCacheKey,
+  maxAgeMs: number
+): Effect.Effect<Option.Option<SchemaCacheEntry>> => {
+  const file = schemaCacheFilePath(directory, key);
+
+  return pipe(
+    Effect.tryPromise(() => readFile(file, 'utf8')),
+    Effect.flatMap(text => Effect.try(() => SchemaCacheFileSchema.parse(JSON.parse(text)))),
+    Effect.flatMap(content => {
+      const ageMs = Date.now() - content.generated_at;
+      if (content.key !== hashKey(key)) {
+        return pipe(
+          Effect.logWarning(`Ignoring schema cache file ${file} generated for another graph`),
+          Effect.as(Option.none<SchemaCacheEntry>())
+        );
+      }
+      if (ageMs > maxAgeMs) {
+        return pipe(
+          Effect.logInfo(`Ignoring schema cache file ${file} older than ${maxAgeMs}ms`),
+          Effect.as(Option.none<SchemaCacheEntry>())
+        );
+      }
+      return pipe(
+        Effect.logInfo(`Loaded schema from cache file ${file}`, { age_ms: ageMs }),
+        Effect.as(Option.some({ schema: content.schema, timestamp: content.generated_at }))
+      );
+    }),
+    Effect.catchAll(error =>
+      pipe(
+        error.error instanceof Error && 'code' in error.error && error.error.code === 'ENOENT'
+          ? Effect.void
+          : Effect.logWarning(`Ignoring unreadable schema cache file ${file}`, {
+              error: String(error.error),
+            }),
+        Effect.as(Option.none<SchemaCacheEntry>())
+      )
+    )
+  );
+};
+
+/**
+ * Persists a generated schema.
+ *
+ * The schema is written to a temporary file that then replaces the cache file,
+ * so a crash mid-write or a concurrent reader never sees a partial file.
+ *
+ * @param directory - Schema cache directory, created when missing
+ * @param key - What the schema was generated from
+ * @param entry - Generated schema and its generation time
+ * @returns Effect completing once the file is written or the failure is logged
+ */
+export const writeSchemaCacheFile = (
+  directory: string,
+  key: SchemaCacheKey,
+  entry: SchemaCacheEntry
+): Effect.Effect<void> => {
+  const file = schemaCacheFilePath(directory, key);
+  const temporaryFile = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+  const content: z.infer<typeof SchemaCacheFileSchema> = {
+    key: hashKey(key),
+    generated_at: entry.timestamp,
+    schema: entry.schema,
+  };
+
+  return pipe(
+    Effect.tryPromise(async () => {
+      await mkdir(directory, { recursive: true });
+      try {
+        await writeFile(temporaryFile, JSON.stringify(content));
+        await rename(temporaryFile, file);
+      } catch (error) {
+        await rm(temporaryFile, { force: true });
+        throw error;
+      }
+    }),
+    Effect.catchAll(error =>
+      Effect.logWarning(`Failed to write schema cache file ${file}`, {
+        error: String(error.error),
+      })
+    )
+  );
+};
@@ -3,117 +3,269 @@
  *
  * This module provides a set of functions for creating and managing a schema cache.
  * It uses `Effect.Ref` for concurrent state management and `Effect.Duration` for
- * time-to-live (TTL) based cache validation. The cache can be manually invalidated
- * or automatically refreshed.
+ * time-to-live (TTL) based cache validation. Concurrent callers share a single
+ * in-flight generation, and expired schemas can optionally be served while they
+ * are regenerated in the background. The cache can be manually invalidated or
+ * automatically refreshed, and successive schemas can be compared to detect changes.
  */
 
-import { Effect, Ref, Option, Duration } from 'effect';
+import { Cause, Deferred, Duration, Effect, Option, Ref, SynchronizedRef, pipe } from 'effect';
 import type { GraphSchema } from './models/index.js';
 import type { SchemaCacheEntry } from './types.js';
-import type { GremlinConnectionError, GremlinQueryError } from '../errors.js';
 
-const SCHEMA_CACHE_TTL = Duration.minutes(5);
+/**
+ * How long cached schemas stay fresh and what happens once they expire.
+ */
+export interface SchemaCacheOptions {
+  /** Time after generation during which a cached schema is served as is */
+  readonly ttl: Duration.DurationInput;
+  /** Serve expired schemas immediately while regenerating them in the background */
+  readonly staleWhileRevalidate: boolean;
+}
 
 /**
- * Creates a new schema cache as a `Ref`.
+ * A schema cache: the cached entry and the generation in progress, if any.
+ */
+export interface SchemaCache<E> {
+  readonly options: SchemaCacheOptions;
+  readonly entry: Ref.Ref<Option.Option<SchemaCacheEntry>>;
+  /** Outcome of the generation in progress, awaited by every caller that needs it */
+  readonly inFlight: SynchronizedRef.SynchronizedRef<
+    Option.Option<Deferred.Deferred<GraphSchema, E>>
+  >;
+}
+
+/**
+ * Creates a new, empty schema cache.
  *
- * The cache is initialized as `Option.none()`, indicating that it is empty.
+ * The cache starts empty unless an initial entry (e.g. a persisted schema) is given.
  *
- * @returns An `Effect` that resolves to a `Ref` containing an `Option<SchemaCacheEntry>`.
+ * @param options TTL and expiry behaviour of the cache.
+ * @param initial An optional entry to start the cache with.
+ * @returns An `Effect` that resolves to the `SchemaCache`.
  */
-export const createSchemaCache = () => Ref.make<Option.Option<SchemaCacheEntry>>(Option.none());
+export const createSchemaCache = <E>(
+  options: SchemaCacheOptions,
+  initial: Option.Option<SchemaCacheEntry> = Option.none()
+): Effect.Effect<SchemaCache<E>> =>
+  Effect.all({
+    options: Effect.succeed(options),
+    entry: Ref.make(initial),
+    inFlight: SynchronizedRef.make(Option.none<Deferred.Deferred<GraphSchema, E>>()),
+  });
 
 /**
  * Internal helper to check if cache entry is valid (not exported)
  */
-const isCacheValid = (cacheEntry: SchemaCacheEntry): boolean => {
+const isCacheValid = (cacheEntry: SchemaCacheEntry, options: SchemaCacheOptions): boolean => {
   const now = Date.now();
-  const ttlMs = Duration.toMillis(SCHEMA_CACHE_TTL);
+  const ttlMs = Duration.toMillis(options.ttl);
   return now - cacheEntry.timestamp < ttlMs;
 };
 
+/**
+ * Generates a schema and caches it, deduplicating concurrent generations.
+ *
+ * When a generation is already in progress, its outcome is awaited instead of
+ * starting another one. Generations run in their own fiber, so one caller
+ * giving up does not abort a generation other callers are waiting for.
+ *
+ * @param cache The schema cache.
+ * @param generateSchema An `Effect` that generates a new `GraphSchema`.
+ * @returns An `Effect` that resolves to the generated `GraphSchema`.
+ */
+const generateSchemaOnce = <E>(
+  cache: SchemaCache<E>,
+  generateSchema: Effect.Effect<GraphSchema, E>
+): Effect.Effect<GraphSchema, E> =>
+  Effect.flatten(
+    SynchronizedRef.modifyEffect(cache.inFlight, inFlight =>
+      Option.match(inFlight, {
+        onSome: deferred => Effect.succeed([Deferred.await(deferred), inFlight] as const),
+        onNone: () =>
+          Effect.gen(function* () {
+            const deferred = yield* Deferred.make<GraphSchema, E>();
+
+            yield* Effect.logInfo('Generating fresh schema');
+            yield* Effect.forkDaemon(
+              pipe(
+                generateSchema,
+                Effect.tap(schema =>
+                  Ref.set(cache.entry, Option.some({ schema, timestamp: Date.now() }))
+                ),
+                Effect.exit,
+                Effect.flatMap(exit =>
+                  Effect.zipRight(
+                    SynchronizedRef.set(cache.inFlight, Option.none()),
+                    Deferred.done(deferred, exit)
+                  )
+                )
+              )
+            );
+
+            return [Deferred.await(deferred), Option.some(deferred)] as const;
+          }),
+      })
+    )
+  );
+
 /**
  * Retrieves the schema from the cache.
  *
  * If the cache contains a valid entry, it is returned. Otherwise, a new schema
  * is generated using the provided `generateSchema` effect, and the cache is updated.
+ * With stale-while-revalidate enabled, an expired entry is returned right away
+ * and the schema is regenerated in the background instead.
  *
- * @param cacheRef A `Ref` to the schema cache.
+ * @param cache The schema cache.
  * @param generateSchema An `Effect` that generates a new `GraphSchema`.
  * @returns An `Effect` that resolves to the `GraphSchema` or fails with an error.
  */
-export const getCachedSchema = (
-  cacheRef: Ref.Ref<Option.Option<SchemaCacheEntry>>,
-  generateSchema: Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>
-) =>
+export const getCachedSchema = <E>(
+  cache: SchemaCache<E>,
+  generateSchema: Effect.Effect<GraphSchema, E>
+): Effect.Effect<GraphSchema, E> =>
   Effect.gen(function* () {
-    const cacheEntry = yield* Ref.get(cacheRef);
+    const cacheEntry = yield* Ref.get(cache.entry);
 
-    // Check if we have a valid cached schema
-    const validCachedSchema = Option.flatMap(cacheEntry, entry =>
-      isCacheValid(entry) ? Option.some(entry.schema) : Option.none()
-    );
+    if (Option.isNone(cacheEntry)) {
+      return yield* generateSchemaOnce(cache, generateSchema);
+    }
 
-    if (Option.isSome(validCachedSchema)) {
+    // Check if we have a valid cached schema
+    if (isCacheValid(cacheEntry.value, cache.options)) {
       yield* Effect.logDebug('Using cached schema');
-      return Option.getOrThrow(validCachedSchema);
+      return cacheEntry.value.schema;
     }
 
-    // Generate fresh schema and cache it
-    yield* Effect.logInfo('Generating fresh schema');
-    const schema = yield* generateSchema;
+    if (!cache.options.staleWhileRevalidate) {
+      return yield* generateSchemaOnce(cache, generateSchema);
+    }
 
-    yield* Ref.set(
-      cacheRef,
-      Option.some({
-        schema,
-        timestamp: Date.now(),
-      })
+    yield* Effect.logDebug('Using expired cached schema while it is regenerated');
+    yield* Effect.forkDaemon(
+      Effect.catchAllCause(generateSchemaOnce(cache, generateSchema), cause =>
+        Effect.logWarning('Background schema regeneration failed', {
+          error: Cause.pretty(cause),
+        })
+      )
     );
-
-    return schema;
+    return cacheEntry.value.schema;
   });
 
 /**
  * Retrieves the cached schema without generating a new one if it's missing or invalid.
  *
- * @param cacheRef A `Ref` to the schema cache.
+ * @param cache The schema cache.
  * @returns An `Effect` that resolves to the `GraphSchema` or `null` if the cache is empty.
  */
-export const peekCachedSchema = (cacheRef: Ref.Ref<Option.Option<SchemaCacheEntry>>) =>
+export const peekCachedSchema = <E>(cache: SchemaCache<E>) =>
   Effect.gen(function* () {
-    const cacheEntry = yield* Ref.get(cacheRef);
+    const cacheEntry = yield* Ref.get(cache.entry);
     return Option.match(cacheEntry, {
       onNone: () => null,
       onSome: entry => entry.schema,
     });
   });
 
+/**
+ * Retrieves the cached schema only while it is fresh, without generating a new one.
+ *
+ * @param cache The schema cache.
+ * @returns An `Effect` that resolves to the `GraphSchema` or `null` if the cache is empty or expired.
+ */
+export const peekFreshCachedSchema = <E>(cache: SchemaCache<E>) =>
+  Effect.gen(function* () {
+    const cacheEntry = yield* Ref.get(cache.entry);
+    return Option.match(cacheEntry, {
+      onNone: () => null,
+      onSome: entry => (isCacheValid(entry, cache.options) ? entry.schema : null),
+    });
+  });
+
+/**
+ * Updates the cached schema in place, e.g. to merge in a partial schema.
+ *
+ * The entry keeps its generation time, so the update does not extend its TTL.
+ *
+ * @param cache The schema cache.
+ * @param update Derives the new schema from the cached one.
+ * @returns An `Effect` that resolves to the updated `GraphSchema` or `null` if the cache is empty.
+ */
+export const updateCachedSchema = <E>(
+  cache: SchemaCache<E>,
+  update: (schema: GraphSchema) => GraphSchema
+) =>
+  Ref.modify(cache.entry, cacheEntry =>
+    Option.match(cacheEntry, {
+      onNone: () => [null, cacheEntry] as const,
+      onSome: entry => {
+        const schema = update(entry.schema);
+        return [schema, Option.some({ ...entry, schema })] as const;
+      },
+    })
+  );
+
 /**
  * Invalidates the schema cache by setting it to `Option.none()`.
  *
- * @param cacheRef A `Ref` to the schema cache.
+ * @param cache The schema cache.
  * @returns An `Effect` that completes when the cache is invalidated.
  */
-export const invalidateSchemaCache = (cacheRef: Ref.Ref<Option.Option<SchemaCacheEntry>>) =>
+export const invalidateSchemaCache = <E>(cache: SchemaCache<E>) =>
   Effect.gen(function* () {
     yield* Effect.logInfo('Invalidating schema cache');
-    yield* Ref.set(cacheRef, Option.none());
+    yield* Ref.set(cache.entry, Option.none());
   });
 
+/**
+ * Waits for the generation in progress, if any, to finish, whatever its outcome.
+ *
+ * @param cache The schema cache.
+ * @returns An `Effect` that completes once no generation started before it is running.
+ */
+export const awaitSchemaGeneration = <E>(cache: SchemaCache<E>) =>
+  Effect.flatMap(
+    SynchronizedRef.get(cache.inFlight),
+    Option.match({
+      onNone: () => Effect.void,
+      onSome: deferred => Effect.ignore(Deferred.await(deferred)),
+    })
+  );
+
 /**
  * Refreshes the schema cache by invalidating it and then regenerating the schema.
  *
- * @param cacheRef A `Ref` to the schema cache.
+ * A generation already in progress may have read the graph before the change
+ * that prompted the refresh, so it is waited out and a new one is started.
+ * Refreshes requested meanwhile share that new generation.
+ *
+ * @param cache The schema cache.
  * @param generateSchema An `Effect` that generates a new `GraphSchema`.
- * @returns An `Effect` that completes when the cache is refreshed.
+ * @returns An `Effect` that resolves to the regenerated `GraphSchema`.
  */
-export const refreshSchemaCache = (
-  cacheRef: Ref.Ref<Option.Option<SchemaCacheEntry>>,
-  generateSchema: Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>
+export const refreshSchemaCache = <E>(
+  cache: SchemaCache<E>,
+  generateSchema: Effect.Effect<GraphSchema, E>
 ) =>
   Effect.gen(function* () {
     yield* Effect.logInfo('Refreshing schema cache');
-    yield* invalidateSchemaCache(cacheRef);
-    yield* getCachedSchema(cacheRef, generateSchema);
+    yield* awaitSchemaGeneration(cache);
+    yield* invalidateSchemaCache(cache);
+    return yield* generateSchemaOnce(cache, generateSchema);
   });
+
+/**
+ * Checks whether two generated schemas describe the graph differently.
+ *
+ * Generation metadata (timestamps, timings, sizes) is ignored, so regenerating an
+ * unchanged graph does not count as a change.
+ *
+ * @param previous - Previously generated schema
+ * @param next - Newly generated schema
+ * @returns True when labels, properties, counts or relationship patterns differ
+ */
+export const hasSchemaChanged = (previous: GraphSchema, next: GraphSchema): boolean => {
+  const describe = ({ metadata: _metadata, ...schema }: GraphSchema) => JSON.stringify(schema);
+  return describe(previous) !== describe(next);
+};
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Differences between two snapshots of a graph schema.
+ *
+ * Comparing the schema before and after a deployment shows data model drift:
+ * labels, properties and relationship patterns that appeared or disappeared,
+ * properties whose types or enum values changed, and element counts that moved
+ * by more than a given share.
+ */
+
+import type { GraphSchema, Property, RelationshipPattern } from './models/index.js';
+
+/**
+ * Whether a label belongs to vertices or edges.
+ */
+export type ElementKind = 'vertex' | 'edge';
+
+/**
+ * A vertex or edge label.
+ */
+export interface LabelRef {
+  readonly kind: ElementKind;
+  readonly label: string;
+}
+
+/**
+ * A property of a vertex or edge label.
+ */
+export interface PropertyRef extends LabelRef {
+  readonly property: string;
+}
+
+/**
+ * Differences between two schema snapshots.
+ */
+export interface SchemaDiff {
+  readonly has_changes: boolean;
+  readonly previous_generated_at?: string;
+  readonly current_generated_at?: string;
+  readonly added_labels: LabelRef[];
+  readonly removed_labels: LabelRef[];
+  /** Properties added to labels present in both snapshots */
+  readonly added_properties: Array<PropertyRef & { readonly type: string[] }>;
+  /** Properties removed from labels present in both snapshots */
+  readonly removed_properties: Array<PropertyRef & { readonly type: string[] }>;
+  readonly type_changes: Array<PropertyRef & { readonly from: string[]; readonly to: string[] }>;
+  /** Enum values gained or lost by properties that are enums in both snapshots */
+  readonly enum_changes: Array<
+    PropertyRef & { readonly added: unknown[]; readonly removed: unknown[] }
+  >;
+  readonly added_patterns: RelationshipPattern[];
+  readonly removed_patterns: RelationshipPattern[];
+  /** Counts that changed by at least the threshold share, for labels counted in both snapshots */
+  readonly count_changes: Array<
+    LabelRef & {
+      readonly from: number;
+      readonly to: number;
+      /** Change relative to the previous count; null when the previous count was zero */
+      readonly change_ratio: number | null;
+    }
+  >;
+}
+
+/**
+ * Options for comparing schemas.
+ */
+export interface SchemaDiffOptions {
+  /** Smallest relative count change reported, e.g. 0.1 for 10% */
+  readonly countChangeThreshold: number;
+}
+
+/**
+ * A label with its properties and count, whether vertex or edge.
+ */
+interface LabelElement extends LabelRef {
+  readonly properties: readonly Property[];
+  readonly count?: number;
+}
+
+const labelElements = (schema: GraphSchema): Map<string, LabelElement> =>
+  new Map(
+    [
+      ...schema.nodes.map(node => ({
+        kind: 'vertex' as const,
+        label: node.labels,
+        properties: node.properties,
+        count: node.count,
+      })),
+      ...schema.relationships.map(relationship => ({
+        kind: 'edge' as const,
+        label: relationship.type,
+        properties: relationship.properties,
+        count: relationship.count,
+      })),
+    ].map(element => [`${element.kind}:${element.label}`, element])
+  );
+
+const patternKey = (pattern: RelationshipPattern): string =>
+  JSON.stringify([pattern.left_node, pattern.relation, pattern.right_node]);
+
+const sameTypes = (previous: readonly string[], current: readonly string[]): boolean =>
+  JSON.stringify([...previous].sort()) === JSON.stringify([...current].sort());
+
+/**
+ * Lists the values of `values` missing from `others`, comparing by JSON value.
+ */
+const missingFrom = (values: readonly unknown[], others: readonly unknown[]): unknown[] => {
+  const keys = new Set(others.map(value => JSON.stringify(value)));
+  return values.filter(value => !keys.has(JSON.stringify(value)));
+};
+
+/**
+ * Compares two snapshots of a graph schema.
+ *
+ * @param previous - Earlier snapshot
+ * @param current - Later snapshot
+ * @param options - Threshold for reporting count changes
+ * @returns Everything that was added, removed or changed between the snapshots
+ */
+export const diffGraphSchemas = (
+  previous: GraphSchema,
+  current: GraphSchema,
+  options: SchemaDiffOptions
+): SchemaDiff => {
+  const previousElements = labelElements(previous);
+  const currentElements = labelElements(current);
+  const toLabelRef = ({ kind, label }: LabelElement): LabelRef => ({ kind, label });
+
+  const added_labels = [...currentElements]
+    .filter(([key]) => !previousElements.has(key))
+    .map(([, element]) => toLabelRef(element));
+  const removed_labels = [...previousElements]
+    .filter(([key]) => !currentElements.has(key))
+    .map(([, element]) => toLabelRef(element));
+
+  const added_properties: SchemaDiff['added_properties'] = [];
+  const removed_properties: SchemaDiff['removed_properties'] = [];
+  const type_changes: SchemaDiff['type_changes'] = [];
+  const enum_changes: SchemaDiff['enum_changes'] = [];
+  const count_changes: SchemaDiff['count_changes'] = [];
+
+  for (const [key, before] of previousElements) {
+    const after = currentElements.get(key);
+    if (!after) {
+      continue;
+    }
+    const label = toLabelRef(after);
+    const beforeProperties = new Map(before.properties.map(property => [property.name, property]));
+    const afterProperties = new Map(after.properties.map(property => [property.name, property]));
+
+    for (const [name, property] of afterProperties) {
+      const old = beforeProperties.get(name);
+      if (!old) {
+        added_properties.push({ ...label, property: name, type: property.type });
+        continue;
+      }
+      if (!sameTypes(old.type, property.type)) {
+        type_changes.push({ ...label, property: name, from: old.type, to: property.type });
+      }
+      if (old.enum && property.enum) {
+        const added = missingFrom(property.enum, old.enum);
+        const removed = missingFrom(old.enum, property.enum);
+        if (added.length > 0 || removed.length > 0) {
+          enum_changes.push({ ...label, property: name, added, removed });
+        }
+      }
+    }
+    for (const [name, property] of beforeProperties) {
+      if (!afterProperties.has(name)) {
+        removed_properties.push({ ...label, property: name, type: property.type });
+      }
+    }
+
+    if (before.count !== undefined && after.count !== undefined && before.count !== after.count) {
+      const change = Math.abs(after.count - before.count) / Math.max(before.count, 1);
+      if (change >= options.countChangeThreshold) {
+        count_changes.push({
+          ...label,
+          from: before.count,
+          to: after.count,
+          change_ratio:
+            before.count === 0
+              ? null
+              : Math.round(((after.count - before.count) / before.count) * 1000) / 1000,
+        });
+      }
+    }
+  }
+
+  const previousPatterns = new Set(previous.relationship_patterns.map(patternKey));
+  const currentPatterns = new Set(current.relationship_patterns.map(patternKey));
+  const added_patterns = current.relationship_patterns.filter(
+    pattern => !previousPatterns.has(patternKey(pattern))
+  );
+  const removed_patterns = previous.relationship_patterns.filter(
+    pattern => !currentPatterns.has(patternKey(pattern))
+  );
+
+  const changes = [
+    added_labels,
+    removed_labels,
+    added_properties,
+    removed_properties,
+    type_changes,
+    enum_changes,
+    added_patterns,
+    removed_patterns,
+    count_changes,
+  ];
+
+  return {
+    has_changes: changes.some(list => list.length > 0),
+    ...(previous.metadata ? { previous_generated_at: previous.metadata.generated_at } : {}),
+    ...(current.metadata ? { current_generated_at: current.metadata.generated_at } : {}),
+    added_labels,
+    removed_labels,
+    added_properties,
+    removed_properties,
+    type_changes,
+    enum_changes,
+    added_patterns,
+    removed_patterns,
+    count_changes,
+  };
+};
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Label filters for partial schema discovery.
+ *
+ * A filter names vertex and edge labels, exactly or with glob patterns, so only
+ * those labels are analyzed. The resulting partial schema is merged into the
+ * cached one, replacing everything the filter covers: the matching labels and
+ * the relationship patterns that involve them.
+ */
+
+import type { GraphSchema, RelationshipPattern } from './models/index.js';
+
+/**
+ * Vertex and edge labels to analyze, as exact labels or glob patterns.
+ *
+ * `*` matches any run of characters and `?` any single character. When only one
+ * kind is given, no labels of the other kind are selected.
+ */
+export interface SchemaLabelFilter {
+  readonly vertexLabels?: readonly string[] | undefined;
+  readonly edgeLabels?: readonly string[] | undefined;
+}
+
+/**
+ * Labels of the graph selected by a filter.
+ */
+export interface LabelSelection {
+  readonly vertexLabels: readonly string[];
+  readonly edgeLabels: readonly string[];
+}
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split('')
+      .map(char =>
+        char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('')}$`,
+    's'
+  );
+
+/**
+ * Checks whether a label matches any of the given labels or glob patterns.
+ *
+ * @param patterns - Exact labels or glob patterns; labels are case-sensitive
+ * @param label - Label to check
+ * @returns True when any pattern matches; false when there are no patterns
+ */
+export const matchesLabel = (patterns: readonly string[] | undefined, label: string): boolean =>
+  (patterns ?? []).some(pattern => globToRegExp(pattern).test(label));
+
+/**
+ * Resolves a filter against the labels present in the graph.
+ *
+ * @param filter - Labels or glob patterns to select
+ * @param labels - Vertex and edge labels of the graph
+ * @returns The graph's labels matching the filter
+ */
+export const selectLabels = (
+  filter: SchemaLabelFilter,
+  labels: LabelSelection
+): LabelSelection => ({
+  vertexLabels: labels.vertexLabels.filter(label => matchesLabel(filter.vertexLabels, label)),
+  edgeLabels: labels.edgeLabels.filter(label => matchesLabel(filter.edgeLabels, label)),
+});
+
+/**
+ * Checks whether a relationship pattern involves a label covered by the filter.
+ */
+const coversPattern = (filter: SchemaLabelFilter, pattern: RelationshipPattern): boolean =>
+  matchesLabel(filter.edgeLabels, pattern.relation) ||
+  matchesLabel(filter.vertexLabels, pattern.left_node) ||
+  matchesLabel(filter.vertexLabels, pattern.right_node);
+
+const patternKey = (pattern: RelationshipPattern): string =>
+  JSON.stringify([pattern.left_node, pattern.relation, pattern.right_node]);
+
+/**
+ * Brings the element counts in the metadata in line with the schema's contents.
+ */
+const withMetadataCounts = (schema: GraphSchema): GraphSchema =>
+  schema.metadata
+    ? {
+        ...schema,
+        metadata: {
+          ...schema.metadata,
+          node_count: schema.nodes.length,
+          relationship_count: schema.relationships.length,
+          pattern_count: schema.relationship_patterns.length,
+        },
+      }
+    : schema;
+
+/**
+ * Restricts a schema to the labels covered by a filter.
+ *
+ * @param schema - Graph schema
+ * @param filter - Labels or glob patterns to keep
+ * @returns The matching vertex and edge labels, and the relationship patterns
+ *   involving any of them
+ */
+export const filterGraphSchema = (schema: GraphSchema, filter: SchemaLabelFilter): GraphSchema =>
+  withMetadataCounts({
+    ...schema,
+    nodes: schema.nodes.filter(node => matchesLabel(filter.vertexLabels, node.labels)),
+    relationships: schema.relationships.filter(relationship =>
+      matchesLabel(filter.edgeLabels, relationship.type)
+    ),
+    relationship_patterns: schema.relationship_patterns.filter(pattern =>
+      coversPattern(filter, pattern)
+    ),
+  });
+
+/**
+ * Merges a partial schema, generated for the labels covered by a filter, into a
+ * complete one.
+ *
+ * Everything the filter covers is taken from the partial schema, so covered
+ * labels and patterns missing from it are removed; everything else is kept.
+ * Replaced labels keep their position, and new ones are appended.
+ *
+ * @param schema - Complete schema, e.g. the cached one
+ * @param partial - Schema generated for the filtered labels only
+ * @param filter - Labels or glob patterns the partial schema was generated for
+ * @returns The merged schema, with the complete schema's generation metadata
+ */
+export const mergeGraphSchemas = (
+  schema: GraphSchema,
+  partial: GraphSchema,
+  filter: SchemaLabelFilter
+): GraphSchema => {
+  const nodes = new Map(partial.nodes.map(node => [node.labels, node]));
+  const relationships = new Map(
+    partial.relationships.map(relationship => [relationship.type, relationship])
+  );
+  const patterns = new Map(partial.relationship_patterns.map(p => [patternKey(p), p]));
+
+  const mergedNodes = schema.nodes.flatMap(node => {
+    if (!matchesLabel(filter.vertexLabels, node.labels)) {
+      return [node];
+    }
+    const replacement = nodes.get(node.labels);
+    nodes.delete(node.labels);
+    return replacement ? [replacement] : [];
+  });
+  const mergedRelationships = schema.relationships.flatMap(relationship => {
+    if (!matchesLabel(filter.edgeLabels, relationship.type)) {
+      return [relationship];
+    }
+    const replacement = relationships.get(relationship.type);
+    relationships.delete(relationship.type);
+    return replacement ? [replacement] : [];
+  });
+  const mergedPatterns = schema.relationship_patterns.flatMap(pattern => {
+    if (!coversPattern(filter, pattern)) {
+      return [pattern];
+    }
+    const replacement = patterns.get(patternKey(pattern));
+    patterns.delete(patternKey(pattern));
+    return replacement ? [replacement] : [];
+  });
+
+  return withMetadataCounts({
+    ...schema,
+    nodes: [...mergedNodes, ...nodes.values()],
+    relationships: [...mergedRelationships, ...relationships.values()],
+    relationship_patterns: [...mergedPatterns, ...patterns.values()],
+  });
+};
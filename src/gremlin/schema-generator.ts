@@ -21,6 +21,7 @@ import {
 import { analyzeElementProperties, withElementCounts } from './property-analyzer.js';
 import { generateRelationshipPatterns } from './relationship-patterns.js';
 import { assembleGraphSchema } from './schema-assembly.js';
+import { type LabelSelection, type SchemaLabelFilter, selectLabels } from './schema-filter.js';
 import type { process } from 'gremlin';
 
 type GraphTraversalSource = process.GraphTraversalSource;
@@ -47,32 +48,45 @@ export const DEFAULT_SCHEMA_CONFIG: SchemaConfig = {
  * @param g - Gremlin traversal source
  * @param config - Schema configuration
  * @param startTime - Generation start timestamp for metrics
- * @returns Effect with complete schema
+ * @param filter - Labels to analyze; all labels when omitted
+ * @returns Effect with complete schema, or the schema of the filtered labels
  */
 const executeSchemaGeneration = (
   g: GraphTraversalSource,
   config: SchemaConfig,
-  startTime: number
+  startTime: number,
+  filter?: SchemaLabelFilter
 ): Effect.Effect<GraphSchema, GremlinQueryError> =>
   Effect.gen(function* () {
     // Step 1: Discover graph structure
     yield* Effect.logInfo('Discovering graph structure');
-    const [vertexLabels, edgeLabels] = yield* Effect.all([getVertexLabels(g), getEdgeLabels(g)]);
+    const graphLabels = yield* Effect.all({
+      vertexLabels: getVertexLabels(g),
+      edgeLabels: getEdgeLabels(g),
+    });
 
     yield* Effect.logInfo(
-      `Found ${vertexLabels.length} vertex labels and ${edgeLabels.length} edge labels`
+      `Found ${graphLabels.vertexLabels.length} vertex labels and ${graphLabels.edgeLabels.length} edge labels`
     );
 
+    const selection = filter ? selectLabels(filter, graphLabels) : undefined;
+    const { vertexLabels, edgeLabels } = selection ?? graphLabels;
+    if (selection) {
+      yield* Effect.logInfo(
+        `Analyzing ${vertexLabels.length} vertex labels and ${edgeLabels.length} edge labels matching the label filter`
+      );
+    }
+
     // Step 2: Get counts if enabled
-    const [vertexCounts, edgeCounts] = yield* getElementCounts(g, config);
+    const [vertexCounts, edgeCounts] = yield* getElementCounts(g, config, selection);
 
     // Step 3: Analyze properties and patterns in parallel
     yield* Effect.logInfo('Analyzing properties and relationship patterns');
     const [rawNodes, rawRelationships, patterns] = yield* Effect.all(
       [
-        analyzeElementProperties(g, vertexLabels, getVertexPropertyKeys, config, true),
-        analyzeElementProperties(g, edgeLabels, getEdgePropertyKeys, config, false),
-        generateRelationshipPatterns(g),
+        analyzeElementProperties(g, [...vertexLabels], getVertexPropertyKeys, config, true),
+        analyzeElementProperties(g, [...edgeLabels], getEdgePropertyKeys, config, false),
+        generateRelationshipPatterns(g, undefined, selection),
       ],
       { concurrency: 3 }
     );
@@ -91,15 +105,27 @@ const executeSchemaGeneration = (
   });
 
 /**
- * Gets vertex and edge counts if enabled in configuration.
+ * Gets vertex and edge counts if enabled in configuration, only for the
+ * selected labels when a selection is given.
  */
 const getElementCounts = (
   g: GraphTraversalSource,
-  config: SchemaConfig
+  config: SchemaConfig,
+  selection?: LabelSelection
 ): Effect.Effect<[SchemaCountData, SchemaCountData], GremlinQueryError> => {
   if (!config.includeCounts) {
     return Effect.succeed([null, null]);
   }
+  if (selection) {
+    return Effect.all([
+      selection.vertexLabels.length > 0
+        ? getVertexCounts(g, selection.vertexLabels)
+        : Effect.succeed(null),
+      selection.edgeLabels.length > 0
+        ? getEdgeCounts(g, selection.edgeLabels)
+        : Effect.succeed(null),
+    ]);
+  }
 
   return Effect.all([getVertexCounts(g), getEdgeCounts(g)]);
 };
@@ -151,6 +177,8 @@ const applySchemaTimeout = (
  *
  * @param connectionState - Active Gremlin connection with traversal source
  * @param config - Schema generation configuration options
+ * @param filter - Vertex and edge labels (or glob patterns) to analyze; when given,
+ *   the result only describes the matching labels and their relationship patterns
  * @returns Effect with complete GraphSchema or connection error
  *
  * Orchestrates the complete schema generation pipeline:
@@ -162,7 +190,8 @@ const applySchemaTimeout = (
  */
 export const generateGraphSchema = (
   connectionState: ConnectionState,
-  config: SchemaConfig = DEFAULT_SCHEMA_CONFIG
+  config: SchemaConfig = DEFAULT_SCHEMA_CONFIG,
+  filter?: SchemaLabelFilter
 ): Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError> =>
   Effect.gen(function* () {
     if (!connectionState.g) {
@@ -180,8 +209,9 @@ export const generateGraphSchema = (
         timeoutMs: config.timeoutMs,
         batchSize: config.batchSize,
       },
+      ...(filter && { labelFilter: filter }),
     });
 
-    const schemaGeneration = executeSchemaGeneration(g, config, startTime);
+    const schemaGeneration = executeSchemaGeneration(g, config, startTime, filter);
     return yield* applySchemaTimeout(schemaGeneration, config);
   });
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Compact text rendering of a graph schema.
+ *
+ * Prompts hand the schema to an agent as plain text. Rendering one line per
+ * label and pattern keeps that context a fraction of the size of the JSON
+ * schema while retaining what an agent needs to write traversals: labels,
+ * property names and types, enum values, counts and how labels connect.
+ */
+
+import type { GraphSchema, Property } from './models/index.js';
+
+/**
+ * Renders one property as `name: type`, followed by its enum values if any.
+ */
+const renderProperty = (property: Property): string => {
+  const type = property.type.length > 0 ? property.type.join('|') : 'unknown';
+  const values = property.enum?.map(value => JSON.stringify(value)).join(', ');
+  return values ? `${property.name}: ${type} {${values}}` : `${property.name}: ${type}`;
+};
+
+/**
+ * Renders one vertex or edge label with its count and properties.
+ */
+const renderLabel = (
+  label: string,
+  properties: readonly Property[],
+  count: number | undefined
+): string => {
+  const counted = count !== undefined ? `${label} (${count})` : label;
+  return properties.length > 0
+    ? `- ${counted}: ${properties.map(renderProperty).join('; ')}`
+    : `- ${counted}`;
+};
+
+/**
+ * Renders a graph schema as compact text.
+ *
+ * @param schema - Graph schema
+ * @returns Text listing vertex labels, edge labels and relationship patterns
+ *
+ * @example
+ * ```
+ * Vertex labels:
+ * - person (4): name: string; status: string {"active", "inactive"}
+ * Edge labels:
+ * - knows (2): weight: number
+ * Relationship patterns:
+ * - (person)-[knows]->(person)
+ * ```
+ */
+export const renderSchemaSummary = (schema: GraphSchema): string => {
+  const sections = [
+    'Vertex labels:',
+    ...(schema.nodes.length > 0
+      ? schema.nodes.map(node => renderLabel(node.labels, node.properties, node.count))
+      : ['- (none)']),
+    'Edge labels:',
+    ...(schema.relationships.length > 0
+      ? schema.relationships.map(relationship =>
+          renderLabel(relationship.type, relationship.properties, relationship.count)
+        )
+      : ['- (none)']),
+    'Relationship patterns:',
+    ...(schema.relationship_patterns.length > 0
+      ? schema.relationship_patterns.map(
+          pattern => `- (${pattern.left_node})-[${pattern.relation}]->(${pattern.right_node})`
+        )
+      : ['- (none)']),
+  ];
+
+  return sections.join('\n');
+};
@@ -1,52 +1,173 @@
-import { Effect, Context, Layer } from 'effect';
+import { Duration, Effect, Context, Layer, Option, PubSub, Ref, Stream, pipe } from 'effect';
 import { generateGraphSchema, DEFAULT_SCHEMA_CONFIG } from './schema-generator.js';
 import {
   createSchemaCache,
   getCachedSchema,
+  hasSchemaChanged,
   invalidateSchemaCache,
   peekCachedSchema,
+  peekFreshCachedSchema,
   refreshSchemaCache,
+  updateCachedSchema,
 } from './schema-cache.js';
+import { type SchemaLabelFilter, filterGraphSchema, mergeGraphSchemas } from './schema-filter.js';
+import { listEdgeLabels, listVertexLabels } from './label-schema.js';
+import { getEdgeLabels, getVertexLabels } from './query-utils.js';
 import type { GraphSchema } from './models/index.js';
-import { GremlinClient } from './client.js';
+import { loadSchemaCacheFile, writeSchemaCacheFile } from './schema-cache-file.js';
+import type { SchemaConfig } from './types.js';
+import { GremlinClient, GremlinGraph } from './client.js';
 import { AppConfig } from '../config.js';
 import type { GremlinConnectionError, GremlinQueryError } from '../errors.js';
 
+/**
+ * Vertex and edge labels of a graph.
+ */
+export interface SchemaLabels {
+  readonly vertexLabels: readonly string[];
+  readonly edgeLabels: readonly string[];
+}
+
 // Define the service interface and create a tag
 export class SchemaService extends Context.Tag('SchemaService')<
   SchemaService,
   {
     readonly getSchema: Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>;
     readonly peekSchema: Effect.Effect<GraphSchema | null, never>;
+    /** The schema persisted in the schema cache directory, whatever its age */
+    readonly readPersistedSchema: Effect.Effect<GraphSchema | null, never>;
+    /** Labels from the cached schema, or queried from the graph when nothing is cached */
+    readonly getLabels: Effect.Effect<SchemaLabels, GremlinConnectionError | GremlinQueryError>;
     readonly invalidateSchema: Effect.Effect<void, never>;
     readonly refreshSchema: Effect.Effect<void, GremlinConnectionError | GremlinQueryError>;
+    /** Schema of the labels matching a filter, from the cache while it is fresh */
+    readonly getSchemaForLabels: (
+      filter: SchemaLabelFilter
+    ) => Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>;
+    /** Analyzes the labels matching a filter and merges them into the cached schema */
+    readonly refreshSchemaForLabels: (
+      filter: SchemaLabelFilter
+    ) => Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>;
+    /** Schemas generated after the first one that differ from their predecessor */
+    readonly schemaChanges: Stream.Stream<GraphSchema>;
   }
 >() {}
 
-// Implement the live layer
+// Implement the live layer; one instance (and cache) per configured graph
 export const SchemaServiceLive = Layer.effect(
   SchemaService,
   Effect.gen(function* () {
     const gremlinClient = yield* GremlinClient;
+    const graph = yield* GremlinGraph;
     const config = yield* AppConfig;
-    const cacheRef = yield* createSchemaCache();
 
-    const generateSchemaEffect = generateGraphSchema(gremlinClient, {
+    const schemaConfig: SchemaConfig = {
       ...DEFAULT_SCHEMA_CONFIG,
       includeCounts: config.schema.includeCounts,
       includeSampleValues: config.schema.includeSampleValues,
-    });
+    };
+    const cacheDir = Option.getOrUndefined(config.schema.cacheDir);
+    const cacheKey = {
+      endpoint: `${graph.host}:${graph.port}`,
+      traversalSource: graph.traversalSource,
+      config: schemaConfig,
+    };
+
+    // A persisted schema is served like a freshly generated one until the cache TTL expires
+    const persisted = cacheDir
+      ? yield* loadSchemaCacheFile(cacheDir, cacheKey, config.schema.cacheMaxAgeMs)
+      : Option.none();
+    const cache = yield* createSchemaCache<GremlinConnectionError | GremlinQueryError>(
+      {
+        ttl: Duration.millis(config.schema.cacheTtlMs),
+        staleWhileRevalidate: config.schema.staleWhileRevalidate,
+      },
+      Option.map(persisted, entry => ({ ...entry, timestamp: Date.now() }))
+    );
+    const lastGeneratedRef = yield* Ref.make(Option.map(persisted, entry => entry.schema));
+    const changes = yield* PubSub.unbounded<GraphSchema>();
+
+    /**
+     * Publishes a generated schema when it differs from the previously generated one.
+     */
+    const publishIfChanged = (schema: GraphSchema) =>
+      Effect.gen(function* () {
+        const previous = yield* Ref.getAndSet(lastGeneratedRef, Option.some(schema));
+        if (Option.isSome(previous) && hasSchemaChanged(previous.value, schema)) {
+          yield* Effect.logInfo('Graph schema changed');
+          yield* PubSub.publish(changes, schema);
+        }
+      });
+
+    /**
+     * Writes a generated schema to the cache directory, if one is configured.
+     */
+    const persist = (schema: GraphSchema) =>
+      cacheDir
+        ? writeSchemaCacheFile(cacheDir, cacheKey, { schema, timestamp: Date.now() })
+        : Effect.void;
+
+    const generateSchemaEffect = Effect.flatMap(gremlinClient.getConnection, connectionState =>
+      pipe(
+        generateGraphSchema(connectionState, schemaConfig),
+        Effect.tap(publishIfChanged),
+        Effect.tap(persist)
+      )
+    );
+
+    const getSchema = getCachedSchema(cache, generateSchemaEffect);
+    const peekSchema = peekCachedSchema(cache);
+    const getLabels = Effect.flatMap(
+      peekSchema,
+      (schema): Effect.Effect<SchemaLabels, GremlinConnectionError | GremlinQueryError> =>
+        schema
+          ? Effect.succeed({
+              vertexLabels: listVertexLabels(schema),
+              edgeLabels: listEdgeLabels(schema),
+            })
+          : Effect.flatMap(gremlinClient.getConnection, ({ g }) =>
+              Effect.all({ vertexLabels: getVertexLabels(g), edgeLabels: getEdgeLabels(g) })
+            )
+    );
+    const readPersistedSchema = cacheDir
+      ? Effect.map(
+          loadSchemaCacheFile(cacheDir, cacheKey, Number.POSITIVE_INFINITY),
+          Option.match({ onNone: () => null, onSome: entry => entry.schema })
+        )
+      : Effect.succeed(null);
+    const invalidateSchema = invalidateSchemaCache(cache);
+    const refreshSchema = Effect.asVoid(refreshSchemaCache(cache, generateSchemaEffect));
 
-    const getSchema = getCachedSchema(cacheRef, generateSchemaEffect);
-    const peekSchema = peekCachedSchema(cacheRef);
-    const invalidateSchema = invalidateSchemaCache(cacheRef);
-    const refreshSchema = Effect.asVoid(refreshSchemaCache(cacheRef, generateSchemaEffect));
+    // Without a cached schema to merge into, the partial schema is returned without being cached
+    const refreshSchemaForLabels = (filter: SchemaLabelFilter) =>
+      Effect.gen(function* () {
+        const connectionState = yield* gremlinClient.getConnection;
+        const partial = yield* generateGraphSchema(connectionState, schemaConfig, filter);
+        const merged = yield* updateCachedSchema(cache, schema =>
+          mergeGraphSchemas(schema, partial, filter)
+        );
+        if (!merged) {
+          return filterGraphSchema(partial, filter);
+        }
+        yield* publishIfChanged(merged);
+        yield* persist(merged);
+        return filterGraphSchema(merged, filter);
+      });
+    const getSchemaForLabels = (filter: SchemaLabelFilter) =>
+      Effect.flatMap(peekFreshCachedSchema(cache), schema =>
+        schema ? Effect.succeed(filterGraphSchema(schema, filter)) : refreshSchemaForLabels(filter)
+      );
 
     return SchemaService.of({
       getSchema,
       peekSchema,
+      readPersistedSchema,
+      getLabels,
       invalidateSchema,
       refreshSchema,
+      getSchemaForLabels,
+      refreshSchemaForLabels,
+      schemaChanges: Stream.fromPubSub(changes),
     });
   })
 );
@@ -6,14 +6,53 @@
  * and error handling.
  */
 
-import { Effect, Context, Layer, pipe } from 'effect';
-import { type GremlinQueryResult, GremlinQueryResultSchema } from './models/index.js';
+import { randomUUID } from 'node:crypto';
+import {
+  Cause,
+  Duration,
+  Effect,
+  Context,
+  Exit,
+  Layer,
+  Option,
+  Ref,
+  type Stream,
+  pipe,
+} from 'effect';
+import type { driver } from 'gremlin';
+import {
+  type GremlinBindings,
+  type GremlinQueryResult,
+  GremlinQueryResultSchema,
+  type QueryExplanation,
+  type QueryHistoryEntry,
+  type QueryProfile,
+} from './models/index.js';
 import { parseGremlinResultsWithMetadata } from '../utils/result-parser.js';
-import { isGremlinResult } from '../utils/type-guards.js';
-import { GremlinConnectionError, GremlinQueryError, Errors, ParseError } from '../errors.js';
-import { GremlinClient } from './client.js';
-import { SchemaService } from './schema.js';
-import type { GremlinClientType, GremlinResultSet } from './types.js';
+import {
+  parseTraversalExplanation,
+  parseTraversalMetrics,
+  toProfilingQuery,
+} from '../utils/traversal-metrics.js';
+import { isConnectionFailure, isGremlinResult, isServerTimeout } from '../utils/type-guards.js';
+import {
+  GremlinConnectionError,
+  GremlinQueryError,
+  ERROR_CODES,
+  Errors,
+  ParseError,
+  TimeoutError,
+  toStructuredError,
+} from '../errors.js';
+import { QUERY_REQUEST } from '../constants.js';
+import { GremlinClient, GremlinGraph } from './client.js';
+import { type SchemaLabels, SchemaService } from './schema.js';
+import type { SchemaLabelFilter } from './schema-filter.js';
+import { QueryHistory } from './query-history.js';
+import { GREMLIN_DRIVER_VERSION } from './driver-version.js';
+import { enforceReadOnly } from './read-only.js';
+import { buildServiceStatus, fetchServerVersion, probeConnection } from './status.js';
+import type { ConnectionState, GremlinResultSet, QueryActivity } from './types.js';
 import type { GraphSchema, ServiceStatus } from './types.js';
 
 /**
@@ -21,8 +60,9 @@ import type { GraphSchema, ServiceStatus } from './types.js';
  *
  * Provides graph database operations including:
  * - Connection status monitoring
- * - Schema introspection and caching
+ * - Schema introspection and caching, with change notifications
  * - Query execution with result parsing
+ * - Query profiling (profile() and explain())
  * - Health check capabilities
  *
  * All operations return Effect types for composable error handling.
@@ -33,14 +73,72 @@ export class GremlinService extends Context.Tag('GremlinService')<
     readonly getStatus: Effect.Effect<ServiceStatus, never>;
     readonly getSchema: Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>;
     readonly getCachedSchema: Effect.Effect<GraphSchema | null, never>;
+    readonly getPersistedSchema: Effect.Effect<GraphSchema | null, never>;
+    readonly getLabels: Effect.Effect<SchemaLabels, GremlinConnectionError | GremlinQueryError>;
     readonly refreshSchemaCache: Effect.Effect<void, GremlinConnectionError | GremlinQueryError>;
+    readonly getSchemaForLabels: (
+      filter: SchemaLabelFilter
+    ) => Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>;
+    readonly refreshSchemaCacheForLabels: (
+      filter: SchemaLabelFilter
+    ) => Effect.Effect<GraphSchema, GremlinConnectionError | GremlinQueryError>;
+    readonly schemaChanges: Stream.Stream<GraphSchema>;
     readonly executeQuery: (
-      query: string
-    ) => Effect.Effect<GremlinQueryResult, GremlinQueryError | GremlinConnectionError | ParseError>;
+      query: string,
+      bindings?: GremlinBindings,
+      timeoutMs?: number
+    ) => Effect.Effect<
+      GremlinQueryResult,
+      GremlinQueryError | GremlinConnectionError | ParseError | TimeoutError
+    >;
+    readonly profileQuery: (
+      query: string,
+      bindings?: GremlinBindings,
+      timeoutMs?: number
+    ) => Effect.Effect<
+      QueryProfile,
+      GremlinQueryError | GremlinConnectionError | ParseError | TimeoutError
+    >;
+    readonly explainQuery: (
+      query: string,
+      bindings?: GremlinBindings,
+      timeoutMs?: number
+    ) => Effect.Effect<
+      QueryExplanation,
+      GremlinQueryError | GremlinConnectionError | ParseError | TimeoutError
+    >;
     readonly healthCheck: Effect.Effect<{ healthy: boolean; details: string }, never>;
   }
 >() {}
 
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Builds the options sent with a query request.
+ *
+ * @param timeoutMs - Time limit the server applies to evaluating the query
+ */
+const makeRequestOptions = (timeoutMs: number): driver.RequestOptions => ({
+  requestId: randomUUID(),
+  batchSize: QUERY_REQUEST.BATCH_SIZE,
+  userAgent: QUERY_REQUEST.USER_AGENT,
+  evaluationTimeout: timeoutMs,
+});
+
+/**
+ * Summarizes how a query ended for its query history entry.
+ */
+const describeOutcome = (
+  exit: Exit.Exit<GremlinQueryResult, unknown>
+): Pick<QueryHistoryEntry, 'status' | 'result_count' | 'error'> => {
+  if (Exit.isSuccess(exit)) {
+    return { status: 'success', result_count: exit.value.results.length };
+  }
+  const { code, message } = toStructuredError(Cause.squash(exit.cause));
+  return { status: 'error', error: { code, message } };
+};
+
 /**
  * Creates the Gremlin service implementation with dependency injection.
  *
@@ -55,23 +153,111 @@ export class GremlinService extends Context.Tag('GremlinService')<
 const makeGremlinService = Effect.gen(function* () {
   const gremlinClient = yield* GremlinClient;
   const schemaService = yield* SchemaService;
+  const graph = yield* GremlinGraph;
+  const history = yield* QueryHistory;
+  const activityRef = yield* Ref.make<QueryActivity>({});
+  const serverVersionRef = yield* Ref.make<Option.Option<string>>(Option.none());
+
+  /**
+   * Records a successful round-trip to the graph.
+   */
+  const recordSuccess = Ref.update(activityRef, activity => ({
+    ...activity,
+    lastSuccessAt: Date.now(),
+  }));
+
+  /**
+   * Records the most recent error observed while talking to the graph.
+   */
+  const recordFailure = (message: string) =>
+    Ref.update(activityRef, activity => ({
+      ...activity,
+      lastError: { message, at: new Date().toISOString() },
+    }));
+
+  /**
+   * Maps a failed submission to a typed error.
+   *
+   * Failures of the connection itself discard it (so the next query reconnects)
+   * and surface as `GremlinConnectionError`; the server aborting an evaluation
+   * that ran out of time surfaces as `TimeoutError`, any other server-side
+   * failure as `GremlinQueryError`.
+   */
+  const handleSubmitFailure = (
+    query: string,
+    timeoutMs: number,
+    state: ConnectionState,
+    error: unknown
+  ): Effect.Effect<never, GremlinQueryError | GremlinConnectionError | TimeoutError> => {
+    if (isServerTimeout(error)) {
+      return Effect.fail(
+        Errors.timeout(`Server stopped evaluating the query after ${timeoutMs}ms`, timeoutMs, query)
+      );
+    }
+
+    if (!isConnectionFailure(error)) {
+      return Effect.fail(Errors.query('Query execution failed', query, error));
+    }
+
+    return pipe(
+      gremlinClient.invalidate(state, describeError(error)),
+      Effect.andThen(
+        Effect.fail(
+          Errors.connection(
+            'Connection lost while executing query',
+            { query, error: describeError(error) },
+            graph.host,
+            graph.port
+          )
+        )
+      )
+    );
+  };
 
   /**
-   * Executes a raw Gremlin query against the client.
+   * Executes a raw Gremlin query against the current client.
+   *
+   * The time limit is sent to the server as `evaluationTimeout`, so a runaway
+   * traversal stops consuming database resources, and is also enforced on the
+   * client from acquiring the connection until the response arrives, so an
+   * unreachable server does not hold the query for the whole reconnect backoff.
    *
    * @param query - Gremlin traversal query string
-   * @param client - Gremlin client instance
+   * @param timeoutMs - Time limit for evaluating the query
+   * @param bindings - Optional values for the variables used in the query
    * @returns Effect with query results or execution error
    */
   const executeRawQuery = (
     query: string,
-    client: GremlinClientType
-  ): Effect.Effect<unknown, GremlinQueryError> =>
+    timeoutMs: number,
+    bindings?: GremlinBindings
+  ): Effect.Effect<unknown, GremlinQueryError | GremlinConnectionError | TimeoutError> =>
     pipe(
-      Effect.tryPromise(() => client.submit(query)),
-      Effect.mapError((error: unknown) => Errors.query('Query execution failed', query, error))
+      Effect.flatMap(gremlinClient.getConnection, state =>
+        pipe(
+          Effect.tryPromise({
+            try: () => state.client.submit(query, bindings, makeRequestOptions(timeoutMs)),
+            catch: error => error,
+          }),
+          Effect.catchAll(error => handleSubmitFailure(query, timeoutMs, state, error))
+        )
+      ),
+      Effect.timeoutFail({
+        duration: Duration.millis(timeoutMs),
+        onTimeout: () =>
+          Errors.timeout(`Query did not complete within ${timeoutMs}ms`, timeoutMs, query),
+      })
     );
 
+  /**
+   * Prepares a query for submission, enforcing read-only mode when enabled.
+   *
+   * @param query - Gremlin traversal query string
+   * @returns Effect with the script to submit
+   */
+  const prepareQuery = (query: string): Effect.Effect<string, GremlinQueryError> =>
+    graph.readOnly ? enforceReadOnly(query, graph.readOnlyStrategy) : Effect.succeed(query);
+
   /**
    * Processes Gremlin ResultSet into standard array format.
    *
@@ -125,38 +311,201 @@ const makeGremlinService = Effect.gen(function* () {
       Effect.mapError((error: unknown) => Errors.parse('Result validation failed', query, error))
     );
 
+  /**
+   * Records the outcome of a query in the query history once it completes.
+   *
+   * @param query - Gremlin traversal query string as submitted by the caller
+   * @param bindings - Values sent with the query
+   * @returns Function timing an effect and recording its result or failure
+   */
+  const withHistory =
+    (query: string, bindings: GremlinBindings | undefined) =>
+    <E>(effect: Effect.Effect<GremlinQueryResult, E>): Effect.Effect<GremlinQueryResult, E> =>
+      Effect.suspend(() => {
+        const startedAt = new Date();
+        return Effect.onExit(effect, exit =>
+          history.record({
+            graph: graph.name,
+            query,
+            ...(bindings ? { bindings } : {}),
+            executed_at: startedAt.toISOString(),
+            duration_ms: Date.now() - startedAt.getTime(),
+            ...describeOutcome(exit),
+          })
+        );
+      });
+
   /**
    * Executes a Gremlin query with comprehensive error handling.
    *
+   * Bindings are sent to the server alongside the script rather than spliced
+   * into it, so user-supplied values cannot alter the traversal and the server
+   * can reuse its compiled script across calls.
+   *
    * @param query - Gremlin traversal query string
+   * @param bindings - Optional values for the variables used in the query
+   * @param timeoutMs - Time limit for the query (default: the graph's query timeout)
    * @returns Effect with parsed and validated query results
    */
   const executeQuery = (
-    query: string
-  ): Effect.Effect<GremlinQueryResult, GremlinQueryError | GremlinConnectionError | ParseError> =>
+    query: string,
+    bindings?: GremlinBindings,
+    timeoutMs: number = graph.queryTimeoutMs
+  ): Effect.Effect<
+    GremlinQueryResult,
+    GremlinQueryError | GremlinConnectionError | ParseError | TimeoutError
+  > =>
     pipe(
-      Effect.logDebug(`Executing Gremlin query: ${query}`),
-      Effect.andThen(() => executeRawQuery(query, gremlinClient.client)),
+      Effect.logDebug(`Executing Gremlin query: ${query}`, {
+        bindings: Object.keys(bindings ?? {}),
+        timeoutMs,
+      }),
+      Effect.andThen(() => prepareQuery(query)),
+      Effect.andThen(script => executeRawQuery(script, timeoutMs, bindings)),
       Effect.filterOrFail(isGremlinResult, resultSet =>
         Errors.query('Invalid result format received', query, resultSet)
       ),
       Effect.andThen(resultSet => transformGremlinResult(query, resultSet)),
-      Effect.andThen(parsedResults => validateQueryResult(query, parsedResults))
+      Effect.andThen(parsedResults => validateQueryResult(query, parsedResults)),
+      Effect.tapBoth({
+        onFailure: error => recordFailure(error.message),
+        onSuccess: () => recordSuccess,
+      }),
+      withHistory(query, bindings)
+    );
+
+  /**
+   * Runs a traversal with `.profile()` or `.explain()` appended and parses the
+   * single metrics or explanation object it returns.
+   *
+   * The driver cannot decode these objects from GraphBinary, so GraphSON is required.
+   */
+  const runProfiling = <A>(
+    mode: 'profile' | 'explain',
+    parse: (raw: unknown) => Effect.Effect<A, ParseError>,
+    query: string,
+    bindings: GremlinBindings | undefined,
+    timeoutMs: number
+  ): Effect.Effect<A, GremlinQueryError | GremlinConnectionError | ParseError | TimeoutError> =>
+    Effect.gen(function* () {
+      if (graph.serializer === 'graphbinary') {
+        return yield* Effect.fail(
+          Errors.query(
+            `${mode}() results can only be read with a GraphSON serializer (GREMLIN_SERIALIZER)`,
+            query,
+            { code: ERROR_CODES.UNSUPPORTED_OPERATION }
+          )
+        );
+      }
+
+      const profilingQuery = toProfilingQuery(query, mode);
+      yield* Effect.logDebug(`Running Gremlin ${mode}: ${profilingQuery}`);
+
+      const script = yield* prepareQuery(profilingQuery);
+      const resultSet = yield* executeRawQuery(script, timeoutMs, bindings);
+      const [raw] = processResultSet(resultSet);
+      if (raw === undefined) {
+        return yield* Effect.fail(Errors.query(`${mode}() returned no result`, profilingQuery));
+      }
+
+      return yield* parse(raw);
+    }).pipe(
+      Effect.tapBoth({
+        onFailure: error => recordFailure(error.message),
+        onSuccess: () => recordSuccess,
+      })
     );
 
-  const getStatus = Effect.succeed({ status: 'connected' as const });
+  /**
+   * Profiles a traversal, reporting traversers, counts and time per step.
+   *
+   * @param query - Gremlin traversal query string (it is executed)
+   * @param bindings - Optional values for the variables used in the query
+   * @param timeoutMs - Time limit for the query (default: the graph's query timeout)
+   * @returns Effect with the per-step breakdown
+   */
+  const profileQuery = (
+    query: string,
+    bindings?: GremlinBindings,
+    timeoutMs: number = graph.queryTimeoutMs
+  ) => runProfiling('profile', parseTraversalMetrics, query, bindings, timeoutMs);
 
-  const healthCheck = Effect.succeed({
-    healthy: true,
-    details: 'Connected',
+  /**
+   * Explains a traversal, reporting how the server's strategies rewrite it.
+   *
+   * @param query - Gremlin traversal query string (it is not executed)
+   * @param bindings - Optional values for the variables used in the query
+   * @param timeoutMs - Time limit for the query (default: the graph's query timeout)
+   * @returns Effect with the original, intermediate and final traversal
+   */
+  const explainQuery = (
+    query: string,
+    bindings?: GremlinBindings,
+    timeoutMs: number = graph.queryTimeoutMs
+  ) => runProfiling('explain', parseTraversalExplanation, query, bindings, timeoutMs);
+
+  /**
+   * Returns the server version, querying it once after the first successful probe.
+   */
+  const resolveServerVersion = Effect.gen(function* () {
+    const cached = yield* Ref.get(serverVersionRef);
+    if (Option.isSome(cached)) {
+      return cached.value;
+    }
+
+    const state = yield* gremlinClient.getConnection;
+    const version = yield* fetchServerVersion(state);
+    if (version !== undefined) {
+      yield* Ref.set(serverVersionRef, Option.some(version));
+    }
+    return version;
   });
 
+  /**
+   * Probes the graph and reports the structured connection status.
+   */
+  const getStatus: Effect.Effect<ServiceStatus, never> = Effect.gen(function* () {
+    const probe = yield* probeConnection(gremlinClient.getConnection);
+
+    const serverVersion = probe.reachable
+      ? yield* pipe(
+          recordSuccess,
+          Effect.andThen(resolveServerVersion),
+          Effect.orElseSucceed(() => undefined)
+        )
+      : yield* pipe(recordFailure(probe.message), Effect.as(undefined));
+
+    const activity = yield* Ref.get(activityRef);
+
+    return buildServiceStatus(probe, activity, {
+      endpoint: `${graph.host}:${graph.port}`,
+      traversalSource: graph.traversalSource,
+      driverVersion: GREMLIN_DRIVER_VERSION,
+      serverVersion,
+    });
+  });
+
+  const healthCheck = Effect.map(getStatus, status => ({
+    healthy: status.status === 'connected',
+    details:
+      status.status === 'connected'
+        ? `Connected (${status.latencyMs}ms)`
+        : (status.lastError?.message ?? status.status),
+  }));
+
   return {
     getStatus,
     getSchema: schemaService.getSchema,
     getCachedSchema: schemaService.peekSchema,
+    getPersistedSchema: schemaService.readPersistedSchema,
+    getLabels: schemaService.getLabels,
     refreshSchemaCache: schemaService.refreshSchema,
+    getSchemaForLabels: schemaService.getSchemaForLabels,
+    refreshSchemaCacheForLabels: schemaService.refreshSchemaForLabels,
+    schemaChanges: schemaService.schemaChanges,
     executeQuery,
+    profileQuery,
+    explainQuery,
     healthCheck,
   } as const;
 });
@@ -164,7 +513,8 @@ const makeGremlinService = Effect.gen(function* () {
 /**
  * Creates a layer providing the Gremlin service implementation.
  *
- * This layer depends on the `GremlinClient` service, which is expected
- * to be provided elsewhere in the application's layer composition.
+ * This layer depends on the `GremlinClient`, `SchemaService` and `GremlinGraph`
+ * services of the same graph and on the shared `QueryHistory`, which are expected to be provided elsewhere in the
+ * application's layer composition (see `GraphRegistryLive`).
  */
 export const GremlinServiceLive = Layer.effect(GremlinService, makeGremlinService);
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Connection probing for status and health reporting.
+ *
+ * Runs a lightweight traversal with a timeout to find out whether the graph is
+ * actually reachable, and assembles the structured `ServiceStatus` returned by
+ * the `get_graph_status` tool and the `gremlin://status` resource.
+ */
+
+import { Duration, Effect, pipe } from 'effect';
+import { STATUS_PROBE } from '../constants.js';
+import { isConnectionFailure } from '../utils/type-guards.js';
+import type { ConnectionState, QueryActivity, ServiceStatus } from './types.js';
+
+/**
+ * Outcome of a single connection probe.
+ */
+export type ProbeResult =
+  | { readonly reachable: true; readonly latencyMs: number }
+  | {
+      readonly reachable: false;
+      readonly status: 'disconnected' | 'error';
+      readonly message: string;
+    };
+
+/**
+ * Static endpoint information included in every status report.
+ */
+export interface StatusInfo {
+  endpoint: string;
+  traversalSource: string;
+  driverVersion: string;
+  serverVersion?: string;
+}
+
+/**
+ * Classifies a probe failure.
+ *
+ * Transport failures (closed, refused, reset or timed out connections) mean the
+ * server could not be reached (`disconnected`); anything else, including errors
+ * carrying a server status code, means the request failed (`error`).
+ */
+export const classifyProbeError = (error: unknown): 'disconnected' | 'error' =>
+  isConnectionFailure(error) ? 'disconnected' : 'error';
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Probes the graph with `g.inject(1)`, which touches no data.
+ *
+ * The timeout covers acquiring the connection as well as the probe traversal,
+ * so an unreachable graph is reported as disconnected without waiting for the
+ * reconnect backoff; a connection that cannot be acquired is reported with the
+ * connection error itself.
+ *
+ * @param connection - Effect yielding the connection to probe (may re-acquire it)
+ * @param timeoutMs - Maximum time to wait for the connection and the probe traversal
+ * @returns Effect with the probe outcome; never fails
+ */
+export const probeConnection = <E>(
+  connection: Effect.Effect<ConnectionState, E>,
+  timeoutMs: number = STATUS_PROBE.TIMEOUT_MS
+): Effect.Effect<ProbeResult> =>
+  pipe(
+    Effect.matchEffect(connection, {
+      onFailure: error =>
+        Effect.succeed<ProbeResult>({
+          reachable: false,
+          status: 'disconnected',
+          message: describeError(error),
+        }),
+      onSuccess: state =>
+        Effect.suspend(() => {
+          const startTime = Date.now();
+
+          return pipe(
+            Effect.tryPromise({
+              try: () => state.g.inject(1).next(),
+              catch: error => error,
+            }),
+            Effect.map((): ProbeResult => ({ reachable: true, latencyMs: Date.now() - startTime })),
+            Effect.catchAll(error =>
+              Effect.succeed<ProbeResult>({
+                reachable: false,
+                status: classifyProbeError(error),
+                message: describeError(error),
+              })
+            )
+          );
+        }),
+    }),
+    // A server that does not answer in time counts as unreachable
+    Effect.timeoutTo({
+      duration: Duration.millis(timeoutMs),
+      onSuccess: (result): ProbeResult => result,
+      onTimeout: (): ProbeResult => ({
+        reachable: false,
+        status: 'disconnected',
+        message: `Status probe timed out after ${timeoutMs}ms`,
+      }),
+    })
+  );
+
+/**
+ * Asks the server for its version. Only Groovy-enabled Gremlin Servers support
+ * this, so any failure simply yields `undefined`.
+ *
+ * @param state - Active connection state
+ * @param timeoutMs - Maximum time to wait for the answer
+ * @returns Effect with the server version, if available
+ */
+export const fetchServerVersion = (
+  state: ConnectionState,
+  timeoutMs: number = STATUS_PROBE.TIMEOUT_MS
+): Effect.Effect<string | undefined> =>
+  pipe(
+    Effect.tryPromise(() => state.client.submit(STATUS_PROBE.SERVER_VERSION_QUERY)),
+    Effect.timeout(Duration.millis(timeoutMs)),
+    Effect.map(resultSet => {
+      const version: unknown = resultSet.first();
+      return typeof version === 'string' ? version : undefined;
+    }),
+    Effect.orElseSucceed(() => undefined)
+  );
+
+/**
+ * Builds the reported status from a probe result and tracked query activity.
+ *
+ * @param probe - Outcome of the latest probe
+ * @param activity - Last success / last error timestamps
+ * @param info - Endpoint and version information
+ * @param now - Timestamp of the check
+ * @returns Structured service status
+ */
+export const buildServiceStatus = (
+  probe: ProbeResult,
+  activity: QueryActivity,
+  info: StatusInfo,
+  now: number = Date.now()
+): ServiceStatus => ({
+  status: probe.reachable ? 'connected' : probe.status,
+  endpoint: info.endpoint,
+  traversalSource: info.traversalSource,
+  ...(probe.reachable && { latencyMs: probe.latencyMs }),
+  ...(info.serverVersion !== undefined && { serverVersion: info.serverVersion }),
+  driverVersion: info.driverVersion,
+  ...(activity.lastSuccessAt !== undefined && {
+    lastSuccessfulQueryAt: new Date(activity.lastSuccessAt).toISOString(),
+  }),
+  ...(activity.lastError && { lastError: activity.lastError }),
+  checkedAt: new Date(now).toISOString(),
+});
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview TLS options for secure (wss) Gremlin connections.
+ *
+ * The Gremlin driver only forwards a few TLS options to its websocket, so custom
+ * CA bundles, client certificates, key passphrases and SNI overrides are applied
+ * through a dedicated `https.Agent`. Certificate files are read on every
+ * connection attempt, so rotated certificates are picked up on reconnect.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { Agent } from 'node:https';
+import { Effect, Option, Redacted, pipe } from 'effect';
+import { Errors, type GremlinConnectionError } from '../errors.js';
+import { hasCustomTls, type GraphConfigType } from '../config.js';
+
+type TlsSettings = GraphConfigType['tls'];
+
+/**
+ * Reads an optional PEM file.
+ */
+const readPemFile = (path: Option.Option<string>, description: string) =>
+  Option.match(path, {
+    onNone: () => Effect.succeed(undefined),
+    onSome: file =>
+      Effect.tryPromise({
+        try: () => readFile(file),
+        catch: error => Errors.connection(`Failed to read TLS ${description}`, { file, error }),
+      }),
+  });
+
+/**
+ * Creates the agent carrying the TLS options of a graph.
+ *
+ * @param tls - TLS settings of a graph
+ * @returns An agent, or undefined when the driver defaults apply
+ */
+export const makeTlsAgent = (
+  tls: TlsSettings
+): Effect.Effect<Agent | undefined, GremlinConnectionError> =>
+  Effect.gen(function* () {
+    if (!hasCustomTls(tls)) {
+      return undefined;
+    }
+
+    if (tls.insecureSkipVerify) {
+      yield* Effect.logWarning(
+        'TLS certificate verification is disabled; only use this for local testing'
+      );
+    }
+
+    const [ca, cert, key] = yield* Effect.all([
+      readPemFile(tls.caFile, 'CA bundle'),
+      readPemFile(tls.certFile, 'client certificate'),
+      readPemFile(tls.keyFile, 'client key'),
+    ]);
+
+    return new Agent({
+      ca,
+      cert,
+      key,
+      passphrase: pipe(tls.keyPassphrase, Option.map(Redacted.value), Option.getOrUndefined),
+      servername: Option.getOrUndefined(tls.servername),
+      rejectUnauthorized: !tls.insecureSkipVerify,
+    });
+  });
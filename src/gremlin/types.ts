@@ -43,10 +43,42 @@ export interface SchemaCacheEntry {
   timestamp: number;
 }
 
+/**
+ * Most recent error observed while talking to the graph
+ */
+export interface LastError {
+  message: string;
+  at: string;
+}
+
+/**
+ * Query activity tracked across status probes and query executions
+ */
+export interface QueryActivity {
+  lastSuccessAt?: number;
+  lastError?: LastError;
+}
+
 /**
  * Gremlin service status information
  */
 export interface ServiceStatus {
   /** Overall connection status */
   status: 'connected' | 'disconnected' | 'error';
+  /** Gremlin server endpoint (host:port) */
+  endpoint: string;
+  /** Traversal source name */
+  traversalSource: string;
+  /** Round-trip time of the status probe in milliseconds */
+  latencyMs?: number;
+  /** Gremlin server version, when the server exposes it */
+  serverVersion?: string;
+  /** Version of the gremlin JavaScript driver */
+  driverVersion: string;
+  /** When the last query (or probe) succeeded */
+  lastSuccessfulQueryAt?: string;
+  /** The last error observed, if any */
+  lastError?: LastError;
+  /** When this status was determined */
+  checkedAt: string;
 }
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Argument completion for prompts and resource templates.
+ *
+ * Completers suggest vertex labels, edge labels and property keys of the graph.
+ * Labels come from the cached schema, or from lightweight label queries while no
+ * schema is cached; property keys are only known once the schema is cached.
+ * Completion is best effort: failures and slow queries yield no suggestions.
+ */
+
+import { Duration, Effect, Runtime, pipe } from 'effect';
+import { COMPLETIONS } from '../constants.js';
+import { GremlinService } from '../gremlin/service.js';
+import { filterCompletions, listPropertyKeys } from '../gremlin/completions.js';
+
+/**
+ * Arguments the client has already filled in, sent along with a completion request.
+ */
+export type CompletionArguments = Readonly<Record<string, string>> | undefined;
+
+/**
+ * Vertex labels of the graph.
+ */
+export const vertexLabelCandidates = Effect.andThen(GremlinService, service =>
+  Effect.map(service.getLabels, labels => labels.vertexLabels)
+);
+
+/**
+ * Edge labels of the graph.
+ */
+export const edgeLabelCandidates = Effect.andThen(GremlinService, service =>
+  Effect.map(service.getLabels, labels => labels.edgeLabels)
+);
+
+/**
+ * Vertex and edge labels of the graph.
+ */
+export const labelCandidates = Effect.andThen(GremlinService, service =>
+  Effect.map(service.getLabels, labels => [...labels.vertexLabels, ...labels.edgeLabels])
+);
+
+/**
+ * Property keys of the graph, or of one vertex or edge label.
+ *
+ * @param label - Label to restrict the keys to
+ */
+export const propertyKeyCandidates = (label?: string) =>
+  Effect.andThen(GremlinService, service =>
+    Effect.map(service.getCachedSchema, schema => (schema ? listPropertyKeys(schema, label) : []))
+  );
+
+/**
+ * Creates a completion callback from an effect listing candidate values.
+ *
+ * @param runtime - Effect runtime providing the candidates' requirements
+ * @param candidates - Lists candidate values, given the arguments filled in so far
+ * @returns Callback returning the candidates that start with the typed value, capped
+ */
+export const createCompleter =
+  <R>(
+    runtime: Runtime.Runtime<R>,
+    candidates: (args: CompletionArguments) => Effect.Effect<readonly string[], unknown, R>
+  ) =>
+  (value: string | undefined, context?: { arguments?: Record<string, string> }) =>
+    Runtime.runPromise(runtime)(
+      pipe(
+        candidates(context?.arguments),
+        Effect.timeout(Duration.millis(COMPLETIONS.TIMEOUT_MS)),
+        Effect.map(values => filterCompletions(values, value ?? '')),
+        Effect.catchAll(error =>
+          pipe(
+            Effect.logDebug('Completion failed', { error: String(error) }),
+            Effect.as([] as string[])
+          )
+        )
+      )
+    );
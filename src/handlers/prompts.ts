@@ -0,0 +1,241 @@
+/**
+ * @fileoverview MCP prompt handlers for common graph tasks.
+ *
+ * Each prompt embeds a compact rendering of the graph schema, so agents start
+ * from the actual labels, properties and relationship patterns instead of
+ * guessing them, and points at the tools and resources suited to the task.
+ */
+
+import { Effect, Runtime, pipe } from 'effect';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { PROMPT_NAMES, RESOURCE_URIS, TOOL_NAMES } from '../constants.js';
+import { toStructuredError } from '../errors.js';
+import { GremlinService } from '../gremlin/service.js';
+import { type GraphRegistry, withGraph } from '../gremlin/graphs.js';
+import { renderSchemaSummary } from '../gremlin/schema-summary.js';
+import { createCompleter, labelCandidates, propertyKeyCandidates } from './completions.js';
+
+/**
+ * Optional graph selector shared by every prompt.
+ */
+const graphArgument = z
+  .string()
+  .optional()
+  .describe('Name of the configured graph to use (defaults to the primary graph)');
+
+/**
+ * Argument value selecting every label or property.
+ *
+ * Completable prompt arguments must be required strings, so "all" is spelled out.
+ */
+const ALL = '*';
+
+/**
+ * Describes the schema of the selected graph for a prompt.
+ *
+ * Only a cached schema is used, so getting a prompt never starts a schema
+ * discovery. Without one, the graph's labels are listed and the agent is told
+ * to load the schema itself; the same happens when the labels cannot be read
+ * either. An unknown graph fails the prompt request.
+ */
+const describeSchema = (graph: string | undefined) =>
+  pipe(
+    GremlinService,
+    Effect.andThen(service =>
+      Effect.flatMap(service.getCachedSchema, schema =>
+        schema
+          ? Effect.succeed(`Graph schema:\n${renderSchemaSummary(schema)}`)
+          : Effect.map(
+              service.getLabels,
+              ({ vertexLabels, edgeLabels }) =>
+                `The graph schema has not been loaded yet. Call ${TOOL_NAMES.GET_GRAPH_SCHEMA} ` +
+                `for the properties and relationship patterns before writing any traversal.\n` +
+                `Vertex labels: ${vertexLabels.join(', ') || '(none)'}\n` +
+                `Edge labels: ${edgeLabels.join(', ') || '(none)'}`
+            )
+      )
+    ),
+    Effect.catchAll(error =>
+      Effect.succeed(
+        `The graph schema could not be loaded (${toStructuredError(error).message}). ` +
+          `Call ${TOOL_NAMES.GET_GRAPH_SCHEMA} before writing any traversal.`
+      )
+    ),
+    withGraph(graph)
+  );
+
+/**
+ * Names the graph in prompt text, so tool calls target the same graph.
+ */
+const graphNote = (graph: string | undefined): string =>
+  graph ? `Pass graph "${graph}" to every tool call.\n\n` : '';
+
+/**
+ * Builds a single user message prompt from task instructions and the schema.
+ */
+const createPromptEffect = (description: string, graph: string | undefined, instructions: string) =>
+  Effect.map(
+    describeSchema(graph),
+    (schema): GetPromptResult => ({
+      description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `${instructions}\n\n${graphNote(graph)}${schema}`,
+          },
+        },
+      ],
+    })
+  );
+
+/**
+ * Registers MCP prompt handlers with the server.
+ *
+ * @param server - MCP server instance
+ * @param runtime - Effect runtime with the Gremlin service and graph registry
+ *
+ * Registers prompts for:
+ * - Exploring an unfamiliar graph
+ * - Writing a traversal that answers a question
+ * - Diagnosing a slow query
+ * - Reviewing data quality
+ */
+export function registerEffectPromptHandlers(
+  server: McpServer,
+  runtime: Runtime.Runtime<GremlinService | GraphRegistry>
+): void {
+  server.registerPrompt(
+    PROMPT_NAMES.EXPLORE_GRAPH,
+    {
+      title: 'Explore Graph',
+      description: 'Get an overview of what the graph contains and how its data is connected',
+      argsSchema: {
+        graph: graphArgument,
+      },
+    },
+    ({ graph }) =>
+      Effect.runPromise(
+        pipe(
+          createPromptEffect(
+            'Explore the graph',
+            graph,
+            [
+              'Explore this graph and summarize what it models.',
+              'Describe the main entities, how they relate and which properties identify them.',
+              `Use ${TOOL_NAMES.RUN_GREMLIN_QUERY} with small, limited traversals (e.g. limit(10)) to look at sample data, ` +
+                `and read ${RESOURCE_URIS.VERTEX_LABEL_TEMPLATE} or ${RESOURCE_URIS.EDGE_LABEL_TEMPLATE} for details on one label.`,
+              'Finish with a few example questions the graph can answer, each with its traversal.',
+            ].join('\n')
+          ),
+          Effect.provide(runtime)
+        )
+      )
+  );
+
+  server.registerPrompt(
+    PROMPT_NAMES.WRITE_TRAVERSAL,
+    {
+      title: 'Write Traversal',
+      description: 'Write a Gremlin traversal that answers a question about the graph',
+      argsSchema: {
+        question: z.string().describe('Question the traversal should answer'),
+        graph: graphArgument,
+      },
+    },
+    ({ question, graph }) =>
+      Effect.runPromise(
+        pipe(
+          createPromptEffect(
+            'Write a traversal',
+            graph,
+            [
+              `Write a Gremlin traversal that answers this question: ${question}`,
+              'Only use the vertex labels, edge labels, properties and relationship patterns listed in the schema below; ' +
+                'if the question cannot be answered with them, say so instead of guessing.',
+              `Pass literal values as bindings rather than inlining them, run the traversal with ${TOOL_NAMES.RUN_GREMLIN_QUERY}, ` +
+                'and explain the traversal together with its result.',
+            ].join('\n')
+          ),
+          Effect.provide(runtime)
+        )
+      )
+  );
+
+  server.registerPrompt(
+    PROMPT_NAMES.DIAGNOSE_SLOW_QUERY,
+    {
+      title: 'Diagnose Slow Query',
+      description: 'Find out why a Gremlin query is slow and propose a faster equivalent',
+      argsSchema: {
+        query: z.string().describe('Gremlin query to diagnose'),
+        graph: graphArgument,
+      },
+    },
+    ({ query, graph }) =>
+      Effect.runPromise(
+        pipe(
+          createPromptEffect(
+            'Diagnose a slow query',
+            graph,
+            [
+              'Diagnose why this Gremlin query is slow:',
+              query,
+              `Run ${TOOL_NAMES.PROFILE_GREMLIN_QUERY} on it and identify the steps that dominate the time or traverse the most elements.`,
+              'Look for full graph scans, missing label or property filters, unbounded repeat() or path steps, ' +
+                'and filters applied late in the traversal.',
+              'Propose a rewritten query that returns the same results, profile it to confirm the improvement, ' +
+                'and mention any index that would help.',
+            ].join('\n')
+          ),
+          Effect.provide(runtime)
+        )
+      )
+  );
+
+  server.registerPrompt(
+    PROMPT_NAMES.REVIEW_DATA_QUALITY,
+    {
+      title: 'Review Data Quality',
+      description:
+        'Look for missing properties, unexpected values, duplicates and isolated vertices in the graph',
+      argsSchema: {
+        label: completable(
+          z.string().describe(`Vertex or edge label to focus on, or "${ALL}" for all labels`),
+          createCompleter(runtime, args => withGraph(args?.['graph'])(labelCandidates))
+        ),
+        property: completable(
+          z.string().describe(`Property key to focus on, or "${ALL}" for all properties`),
+          createCompleter(runtime, args =>
+            withGraph(args?.['graph'])(
+              propertyKeyCandidates(args?.['label'] === ALL ? undefined : args?.['label'])
+            )
+          )
+        ),
+        graph: graphArgument,
+      },
+    },
+    ({ label, property, graph }) =>
+      Effect.runPromise(
+        pipe(
+          createPromptEffect(
+            'Review data quality',
+            graph,
+            [
+              `Review the data quality of ${property !== ALL ? `the "${property}" property of ` : ''}` +
+                (label !== ALL ? `the "${label}" label in this graph.` : 'this graph.'),
+              "Check for elements missing properties their label usually has, values outside a property's enum or type, " +
+                'likely duplicates and isolated vertices.',
+              `Use read-only traversals with ${TOOL_NAMES.RUN_GREMLIN_QUERY}, preferring counts and groupCount() over fetching elements.`,
+              'Report each finding with the traversal that shows it and a sample of affected element ids; do not modify any data.',
+            ].join('\n')
+          ),
+          Effect.provide(runtime)
+        )
+      )
+  );
+}
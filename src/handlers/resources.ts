@@ -6,50 +6,231 @@
  * MCP clients for live monitoring.
  */
 
-import { Effect, pipe, Runtime } from 'effect';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Effect, Fiber, pipe, Runtime, Stream } from 'effect';
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { RESOURCE_URIS, MIME_TYPES } from '../constants.js';
-import { ERROR_PREFIXES } from '../errors.js';
+import {
+  ERROR_CODES,
+  ERROR_PREFIXES,
+  Errors,
+  type GremlinConnectionError,
+  type GremlinQueryError,
+  toStructuredError,
+} from '../errors.js';
 import { GremlinService } from '../gremlin/service.js';
+import { QueryHistory } from '../gremlin/query-history.js';
+import {
+  getEdgeLabelSchema,
+  getVertexLabelSchema,
+  listEdgeLabels,
+  listVertexLabels,
+} from '../gremlin/label-schema.js';
+import type { GraphSchema } from '../gremlin/models/index.js';
+import { createCompleter, edgeLabelCandidates, vertexLabelCandidates } from './completions.js';
 
 /**
- * Registers MCP resource handlers with the server.
+ * Enables resource subscriptions and notifies subscribers of schema changes.
+ *
+ * Subscriptions belong to one MCP server, i.e. one client session. Schema
+ * changes are watched from the first subscription until the session closes, and
+ * clients subscribed to the schema resource receive `resources/updated` whenever
+ * a regenerated schema differs from the previous one.
+ *
+ * @param server - MCP server instance
+ * @param runtime - Effect runtime with Gremlin service
+ */
+const registerResourceSubscriptions = (
+  server: McpServer,
+  runtime: Runtime.Runtime<GremlinService>
+): void => {
+  const subscriptions = new Set<string>();
+  let watcher: Fiber.RuntimeFiber<void> | undefined;
+
+  const notifySchemaChanged = pipe(
+    Effect.tryPromise(() => server.server.sendResourceUpdated({ uri: RESOURCE_URIS.SCHEMA })),
+    Effect.catchAll(error =>
+      Effect.logWarning('Failed to send schema update notification', { error: String(error) })
+    )
+  );
+
+  const watchSchemaChanges = () => {
+    watcher ??= Runtime.runFork(runtime)(
+      pipe(
+        GremlinService,
+        Effect.andThen(service =>
+          Stream.runForEach(service.schemaChanges, () =>
+            subscriptions.has(RESOURCE_URIS.SCHEMA) ? notifySchemaChanged : Effect.void
+          )
+        )
+      )
+    );
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, request => {
+    subscriptions.add(request.params.uri);
+    watchSchemaChanges();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.server.onclose = () => {
+    subscriptions.clear();
+    if (watcher) {
+      Runtime.runFork(runtime)(Fiber.interrupt(watcher));
+      watcher = undefined;
+    }
+  };
+};
+
+/**
+ * Registers a resource template exposing the schema of a single vertex or edge label.
+ *
+ * Labels are listed from the cached primary graph schema, so listing resources
+ * never waits for schema generation; before the schema is first loaded no labels
+ * are listed, but any label can still be read through the template. The label
+ * variable is completed from the labels of the graph.
  *
  * @param server - MCP server instance
  * @param runtime - Effect runtime with Gremlin service
+ * @param template - Label template and the functions reading its labels from the schema
+ */
+const registerLabelSchemaTemplate = (
+  server: McpServer,
+  runtime: Runtime.Runtime<GremlinService>,
+  template: {
+    readonly name: string;
+    readonly kind: 'vertex' | 'edge';
+    readonly uriTemplate: string;
+    readonly title: string;
+    readonly description: string;
+    readonly listLabels: (schema: GraphSchema) => string[];
+    readonly getLabelSchema: (schema: GraphSchema, label: string) => unknown;
+    readonly labelCandidates: Effect.Effect<
+      readonly string[],
+      GremlinConnectionError | GremlinQueryError,
+      GremlinService
+    >;
+  }
+): void => {
+  const toUri = (label: string) =>
+    template.uriTemplate.replace('{label}', encodeURIComponent(label));
+
+  server.registerResource(
+    template.name,
+    new ResourceTemplate(template.uriTemplate, {
+      list: () =>
+        Effect.runPromise(
+          pipe(
+            GremlinService,
+            Effect.andThen(service => service.getCachedSchema),
+            Effect.map(schema =>
+              (schema ? template.listLabels(schema) : []).map(label => ({
+                uri: toUri(label),
+                name: label,
+                title: `${template.title}: ${label}`,
+                mimeType: MIME_TYPES.APPLICATION_JSON,
+              }))
+            ),
+            Effect.map(resources => ({ resources })),
+            Effect.provide(runtime)
+          )
+        ),
+      complete: {
+        label: createCompleter(runtime, () => template.labelCandidates),
+      },
+    }),
+    {
+      title: template.title,
+      description: template.description,
+      mimeType: MIME_TYPES.APPLICATION_JSON,
+    },
+    (uri, variables) => {
+      const label = decodeURIComponent(String(variables['label']));
+      return Effect.runPromise(
+        pipe(
+          GremlinService,
+          Effect.andThen(service => service.getSchema),
+          Effect.andThen(schema => {
+            const labelSchema = template.getLabelSchema(schema, label);
+            return labelSchema === undefined
+              ? Effect.fail(
+                  Errors.resource(`Unknown ${template.kind} label '${label}'`, uri.href, {
+                    code: ERROR_CODES.NOT_FOUND,
+                    label,
+                  })
+                )
+              : Effect.succeed(labelSchema);
+          }),
+          Effect.catchAll(error => Effect.succeed({ error: toStructuredError(error) })),
+          Effect.provide(runtime)
+        )
+      ).then(result => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: MIME_TYPES.APPLICATION_JSON,
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }));
+    }
+  );
+};
+
+/**
+ * Registers MCP resource handlers with the server.
+ *
+ * @param server - MCP server instance
+ * @param runtime - Effect runtime with Gremlin service and query history
  *
  * Registers resources for:
  * - Graph connection status monitoring
- * - Live schema information access
+ * - Live schema information access, in full or per vertex and edge label
+ * - Query history review
+ * - Subscriptions with schema change notifications
  */
 export function registerEffectResourceHandlers(
   server: McpServer,
-  runtime: Runtime.Runtime<GremlinService>
+  runtime: Runtime.Runtime<GremlinService | QueryHistory>
 ): void {
+  registerResourceSubscriptions(server, runtime);
+
   // Register status resource using the recommended registerResource method
   server.registerResource(
     'status',
     RESOURCE_URIS.STATUS,
     {
       title: 'Gremlin Graph Status',
-      description: 'Real-time connection status of the Gremlin graph database',
-      mimeType: MIME_TYPES.TEXT_PLAIN,
+      description:
+        'Real-time connection status of the Gremlin graph database, including latency, versions and recent errors',
+      mimeType: MIME_TYPES.APPLICATION_JSON,
     },
     () =>
       Effect.runPromise(
         pipe(
           GremlinService,
           Effect.andThen(service => service.getStatus),
-          Effect.map(statusObj => statusObj.status),
-          Effect.catchAll(error => Effect.succeed(`${ERROR_PREFIXES.CONNECTION}: ${error}`)),
+          Effect.catchAll(error =>
+            Effect.succeed({ status: 'error', error: `${ERROR_PREFIXES.CONNECTION}: ${error}` })
+          ),
           Effect.provide(runtime)
         )
       ).then(result => ({
         contents: [
           {
             uri: RESOURCE_URIS.STATUS,
-            mimeType: MIME_TYPES.TEXT_PLAIN,
-            text: result,
+            mimeType: MIME_TYPES.APPLICATION_JSON,
+            text: JSON.stringify(result, null, 2),
           },
         ],
       }))
@@ -83,4 +264,57 @@ export function registerEffectResourceHandlers(
         ],
       }))
   );
+
+  // Register per-label schema resource templates
+  registerLabelSchemaTemplate(server, runtime, {
+    name: 'vertex-label-schema',
+    kind: 'vertex',
+    uriTemplate: RESOURCE_URIS.VERTEX_LABEL_TEMPLATE,
+    title: 'Vertex Label Schema',
+    description:
+      'Properties, count, enum values and incoming/outgoing relationship patterns of one vertex label',
+    listLabels: listVertexLabels,
+    getLabelSchema: getVertexLabelSchema,
+    labelCandidates: vertexLabelCandidates,
+  });
+
+  registerLabelSchemaTemplate(server, runtime, {
+    name: 'edge-label-schema',
+    kind: 'edge',
+    uriTemplate: RESOURCE_URIS.EDGE_LABEL_TEMPLATE,
+    title: 'Edge Label Schema',
+    description: 'Properties, count, enum values and the vertex labels connected by one edge label',
+    listLabels: listEdgeLabels,
+    getLabelSchema: getEdgeLabelSchema,
+    labelCandidates: edgeLabelCandidates,
+  });
+
+  // Register query history resource
+  server.registerResource(
+    'history',
+    RESOURCE_URIS.HISTORY,
+    {
+      title: 'Gremlin Query History',
+      description:
+        'Recently executed queries, most recent first, with timing, result count and errors. Re-run one with rerun_query',
+      mimeType: MIME_TYPES.APPLICATION_JSON,
+    },
+    () =>
+      Effect.runPromise(
+        pipe(
+          QueryHistory,
+          Effect.andThen(history => history.list),
+          Effect.map(entries => ({ entries })),
+          Effect.provide(runtime)
+        )
+      ).then(result => ({
+        contents: [
+          {
+            uri: RESOURCE_URIS.HISTORY,
+            mimeType: MIME_TYPES.APPLICATION_JSON,
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }))
+  );
 }
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview MCP tool handlers for the saved query library.
+ *
+ * Registers one tool per saved query. Tool arguments are the query's declared
+ * parameters, plus the time limit, result cursor and (unless the query pins
+ * one) graph accepted by `run_gremlin_query`.
+ */
+
+import { Effect, Runtime, pipe } from 'effect';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { GraphRegistry } from '../gremlin/graphs.js';
+import type { SavedQuery } from '../gremlin/models/index.js';
+import type { ResultCursors } from '../gremlin/result-cursors.js';
+import { toBindings, toParameterShape } from '../gremlin/saved-queries.js';
+import type { AppConfigType } from '../config.js';
+import { createQueryEffect } from './tool-patterns.js';
+
+/**
+ * Registers a tool for every saved query.
+ *
+ * @param server - MCP server instance
+ * @param runtime - Effect runtime with the graph registry and result cursors
+ * @param savedQueries - Saved queries loaded at startup
+ * @param config - Application configuration
+ */
+export function registerSavedQueryTools(
+  server: McpServer,
+  runtime: Runtime.Runtime<GraphRegistry | ResultCursors>,
+  savedQueries: readonly SavedQuery[],
+  config: AppConfigType
+): void {
+  for (const savedQuery of savedQueries) {
+    const parametersSchema = z.object(toParameterShape(savedQuery));
+    const optionsSchema = z.object({
+      timeout_ms: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          `Time limit for the query in milliseconds (default: ${config.gremlin.queryTimeoutMs})`
+        ),
+      cursor: z
+        .string()
+        .optional()
+        .describe('Cursor from a truncated result of this tool; fetches the next page'),
+      graph: z
+        .string()
+        .optional()
+        .describe('Name of the configured graph to use (defaults to the primary graph)'),
+    });
+
+    server.registerTool(
+      savedQuery.name,
+      {
+        title: savedQuery.title ?? savedQuery.name,
+        description: savedQuery.description,
+        inputSchema: {
+          ...parametersSchema.shape,
+          // Queries that pin a graph do not offer choosing one
+          ...(savedQuery.graph === undefined
+            ? optionsSchema.shape
+            : optionsSchema.omit({ graph: true }).shape),
+        },
+      },
+      (args: unknown) => {
+        const parameters = parametersSchema.parse(args);
+        const { timeout_ms, cursor, graph } = optionsSchema.parse(args);
+        return Effect.runPromise(
+          pipe(
+            createQueryEffect(
+              savedQuery.query,
+              savedQuery.graph ?? graph,
+              toBindings(savedQuery, parameters),
+              timeout_ms,
+              cursor
+            ),
+            Effect.provide(runtime)
+          )
+        );
+      }
+    );
+  }
+}
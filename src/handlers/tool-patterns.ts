@@ -8,7 +8,11 @@
 
 import { Effect, pipe } from 'effect';
 import { z } from 'zod';
+import { toStructuredError } from '../errors.js';
 import { GremlinService } from '../gremlin/service.js';
+import type { GremlinBindings } from '../gremlin/models/index.js';
+import { GraphRegistry, withGraph } from '../gremlin/graphs.js';
+import { ResultCursors } from '../gremlin/result-cursors.js';
 
 /**
  * Standard MCP tool response structure following the protocol specification.
@@ -37,12 +41,22 @@ export const createStringResponse = (text: string): McpToolResponse => ({
 });
 
 /**
- * Creates a standardized error response
+ * Creates a standardized error response carrying a structured error.
+ *
+ * @param error - Failure of the tool effect
+ * @param operationName - Operation that failed, prefixed to the error message
+ * @returns MCP tool response with `isError` set and the error as JSON
  */
-export const createErrorResponse = (message: string): McpToolResponse => ({
-  content: [{ type: 'text', text: message }],
-  isError: true,
-});
+export const createErrorResponse = (error: unknown, operationName?: string): McpToolResponse => {
+  const structured = toStructuredError(error);
+  const message = operationName ? `${operationName}: ${structured.message}` : structured.message;
+  return {
+    content: [
+      { type: 'text', text: JSON.stringify({ error: { ...structured, message } }, null, 2) },
+    ],
+    isError: true,
+  };
+};
 
 /**
  * Simple tool handler that executes an Effect and returns proper MCP response
@@ -54,7 +68,7 @@ export const createToolEffect = <A, E, R>(
   pipe(
     effect,
     Effect.map(createSuccessResponse),
-    Effect.catchAll(error => Effect.succeed(createErrorResponse(`${operationName}: ${error}`)))
+    Effect.catchAll(error => Effect.succeed(createErrorResponse(error, operationName)))
   );
 
 /**
@@ -67,27 +81,44 @@ export const createStringToolEffect = <A, E, R>(
   pipe(
     effect,
     Effect.map(result => createStringResponse(String(result))),
-    Effect.catchAll(error => Effect.succeed(createErrorResponse(`${operationName}: ${error}`)))
+    Effect.catchAll(error => Effect.succeed(createErrorResponse(error, operationName)))
   );
 
 /**
  * Query result handler with structured error responses
+ *
+ * Large results are returned one page at a time; a truncated page carries a
+ * cursor that continues the same query, against the same graph, with the same
+ * bindings.
+ *
+ * @param query - Gremlin query to execute
+ * @param graph - Graph to run it against, or undefined for the primary graph
+ * @param bindings - Optional values for the variables used in the query
+ * @param timeoutMs - Optional time limit overriding the configured query timeout
+ * @param cursor - Cursor of a truncated result to continue instead of running the query
  */
 export const createQueryEffect = (
-  query: string
-): Effect.Effect<McpToolResponse, never, GremlinService> =>
+  query: string,
+  graph?: string,
+  bindings?: GremlinBindings,
+  timeoutMs?: number,
+  cursor?: string
+): Effect.Effect<McpToolResponse, never, GraphRegistry | ResultCursors> =>
   pipe(
-    GremlinService,
-    Effect.andThen(service => service.executeQuery(query)),
+    Effect.all([ResultCursors, GraphRegistry]),
+    Effect.andThen(([cursors, registry]) => {
+      const request = { query, graph: graph ?? registry.names[0] ?? '', bindings };
+      return cursor
+        ? cursors.resume(request, cursor)
+        : pipe(
+            GremlinService,
+            Effect.andThen(service => service.executeQuery(query, bindings, timeoutMs)),
+            withGraph(graph),
+            Effect.andThen(result => cursors.paginate(request, result))
+          );
+    }),
     Effect.map(createSuccessResponse),
-    Effect.catchAll(error => {
-      // For query errors, return structured JSON with empty results and error message
-      const errorResponse = {
-        results: [],
-        message: `Query failed: ${error}`,
-      };
-      return Effect.succeed(createSuccessResponse(errorResponse));
-    })
+    Effect.catchAll(error => Effect.succeed(createErrorResponse(error)))
   );
 
 /**
@@ -104,5 +135,5 @@ export const createValidatedToolEffect =
       Effect.try(() => schema.parse(args)),
       Effect.andThen(handler),
       Effect.map(createSuccessResponse),
-      Effect.catchAll(error => Effect.succeed(createErrorResponse(`${operationName}: ${error}`)))
+      Effect.catchAll(error => Effect.succeed(createErrorResponse(error, operationName)))
     );
@@ -9,19 +9,105 @@
 import { Effect, Runtime, pipe } from 'effect';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { TOOL_NAMES } from '../constants.js';
+import { SCHEMA_DIFF, TOOL_NAMES } from '../constants.js';
+import { ERROR_CODES, Errors } from '../errors.js';
+import { GraphSchemaSchema, GremlinBindingsSchema } from '../gremlin/models/index.js';
+import { diffGraphSchemas } from '../gremlin/schema-diff.js';
+import type { SchemaLabelFilter } from '../gremlin/schema-filter.js';
 import { GremlinService } from '../gremlin/service.js';
+import { type GraphRegistry, withGraph } from '../gremlin/graphs.js';
+import type { ResultCursors } from '../gremlin/result-cursors.js';
+import { QueryHistory } from '../gremlin/query-history.js';
 import { importGraphData, exportSubgraph } from '../utils/data-operations.js';
+import type { AppConfigType } from '../config.js';
 import {
   createToolEffect,
   createStringToolEffect,
   createQueryEffect,
   createValidatedToolEffect,
+  createErrorResponse,
 } from './tool-patterns.js';
 
+/**
+ * Optional graph selector shared by every tool.
+ */
+const graphArgument = z
+  .string()
+  .optional()
+  .describe('Name of the configured graph to use (defaults to the primary graph)');
+
+/**
+ * Optional label filters for schema tools.
+ */
+const labelFilterArguments = {
+  vertex_labels: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Only include these vertex labels; glob patterns such as "user*" are allowed. When only edge_labels is given, no vertex labels are included'
+    ),
+  edge_labels: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Only include these edge labels; glob patterns such as "*_of" are allowed. When only vertex_labels is given, no edge labels are included'
+    ),
+};
+
+/**
+ * Converts label filter arguments into a schema label filter, if any was given.
+ */
+const toLabelFilter = ({
+  vertex_labels,
+  edge_labels,
+}: z.infer<typeof labelFilterInputSchema>): SchemaLabelFilter | undefined =>
+  vertex_labels || edge_labels
+    ? { vertexLabels: vertex_labels, edgeLabels: edge_labels }
+    : undefined;
+
 /**
  * Input validation schemas for tool parameters.
  */
+const graphInputSchema = z.object({
+  graph: z.string().optional(),
+});
+
+const labelFilterInputSchema = z.object({
+  vertex_labels: z.array(z.string()).optional(),
+  edge_labels: z.array(z.string()).optional(),
+  graph: z.string().optional(),
+});
+
+const queryInputSchema = z.object({
+  query: z.string(),
+  bindings: GremlinBindingsSchema.optional(),
+  timeout_ms: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  graph: z.string().optional(),
+});
+
+const diffInputSchema = z.object({
+  baseline: z.enum(['cached', 'persisted', 'provided']).optional(),
+  baseline_schema: GraphSchemaSchema.optional(),
+  refresh: z.boolean().default(false),
+  count_change_threshold: z.number().min(0).default(SCHEMA_DIFF.COUNT_CHANGE_THRESHOLD),
+  graph: z.string().optional(),
+});
+
+const rerunInputSchema = z.object({
+  id: z.number().int().positive(),
+  timeout_ms: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+});
+
+const profileInputSchema = z.object({
+  query: z.string(),
+  mode: z.enum(['profile', 'explain']).default('profile'),
+  bindings: GremlinBindingsSchema.optional(),
+  timeout_ms: z.number().int().positive().optional(),
+  graph: z.string().optional(),
+});
+
 const importInputSchema = z.object({
   format: z.enum(['graphson', 'csv']),
   data: z.string(),
@@ -32,6 +118,7 @@ const importInputSchema = z.object({
       validate_schema: z.boolean().optional(),
     })
     .optional(),
+  graph: z.string().optional(),
 });
 
 const exportInputSchema = z.object({
@@ -40,44 +127,53 @@ const exportInputSchema = z.object({
   max_depth: z.number().optional(),
   include_properties: z.array(z.string()).optional(),
   exclude_properties: z.array(z.string()).optional(),
+  graph: z.string().optional(),
 });
 
 /**
  * Registers all MCP tool handlers with the server.
  *
  * @param server - MCP server instance
- * @param runtime - Effect runtime with Gremlin service
+ * @param runtime - Effect runtime with the Gremlin service, graph registry, result cursors and query history
+ * @param config - Application configuration
  *
  * Registers tools for:
  * - Graph status monitoring
  * - Schema introspection and caching
- * - Query execution
- * - Data import/export operations
+ * - Query execution, re-execution from the history and profiling
+ * - Data import/export operations (import is not registered in read-only mode)
  */
 export function registerEffectToolHandlers(
   server: McpServer,
-  runtime: Runtime.Runtime<GremlinService>
+  runtime: Runtime.Runtime<GremlinService | GraphRegistry | ResultCursors | QueryHistory>,
+  config: AppConfigType
 ): void {
   // Get Graph Status
   server.registerTool(
     TOOL_NAMES.GET_GRAPH_STATUS,
     {
       title: 'Get Graph Status',
-      description: 'Get the connection status of the Gremlin graph database',
-      inputSchema: {},
+      description:
+        'Probe the Gremlin graph database and report connection status, latency, versions and recent errors',
+      inputSchema: {
+        graph: graphArgument,
+      },
     },
-    () =>
-      Effect.runPromise(
+    (args: unknown) => {
+      const { graph } = graphInputSchema.parse(args);
+      return Effect.runPromise(
         pipe(
-          createStringToolEffect(
-            Effect.andThen(GremlinService, service =>
-              Effect.map(service.getStatus, statusObj => statusObj.status)
+          createToolEffect(
+            pipe(
+              Effect.andThen(GremlinService, service => service.getStatus),
+              withGraph(graph)
             ),
             'Connection status check failed'
           ),
           Effect.provide(runtime)
         )
-      )
+      );
+    }
   );
 
   // Get Graph Schema
@@ -86,19 +182,30 @@ export function registerEffectToolHandlers(
     {
       title: 'Get Graph Schema',
       description:
-        'Get the complete schema of the graph including vertex labels, edge labels, and relationship patterns',
-      inputSchema: {},
+        'Get the complete schema of the graph including vertex labels, edge labels, and relationship patterns. Pass vertex_labels or edge_labels to get only those labels; if the cached schema has expired, only they are analyzed again',
+      inputSchema: {
+        ...labelFilterArguments,
+        graph: graphArgument,
+      },
     },
-    () =>
-      Effect.runPromise(
+    (args: unknown) => {
+      const input = labelFilterInputSchema.parse(args);
+      const filter = toLabelFilter(input);
+      return Effect.runPromise(
         pipe(
           createToolEffect(
-            Effect.andThen(GremlinService, service => service.getSchema),
+            pipe(
+              Effect.andThen(GremlinService, service =>
+                filter ? service.getSchemaForLabels(filter) : service.getSchema
+              ),
+              withGraph(input.graph)
+            ),
             'Schema retrieval failed'
           ),
           Effect.provide(runtime)
         )
-      )
+      );
+    }
   );
 
   // Refresh Schema Cache
@@ -106,21 +213,132 @@ export function registerEffectToolHandlers(
     TOOL_NAMES.REFRESH_SCHEMA_CACHE,
     {
       title: 'Refresh Schema Cache',
-      description: 'Force an immediate refresh of the graph schema cache',
-      inputSchema: {},
+      description:
+        'Force an immediate refresh of the graph schema cache. Pass vertex_labels or edge_labels to analyze only those labels (e.g. after a migration) and merge them into the cached schema',
+      inputSchema: {
+        ...labelFilterArguments,
+        graph: graphArgument,
+      },
     },
-    () =>
-      Effect.runPromise(
+    (args: unknown) => {
+      const input = labelFilterInputSchema.parse(args);
+      const filter = toLabelFilter(input);
+      return Effect.runPromise(
         pipe(
           createStringToolEffect(
-            Effect.andThen(GremlinService, service =>
-              Effect.map(service.refreshSchemaCache, () => 'Schema cache refreshed successfully.')
+            pipe(
+              Effect.andThen(GremlinService, service =>
+                filter
+                  ? Effect.map(
+                      service.refreshSchemaCacheForLabels(filter),
+                      schema =>
+                        `Schema cache refreshed for ${schema.nodes.length} vertex labels and ${schema.relationships.length} edge labels.`
+                    )
+                  : Effect.map(
+                      service.refreshSchemaCache,
+                      () => 'Schema cache refreshed successfully.'
+                    )
+              ),
+              withGraph(input.graph)
             ),
             'Failed to refresh schema'
           ),
           Effect.provide(runtime)
         )
-      )
+      );
+    }
+  );
+
+  // Diff Graph Schema
+  server.registerTool(
+    TOOL_NAMES.DIFF_GRAPH_SCHEMA,
+    {
+      title: 'Diff Graph Schema',
+      description:
+        'Compare the current graph schema with an earlier snapshot to catch data model drift: added or removed labels, properties and relationship patterns, property type and enum value changes, and significant count changes',
+      inputSchema: {
+        baseline: z
+          .enum(['cached', 'persisted', 'provided'])
+          .optional()
+          .describe(
+            'Snapshot to compare with: "cached" compares the cached schema with a freshly generated one, "persisted" uses the schema in GREMLIN_SCHEMA_CACHE_DIR, "provided" uses baseline_schema (default: "provided" when baseline_schema is given, "cached" otherwise)'
+          ),
+        baseline_schema: GraphSchemaSchema.optional().describe(
+          'Earlier schema, as returned by get_graph_schema'
+        ),
+        refresh: z
+          .boolean()
+          .optional()
+          .describe(
+            'Regenerate the current schema instead of using the cached one; always done for the "cached" and "persisted" baselines (default: false)'
+          ),
+        count_change_threshold: z
+          .number()
+          .min(0)
+          .optional()
+          .describe(
+            `Smallest relative count change reported, e.g. 0.1 for 10% (default: ${SCHEMA_DIFF.COUNT_CHANGE_THRESHOLD})`
+          ),
+        graph: graphArgument,
+      },
+    },
+    (args: unknown) => {
+      const { baseline_schema, refresh, count_change_threshold, graph, ...input } =
+        diffInputSchema.parse(args);
+      const baseline = input.baseline ?? (baseline_schema ? 'provided' : 'cached');
+
+      const diff = Effect.gen(function* () {
+        const service = yield* GremlinService;
+
+        if ((baseline === 'provided') !== (baseline_schema !== undefined)) {
+          return yield* Effect.fail(
+            Errors.schema(
+              'baseline_schema must be given exactly when baseline is "provided"',
+              TOOL_NAMES.DIFF_GRAPH_SCHEMA,
+              { code: ERROR_CODES.INVALID_ARGUMENTS }
+            )
+          );
+        }
+
+        const snapshot = {
+          cached: service.getCachedSchema,
+          persisted: service.getPersistedSchema,
+          provided: Effect.succeed(baseline_schema ?? null),
+        }[baseline];
+        const previous = yield* snapshot;
+        if (!previous) {
+          return yield* Effect.fail(
+            Errors.schema(
+              baseline === 'cached'
+                ? 'No schema is cached yet; run get_graph_schema first'
+                : 'No persisted schema found; is GREMLIN_SCHEMA_CACHE_DIR set?',
+              TOOL_NAMES.DIFF_GRAPH_SCHEMA,
+              { code: ERROR_CODES.NOT_FOUND }
+            )
+          );
+        }
+
+        // Cached and persisted snapshots match the last generation, so compare with a new one
+        if (refresh || baseline !== 'provided') {
+          yield* service.refreshSchemaCache;
+        }
+        const current = yield* service.getSchema;
+
+        return {
+          baseline,
+          ...diffGraphSchemas(previous, current, {
+            countChangeThreshold: count_change_threshold,
+          }),
+        };
+      });
+
+      return Effect.runPromise(
+        pipe(
+          createToolEffect(pipe(diff, withGraph(graph)), 'Schema comparison failed'),
+          Effect.provide(runtime)
+        )
+      );
+    }
   );
 
   // Run Gremlin Query
@@ -128,55 +346,169 @@ export function registerEffectToolHandlers(
     TOOL_NAMES.RUN_GREMLIN_QUERY,
     {
       title: 'Run Gremlin Query',
-      description: 'Execute a Gremlin traversal query against the graph database',
+      description:
+        'Execute a Gremlin traversal query against the graph database. Pass user-supplied values as bindings and reference them by name in the query, e.g. g.V().has("name", name) with bindings {"name": "marko"}. Large results are truncated; pass the returned cursor with the same query to fetch the next page',
       inputSchema: {
         query: z.string().describe('The Gremlin query to execute'),
+        bindings: GremlinBindingsSchema.optional().describe(
+          'Values for the variables used in the query, keyed by variable name'
+        ),
+        timeout_ms: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            `Time limit for the query in milliseconds (default: ${config.gremlin.queryTimeoutMs})`
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            'Cursor from a truncated result; fetches the next page of the same query without running it again'
+          ),
+        graph: graphArgument,
       },
     },
     (args: unknown) => {
-      const { query } = z.object({ query: z.string() }).parse(args);
-      return Effect.runPromise(pipe(createQueryEffect(query), Effect.provide(runtime)));
+      const { query, bindings, timeout_ms, cursor, graph } = queryInputSchema.parse(args);
+      return Effect.runPromise(
+        pipe(createQueryEffect(query, graph, bindings, timeout_ms, cursor), Effect.provide(runtime))
+      );
     }
   );
 
-  // Import Graph Data
+  // Re-run a query from the history
   server.registerTool(
-    TOOL_NAMES.IMPORT_GRAPH_DATA,
+    TOOL_NAMES.RERUN_QUERY,
     {
-      title: 'Import Graph Data',
-      description: 'Import graph data from various formats including GraphSON and CSV',
+      title: 'Re-run Query',
+      description:
+        'Run a query from the query history (gremlin://history) again, with its original bindings and graph',
       inputSchema: {
-        format: z.enum(['graphson', 'csv']).describe('The format of the data to import'),
-        data: z.string().describe('The data content to import'),
-        options: z
-          .object({
-            batch_size: z.number().optional().describe('Number of operations per batch'),
-            clear_graph: z
-              .boolean()
-              .optional()
-              .describe('Whether to clear the graph before importing'),
-            validate_schema: z
-              .boolean()
-              .optional()
-              .describe('Whether to validate against existing schema'),
-          })
+        id: z.number().int().positive().describe('Id of the query in the history'),
+        timeout_ms: z
+          .number()
+          .int()
+          .positive()
           .optional()
-          .describe('Import options'),
+          .describe(
+            `Time limit for the query in milliseconds (default: ${config.gremlin.queryTimeoutMs})`
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe('Cursor from a truncated result of this query; fetches the next page'),
       },
     },
-    (args: unknown) =>
-      Effect.runPromise(
+    (args: unknown) => {
+      const { id, timeout_ms, cursor } = rerunInputSchema.parse(args);
+      return Effect.runPromise(
         pipe(
-          createValidatedToolEffect(
-            importInputSchema,
-            input => Effect.andThen(GremlinService, service => importGraphData(service, input)),
-            'Import Graph Data'
-          )(args),
+          Effect.andThen(QueryHistory, history => history.get(id)),
+          Effect.andThen(entry =>
+            createQueryEffect(entry.query, entry.graph, entry.bindings, timeout_ms, cursor)
+          ),
+          Effect.catchAll(error => Effect.succeed(createErrorResponse(error))),
           Effect.provide(runtime)
         )
-      )
+      );
+    }
+  );
+
+  // Profile Gremlin Query
+  server.registerTool(
+    TOOL_NAMES.PROFILE_GREMLIN_QUERY,
+    {
+      title: 'Profile Gremlin Query',
+      description:
+        'Find out why a traversal is slow. "profile" runs it with .profile() and reports traversers, count, duration and share of time per step; "explain" shows how the server\'s strategies rewrite it without running it',
+      inputSchema: {
+        query: z.string().describe('The Gremlin traversal to profile, without a terminal step'),
+        mode: z
+          .enum(['profile', 'explain'])
+          .optional()
+          .describe('profile (default) executes the traversal; explain only plans it'),
+        bindings: GremlinBindingsSchema.optional().describe(
+          'Values for the variables used in the query, keyed by variable name'
+        ),
+        timeout_ms: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            `Time limit for the query in milliseconds (default: ${config.gremlin.queryTimeoutMs})`
+          ),
+        graph: graphArgument,
+      },
+    },
+    (args: unknown) => {
+      const { query, mode, bindings, timeout_ms, graph } = profileInputSchema.parse(args);
+      return Effect.runPromise(
+        pipe(
+          createToolEffect(
+            pipe(
+              Effect.andThen(GremlinService, service =>
+                mode === 'explain'
+                  ? service.explainQuery(query, bindings, timeout_ms)
+                  : service.profileQuery(query, bindings, timeout_ms)
+              ),
+              withGraph(graph)
+            ),
+            'Query profiling failed'
+          ),
+          Effect.provide(runtime)
+        )
+      );
+    }
   );
 
+  // Import Graph Data (writes to the graph, so unavailable in read-only mode)
+  if (!config.gremlin.readOnly) {
+    server.registerTool(
+      TOOL_NAMES.IMPORT_GRAPH_DATA,
+      {
+        title: 'Import Graph Data',
+        description: 'Import graph data from various formats including GraphSON and CSV',
+        inputSchema: {
+          format: z.enum(['graphson', 'csv']).describe('The format of the data to import'),
+          data: z.string().describe('The data content to import'),
+          options: z
+            .object({
+              batch_size: z.number().optional().describe('Number of operations per batch'),
+              clear_graph: z
+                .boolean()
+                .optional()
+                .describe('Whether to clear the graph before importing'),
+              validate_schema: z
+                .boolean()
+                .optional()
+                .describe('Whether to validate against existing schema'),
+            })
+            .optional()
+            .describe('Import options'),
+          graph: graphArgument,
+        },
+      },
+      (args: unknown) =>
+        Effect.runPromise(
+          pipe(
+            createValidatedToolEffect(
+              importInputSchema,
+              input =>
+                pipe(
+                  Effect.andThen(GremlinService, service => importGraphData(service, input)),
+                  withGraph(input.graph)
+                ),
+              'Import Graph Data'
+            )(args),
+            Effect.provide(runtime)
+          )
+        )
+    );
+  }
+
   // Export Subgraph
   server.registerTool(
     TOOL_NAMES.EXPORT_SUBGRAPH,
@@ -197,6 +529,7 @@ export function registerEffectToolHandlers(
           .array(z.string())
           .optional()
           .describe('Properties to exclude from the export'),
+        graph: graphArgument,
       },
     },
     (args: unknown) =>
@@ -204,7 +537,11 @@ export function registerEffectToolHandlers(
         pipe(
           createValidatedToolEffect(
             exportInputSchema,
-            input => Effect.andThen(GremlinService, service => exportSubgraph(service, input)),
+            input =>
+              pipe(
+                Effect.andThen(GremlinService, service => exportSubgraph(service, input)),
+                withGraph(input.graph)
+              ),
             'Export Subgraph'
           )(args),
           Effect.provide(runtime)
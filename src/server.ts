@@ -10,28 +10,40 @@
  * Built with Effect-ts for functional composition and error handling.
  */
 
-import { Effect, Layer, pipe, LogLevel, Logger, Context, Fiber } from 'effect';
+import { Effect, Layer, pipe, LogLevel, Logger, Context, Fiber, Option, type Scope } from 'effect';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 import { AppConfig, type AppConfigType } from './config.js';
-import { GremlinService, GremlinServiceLive } from './gremlin/service.js';
-import { GremlinClientLive } from './gremlin/connection.js';
-import { SchemaServiceLive } from './gremlin/schema.js';
+import type { GremlinService } from './gremlin/service.js';
+import {
+  type GraphRegistry,
+  GraphRegistryLive,
+  PrimaryGremlinServiceLive,
+} from './gremlin/graphs.js';
+import { type ResultCursors, ResultCursorsLive } from './gremlin/result-cursors.js';
+import { type QueryHistory, QueryHistoryLive } from './gremlin/query-history.js';
 import { registerEffectToolHandlers } from './handlers/tools.js';
 import { registerEffectResourceHandlers } from './handlers/resources.js';
+import { registerEffectPromptHandlers } from './handlers/prompts.js';
+import { registerSavedQueryTools } from './handlers/saved-queries.js';
+import { loadSavedQueries } from './gremlin/saved-queries.js';
 import { Errors } from './errors.js';
+import { startHttpTransport } from './transports/http.js';
+import { startSseTransport } from './transports/sse.js';
 
 /**
  * Service tag for the MCP server instance using Effect 3.x Context.Tag pattern.
  *
  * Provides server lifecycle management including start/stop operations.
+ * `start` is scoped so transports that own resources (such as an HTTP listener)
+ * are released when the application scope closes.
  */
 class McpServerService extends Context.Tag('McpServerService')<
   McpServerService,
   {
-    readonly server: McpServer;
-    readonly start: Effect.Effect<void, Error>;
+    readonly createServer: () => McpServer;
+    readonly start: Effect.Effect<void, Error, Scope.Scope>;
     readonly stop: Effect.Effect<void, never>;
   }
 >() {}
@@ -39,68 +51,108 @@ class McpServerService extends Context.Tag('McpServerService')<
 /**
  * Creates the MCP server service implementation.
  *
- * @returns Effect that provides MCP server with registered handlers
+ * @returns Effect that provides an MCP server factory and transport lifecycle
  *
  * Side effects:
- * - Creates MCP server instance
- * - Registers tool and resource handlers
- * - Sets up managed runtime for dependency injection
- * - Configures finalizers for cleanup
+ * - Loads the saved query library, failing startup when it is invalid
+ * - Captures the managed runtime for dependency injection
+ * - Creates MCP server instances with registered tool, resource and prompt handlers
+ * - Starts the configured transport (STDIO, Streamable HTTP, or legacy SSE)
  */
 const makeMcpServerService = Effect.gen(function* () {
   const config = yield* AppConfig;
 
-  // Create MCP server instance
-  const server = new McpServer({
-    name: config.server.name,
-    version: config.server.version,
-  });
-
-  yield* Effect.logInfo('✅ MCP Server instance created', {
-    service: 'gremlin-mcp',
-    name: config.server.name,
-    version: config.server.version,
+  const savedQueries = yield* Option.match(config.savedQueries.file, {
+    onNone: () => Effect.succeed([]),
+    onSome: file =>
+      pipe(
+        loadSavedQueries(
+          file,
+          config.graphs.map(graph => graph.name)
+        ),
+        Effect.tap(queries =>
+          Effect.logInfo(`📚 Loaded ${queries.length} saved queries`, { service: 'gremlin-mcp' })
+        )
+      ),
   });
 
   // Create runtime for handlers from the current context
-  const runtime = yield* Effect.runtime<GremlinService>();
+  const runtime = yield* Effect.runtime<
+    GremlinService | GraphRegistry | ResultCursors | QueryHistory
+  >();
+
+  /**
+   * Creates an MCP server instance with all handlers registered.
+   * STDIO uses a single instance; HTTP and SSE create one per client session,
+   * all sharing the same runtime and therefore the same graph services.
+   */
+  const createServer = (): McpServer => {
+    const server = new McpServer({
+      name: config.server.name,
+      version: config.server.version,
+    });
+
+    // Register handlers with dependency injection
+    registerEffectToolHandlers(server, runtime, config);
+    registerSavedQueryTools(server, runtime, savedQueries, config);
+    registerEffectResourceHandlers(server, runtime);
+    registerEffectPromptHandlers(server, runtime);
+
+    return server;
+  };
 
-  // Register handlers with dependency injection
-  registerEffectToolHandlers(server, runtime);
-  registerEffectResourceHandlers(server, runtime);
+  /**
+   * Connects a single MCP server to the STDIO transport.
+   */
+  const startStdio = Effect.gen(function* () {
+    yield* Effect.logInfo('🔌 Creating STDIO transport...', { service: 'gremlin-mcp' });
 
-  yield* Effect.logInfo('✅ Handlers registered successfully', {
-    service: 'gremlin-mcp',
+    const server = createServer();
+    const transport = new StdioServerTransport();
+
+    yield* Effect.logInfo('🔗 Connecting server to transport...', { service: 'gremlin-mcp' });
+
+    yield* pipe(
+      Effect.tryPromise(() => server.connect(transport)),
+      Effect.mapError(error =>
+        Errors.connection('Server connection failed', {
+          error_type: error instanceof Error ? error.constructor.name : typeof error,
+          error_message: error instanceof Error ? error.message : String(error),
+        })
+      )
+    );
   });
 
   return {
-    server,
+    createServer,
     start: Effect.gen(function* () {
-      yield* Effect.logInfo('🔌 Creating STDIO transport...', { service: 'gremlin-mcp' });
-
-      const transport = new StdioServerTransport();
+      switch (config.transport.type) {
+        case 'http':
+          yield* Effect.logInfo('🔌 Creating Streamable HTTP transport...', {
+            service: 'gremlin-mcp',
+          });
+          yield* startHttpTransport(createServer, config.transport);
+          break;
 
-      yield* Effect.logInfo('🔗 Connecting server to transport...', { service: 'gremlin-mcp' });
+        case 'sse':
+          yield* Effect.logInfo('🔌 Creating SSE transport...', { service: 'gremlin-mcp' });
+          yield* startSseTransport(createServer, config.transport);
+          break;
 
-      yield* pipe(
-        Effect.tryPromise(() => server.connect(transport)),
-        Effect.mapError(error =>
-          Errors.connection('Server connection failed', {
-            error_type: error instanceof Error ? error.constructor.name : typeof error,
-            error_message: error instanceof Error ? error.message : String(error),
-          })
-        )
-      );
+        default:
+          yield* startStdio;
+      }
 
       yield* Effect.logInfo('✅ Gremlin MCP Server started successfully', {
         service: 'gremlin-mcp',
+        transport: config.transport.type,
         pid: process.pid,
         ready: true,
       });
     }),
     stop: Effect.gen(function* () {
       yield* Effect.logInfo('🛑 Stopping MCP Server...', { service: 'gremlin-mcp' });
-      // Server cleanup would go here if needed
+      // Transport resources are released by their own scope finalizers
     }),
   };
 });
@@ -110,11 +162,11 @@ const McpServerServiceLive = Layer.effect(McpServerService, makeMcpServerService
 /**
  * Layer composition providing all application dependencies.
  */
-const GremlinLayer = Layer.provide(GremlinServiceLive, SchemaServiceLive);
-const AppLayer = Layer.provide(
-  McpServerServiceLive,
-  Layer.provide(GremlinLayer, GremlinClientLive)
+const GraphLayer = Layer.provideMerge(
+  Layer.provideMerge(PrimaryGremlinServiceLive, GraphRegistryLive),
+  QueryHistoryLive
 );
+const AppLayer = Layer.provide(McpServerServiceLive, Layer.merge(GraphLayer, ResultCursorsLive));
 
 /**
  * Main application Effect.
@@ -283,9 +335,31 @@ const main = Effect.gen(function* () {
         host: config.gremlin.host,
         port: config.gremlin.port,
         use_ssl: config.gremlin.useSSL,
+        serializer: config.gremlin.serializer,
+        lazy_connect: config.gremlin.lazyConnect,
+        read_only: config.gremlin.readOnly,
         traversal_source: config.gremlin.traversalSource,
         idle_timeout: config.gremlin.idleTimeout,
       },
+      graphs: config.graphs.map(graph => ({
+        name: graph.name,
+        host: graph.host,
+        port: graph.port,
+        use_ssl: graph.useSSL,
+        serializer: graph.serializer,
+        traversal_source: graph.traversalSource,
+      })),
+      history: {
+        size: config.history.size,
+        file: Option.getOrUndefined(config.history.file),
+      },
+      schema_cache: {
+        ttl_ms: config.schema.cacheTtlMs,
+        stale_while_revalidate: config.schema.staleWhileRevalidate,
+        dir: Option.getOrUndefined(config.schema.cacheDir),
+        max_age_ms: config.schema.cacheMaxAgeMs,
+      },
+      transport: config.transport,
       logging: {
         level: config.logging.level,
       },
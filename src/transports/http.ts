@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Streamable HTTP transport for serving multiple MCP clients.
+ *
+ * Runs a Node HTTP server that implements the MCP Streamable HTTP transport.
+ * Every client session gets its own `McpServer` instance (created through the
+ * supplied factory) while all sessions share the same Effect runtime and
+ * therefore the same `GremlinService` layer. Sessions end when the client sends
+ * `DELETE`, or after a configurable time without requests or open streams.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Duration, Effect, Runtime, Schedule, type Scope, pipe } from 'effect';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { HTTP_TRANSPORT } from '../constants.js';
+import type { GremlinConnectionError } from '../errors.js';
+import type { AppConfigType } from '../config.js';
+import {
+  HttpRequestError,
+  readJsonBody,
+  requestPathname,
+  serveHttp,
+  writeJsonRpcError,
+  writeRequestFailure,
+} from '../utils/http.js';
+
+type TransportConfig = AppConfigType['transport'];
+
+/**
+ * An active Streamable HTTP session.
+ */
+interface HttpSession {
+  readonly server: McpServer;
+  readonly transport: StreamableHTTPServerTransport;
+  readonly activity: SessionActivity;
+}
+
+/**
+ * When a session was last used, and how many of its requests are still open
+ * (an event stream stays open for as long as the client listens).
+ */
+interface SessionActivity {
+  lastActiveAt: number;
+  openRequests: number;
+}
+
+/**
+ * Answers a request for an unknown or expired session with 404, which tells
+ * clients to start a new session.
+ */
+const writeSessionNotFound = (res: ServerResponse): void =>
+  writeJsonRpcError(res, 404, 'Session not found', -32001);
+
+/**
+ * Starts the Streamable HTTP transport.
+ *
+ * @param createMcpServer - Factory producing a fully registered MCP server per session
+ * @param config - Transport configuration (host, port, path, session idle timeout)
+ * @returns Scoped Effect that listens until the scope closes, then closes all sessions
+ */
+export const startHttpTransport = (
+  createMcpServer: () => McpServer,
+  config: TransportConfig
+): Effect.Effect<void, GremlinConnectionError, Scope.Scope> =>
+  Effect.gen(function* () {
+    const runtime = yield* Effect.runtime<never>();
+    const runFork = Runtime.runFork(runtime);
+    const sessions = new Map<string, HttpSession>();
+
+    /**
+     * Creates a new session for an initialize request and wires up its cleanup.
+     */
+    const createSession = async (): Promise<StreamableHTTPServerTransport> => {
+      const server = createMcpServer();
+      const activity: SessionActivity = { lastActiveAt: Date.now(), openRequests: 0 };
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: sessionId => {
+          sessions.set(sessionId, { server, transport, activity });
+          runFork(
+            Effect.logInfo('MCP HTTP session initialized', {
+              sessionId,
+              activeSessions: sessions.size,
+            })
+          );
+        },
+      });
+
+      transport.onclose = () => {
+        const sessionId = transport.sessionId;
+        if (sessionId && sessions.delete(sessionId)) {
+          runFork(
+            Effect.logInfo('MCP HTTP session closed', {
+              sessionId,
+              activeSessions: sessions.size,
+            })
+          );
+        }
+      };
+
+      await server.connect(transport);
+      return transport;
+    };
+
+    /**
+     * Marks a session as used until the response to one of its requests ends.
+     */
+    const trackActivity = ({ activity }: HttpSession, res: ServerResponse): void => {
+      activity.openRequests++;
+      activity.lastActiveAt = Date.now();
+      res.once('close', () => {
+        activity.openRequests--;
+        activity.lastActiveAt = Date.now();
+      });
+    };
+
+    /**
+     * Closes sessions without open requests that have been unused for the idle timeout.
+     */
+    const closeIdleSessions = Effect.suspend(() => {
+      const idleSince = Date.now() - config.sessionIdleTimeoutMs;
+      const idle = Array.from(sessions).filter(
+        ([, { activity }]) => activity.openRequests === 0 && activity.lastActiveAt <= idleSince
+      );
+
+      return Effect.forEach(
+        idle,
+        ([sessionId, { server }]) =>
+          pipe(
+            Effect.logInfo('Closing idle MCP HTTP session', { sessionId }),
+            Effect.zipRight(Effect.promise(() => server.close().catch(() => undefined)))
+          ),
+        { discard: true }
+      );
+    });
+
+    /**
+     * Routes a request on the MCP path to the matching session transport.
+     */
+    const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+      const sessionHeader = req.headers[HTTP_TRANSPORT.SESSION_HEADER];
+      const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (req.method === 'POST') {
+        const body = await readJsonBody(req);
+
+        if (existing) {
+          trackActivity(existing, res);
+          return existing.transport.handleRequest(req, res, body);
+        }
+        if (sessionId) {
+          return writeSessionNotFound(res);
+        }
+        if (isInitializeRequest(body)) {
+          const transport = await createSession();
+          return transport.handleRequest(req, res, body);
+        }
+        return writeJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      }
+
+      if (req.method === 'GET' || req.method === 'DELETE') {
+        if (sessionId && !existing) {
+          return writeSessionNotFound(res);
+        }
+        if (!existing) {
+          return writeJsonRpcError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+        }
+        trackActivity(existing, res);
+        return existing.transport.handleRequest(req, res);
+      }
+
+      return writeJsonRpcError(res, 405, 'Method not allowed');
+    };
+
+    yield* serveHttp(
+      (req, res) => {
+        if (requestPathname(req) !== config.path) {
+          writeJsonRpcError(res, 404, 'Not Found');
+          return;
+        }
+
+        handleMcpRequest(req, res).catch((error: unknown) => {
+          const details = {
+            method: req.method,
+            error: error instanceof Error ? error.message : String(error),
+          };
+          runFork(
+            error instanceof HttpRequestError
+              ? Effect.logWarning('MCP HTTP request rejected', details)
+              : Effect.logError('MCP HTTP request failed', details)
+          );
+          writeRequestFailure(req, res, error);
+        });
+      },
+      config.host,
+      config.port
+    );
+
+    if (config.sessionIdleTimeoutMs > 0) {
+      yield* Effect.forkScoped(
+        Effect.repeat(
+          closeIdleSessions,
+          Schedule.spaced(
+            Duration.millis(
+              Math.min(config.sessionIdleTimeoutMs, HTTP_TRANSPORT.SESSION_SWEEP_INTERVAL_MS)
+            )
+          )
+        )
+      );
+    }
+
+    // Registered after the listener so sessions close before the HTTP server stops
+    yield* Effect.addFinalizer(() =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo('Closing MCP HTTP sessions', { activeSessions: sessions.size });
+        // Forgotten first, so closing a server does not try to close it again
+        const open = Array.from(sessions.values());
+        sessions.clear();
+        yield* Effect.promise(() => Promise.allSettled(open.map(({ server }) => server.close())));
+      })
+    );
+
+    yield* Effect.logInfo('✅ MCP Streamable HTTP transport listening', {
+      service: 'gremlin-mcp',
+      url: `http://${config.host}:${config.port}${config.path}`,
+    });
+  });
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Legacy HTTP+SSE transport for older MCP clients.
+ *
+ * Implements the deprecated HTTP+SSE MCP transport: clients open a long-lived
+ * event stream with `GET <path>` and send JSON-RPC messages with
+ * `POST <messagesPath>?sessionId=...`. Each stream gets its own `McpServer`
+ * instance, all sharing the same Effect runtime and `GremlinService` layer.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Effect, Runtime, type Scope } from 'effect';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { GremlinConnectionError } from '../errors.js';
+import type { AppConfigType } from '../config.js';
+import {
+  HttpRequestError,
+  readJsonBody,
+  requestPathname,
+  serveHttp,
+  writeJsonRpcError,
+  writeRequestFailure,
+} from '../utils/http.js';
+
+type TransportConfig = AppConfigType['transport'];
+
+/**
+ * An active SSE connection.
+ */
+interface SseSession {
+  readonly server: McpServer;
+  readonly transport: SSEServerTransport;
+}
+
+/**
+ * Starts the legacy HTTP+SSE transport.
+ *
+ * @param createMcpServer - Factory producing a fully registered MCP server per connection
+ * @param config - Transport configuration (host, port, stream path, messages path)
+ * @returns Scoped Effect that listens until the scope closes, then closes all connections
+ */
+export const startSseTransport = (
+  createMcpServer: () => McpServer,
+  config: TransportConfig
+): Effect.Effect<void, GremlinConnectionError, Scope.Scope> =>
+  Effect.gen(function* () {
+    const runtime = yield* Effect.runtime<never>();
+    const runFork = Runtime.runFork(runtime);
+    const sessions = new Map<string, SseSession>();
+
+    /**
+     * Opens an event stream and connects a new MCP server to it.
+     * The session is removed and its server closed when the client disconnects.
+     */
+    const openStream = async (res: ServerResponse): Promise<void> => {
+      const server = createMcpServer();
+      const transport = new SSEServerTransport(config.messagesPath, res);
+      const sessionId = transport.sessionId;
+
+      sessions.set(sessionId, { server, transport });
+      transport.onclose = () => {
+        if (sessions.delete(sessionId)) {
+          runFork(
+            Effect.logInfo('MCP SSE connection closed', {
+              sessionId,
+              activeSessions: sessions.size,
+            })
+          );
+          server.close().catch(() => undefined);
+        }
+      };
+
+      await server.connect(transport);
+
+      runFork(
+        Effect.logInfo('MCP SSE connection opened', {
+          sessionId,
+          activeSessions: sessions.size,
+        })
+      );
+    };
+
+    /**
+     * Delivers a client message to the session named in the query string.
+     */
+    const postMessage = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+      const sessionId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('sessionId');
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (!session) {
+        return writeJsonRpcError(res, 404, 'Session not found');
+      }
+
+      const body = await readJsonBody(req);
+      await session.transport.handlePostMessage(req, res, body);
+    };
+
+    const handleRequest = (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+      const pathname = requestPathname(req);
+
+      if (pathname === config.path && req.method === 'GET') {
+        return openStream(res);
+      }
+      if (pathname === config.messagesPath && req.method === 'POST') {
+        return postMessage(req, res);
+      }
+      if (pathname === config.path || pathname === config.messagesPath) {
+        return Promise.resolve(writeJsonRpcError(res, 405, 'Method not allowed'));
+      }
+      return Promise.resolve(writeJsonRpcError(res, 404, 'Not Found'));
+    };
+
+    yield* serveHttp(
+      (req, res) => {
+        handleRequest(req, res).catch((error: unknown) => {
+          const details = {
+            method: req.method,
+            error: error instanceof Error ? error.message : String(error),
+          };
+          runFork(
+            error instanceof HttpRequestError
+              ? Effect.logWarning('MCP SSE request rejected', details)
+              : Effect.logError('MCP SSE request failed', details)
+          );
+          writeRequestFailure(req, res, error);
+        });
+      },
+      config.host,
+      config.port
+    );
+
+    // Registered after the listener so connections close before the HTTP server stops
+    yield* Effect.addFinalizer(() =>
+      Effect.gen(function* () {
+        yield* Effect.logInfo('Closing MCP SSE connections', { activeSessions: sessions.size });
+        // Forgotten first, so closing a server does not try to close it again
+        const open = Array.from(sessions.values());
+        sessions.clear();
+        yield* Effect.promise(() => Promise.allSettled(open.map(({ server }) => server.close())));
+      })
+    );
+
+    yield* Effect.logInfo('✅ MCP SSE transport listening', {
+      service: 'gremlin-mcp',
+      streamUrl: `http://${config.host}:${config.port}${config.path}`,
+      messagesUrl: `http://${config.host}:${config.port}${config.messagesPath}`,
+    });
+  });
@@ -0,0 +1,148 @@
+/**
+ * AWS Signature Version 4 signing for the Gremlin websocket handshake.
+ *
+ * Implements the subset of SigV4 needed to authenticate against Amazon Neptune
+ * clusters with IAM database authentication: a header-signed request with an
+ * empty payload. Pure and deterministic for a given clock and credentials.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import { AWS_IAM } from '../constants.js';
+
+/**
+ * AWS credentials used to sign requests.
+ */
+export interface AwsCredentials {
+  readonly accessKeyId: string;
+  readonly secretAccessKey: string;
+  readonly sessionToken?: string;
+  readonly expiration?: Date;
+}
+
+/**
+ * The parts of an HTTP request covered by the signature.
+ */
+export interface SignableRequest {
+  readonly method: string;
+  /** Host header value, including the port when it is not the scheme default */
+  readonly host: string;
+  readonly path: string;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly body?: string;
+}
+
+/**
+ * Where, as whom and when a request is signed.
+ */
+export interface SigningParams {
+  readonly service: string;
+  readonly region: string;
+  readonly credentials: AwsCredentials;
+  readonly now: Date;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+const sha256Hex = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+const hmac = (key: string | Buffer, value: string): Buffer =>
+  createHmac('sha256', key).update(value).digest();
+
+/**
+ * Formats a date as the SigV4 timestamp (`YYYYMMDDTHHMMSSZ`).
+ */
+const toAmzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+/**
+ * URI-encodes each path segment as required for the canonical request.
+ */
+const canonicalPath = (path: string): string =>
+  path
+    .split('/')
+    .map(segment =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join('/') || '/';
+
+/**
+ * Signs a request and returns the headers to send with it.
+ *
+ * The result contains the request headers plus `Host`, `X-Amz-Date`,
+ * `X-Amz-Security-Token` (for temporary credentials) and `Authorization`.
+ *
+ * @param request - Request to sign
+ * @param params - Service, region, credentials and signing time
+ * @returns Headers carrying the signature
+ */
+export const signRequest = (
+  request: SignableRequest,
+  params: SigningParams
+): Record<string, string> => {
+  const amzDate = toAmzDate(params.now);
+  const dateStamp = amzDate.slice(0, 8);
+  const { credentials } = params;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    Host: request.host,
+    'X-Amz-Date': amzDate,
+    ...(credentials.sessionToken ? { 'X-Amz-Security-Token': credentials.sessionToken } : {}),
+  };
+
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(request.path),
+    '',
+    ...canonicalHeaders.map(([name, value]) => `${name}:${value}`),
+    '',
+    signedHeaders,
+    sha256Hex(request.body ?? ''),
+  ].join('\n');
+
+  const scope = `${dateStamp}/${params.region}/${params.service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(
+      hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), params.region),
+      params.service
+    ),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    Authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+/**
+ * Signs the websocket handshake for a Neptune Gremlin endpoint.
+ *
+ * @param host - Neptune cluster host
+ * @param port - Neptune port
+ * @param region - AWS region of the cluster
+ * @param credentials - Credentials of the IAM principal
+ * @param now - Signing time
+ * @returns Headers to pass to the Gremlin driver
+ */
+export const signNeptuneHandshake = (
+  host: string,
+  port: number,
+  region: string,
+  credentials: AwsCredentials,
+  now: Date = new Date()
+): Record<string, string> =>
+  signRequest(
+    { method: 'GET', host: `${host}:${port}`, path: AWS_IAM.GREMLIN_PATH },
+    { service: AWS_IAM.SERVICE, region, credentials, now }
+  );
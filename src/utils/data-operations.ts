@@ -15,6 +15,7 @@ import {
   GremlinConnectionError,
   GremlinQueryError,
   ParseError,
+  TimeoutError,
 } from '../errors.js';
 
 /**
@@ -40,7 +41,10 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 export const importGraphData = (
   service: typeof GremlinService.Service,
   input: ImportDataInput
-): Effect.Effect<string, ResourceError | GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<
+  string,
+  ResourceError | GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError
+> =>
   Effect.gen(function* () {
     yield* Effect.logInfo(
       `Starting import operation: format=${input.format}, size=${input.data.length} chars`
@@ -77,7 +81,10 @@ export const importGraphData = (
 export const exportSubgraph = (
   service: typeof GremlinService.Service,
   input: ExportSubgraphInput
-): Effect.Effect<string, ResourceError | GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<
+  string,
+  ResourceError | GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError
+> =>
   Effect.gen(function* () {
     yield* Effect.logInfo(
       `Starting export operation: format=${input.format}, query=${input.traversal_query}`
@@ -109,7 +116,7 @@ export const exportSubgraph = (
 const clearGraphIfRequested = (
   service: typeof GremlinService.Service,
   shouldClear: boolean | undefined
-): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError> =>
   shouldClear
     ? Effect.gen(function* () {
         yield* service.executeQuery('g.V().drop()');
@@ -124,7 +131,7 @@ const clearGraphIfRequested = (
 const importVertices = (
   service: typeof GremlinService.Service,
   vertices: unknown[]
-): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError> =>
   Effect.gen(function* () {
     for (const vertex of vertices) {
       const query = buildVertexInsertQuery(vertex as Record<string, unknown>);
@@ -139,7 +146,7 @@ const importVertices = (
 const importEdges = (
   service: typeof GremlinService.Service,
   edges: unknown[]
-): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError> =>
   Effect.gen(function* () {
     for (const edge of edges) {
       const query = buildEdgeInsertQuery(edge as Record<string, unknown>);
@@ -171,7 +178,10 @@ const parseGraphSONData = (
 const importGraphSON = (
   service: typeof GremlinService.Service,
   input: ImportDataInput
-): Effect.Effect<string, ResourceError | GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<
+  string,
+  ResourceError | GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError
+> =>
   Effect.gen(function* () {
     const data = yield* parseGraphSONData(input.data);
 
@@ -213,7 +223,10 @@ const parseCSVData = (
 const importCSV = (
   service: typeof GremlinService.Service,
   input: ImportDataInput
-): Effect.Effect<string, ResourceError | GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<
+  string,
+  ResourceError | GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError
+> =>
   Effect.gen(function* () {
     const { headers, dataRows } = yield* parseCSVData(input.data);
 
@@ -243,7 +256,7 @@ const importCSVVertices = (
   service: typeof GremlinService.Service,
   dataRows: string[],
   headers: string[]
-): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError> =>
+): Effect.Effect<void, GremlinConnectionError | GremlinQueryError | ParseError | TimeoutError> =>
   Effect.gen(function* () {
     for (const row of dataRows) {
       const properties = processCSVRow(row, headers);
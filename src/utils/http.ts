@@ -0,0 +1,176 @@
+/**
+ * Helpers shared by the HTTP-based MCP transports.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { Effect, type Scope } from 'effect';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { HTTP_TRANSPORT } from '../constants.js';
+import { Errors, type GremlinConnectionError } from '../errors.js';
+
+/**
+ * A request rejected before it reaches MCP, answered with its own HTTP status.
+ */
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly rpcCode: number,
+    /** Close the connection once the response is sent, e.g. to stop an oversized upload */
+    readonly closeConnection = false
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * Reads and parses a JSON request body, rejecting bodies above the configured size limit.
+ *
+ * Rejections are `HttpRequestError`s: 413 for an oversized body, whose remaining
+ * chunks are discarded, and 400 with a JSON-RPC parse error for malformed JSON.
+ *
+ * @param req - Incoming HTTP request
+ * @returns Parsed JSON value, or undefined for an empty body
+ */
+export const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      if (size > HTTP_TRANSPORT.MAX_BODY_BYTES) {
+        return;
+      }
+      size += chunk.length;
+      if (size > HTTP_TRANSPORT.MAX_BODY_BYTES) {
+        chunks.length = 0;
+        reject(
+          new HttpRequestError(
+            `Request body exceeds ${HTTP_TRANSPORT.MAX_BODY_BYTES} bytes`,
+            413,
+            ErrorCode.InvalidRequest,
+            true
+          )
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > HTTP_TRANSPORT.MAX_BODY_BYTES) {
+        return;
+      }
+      const raw = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(raw.trim() ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(
+          new HttpRequestError(
+            `Parse error: ${error instanceof Error ? error.message : String(error)}`,
+            400,
+            ErrorCode.ParseError
+          )
+        );
+      }
+    });
+    req.on('error', reject);
+  });
+
+/**
+ * Writes a JSON-RPC error response with the given HTTP status.
+ *
+ * @param res - HTTP response to write to
+ * @param status - HTTP status code
+ * @param message - Human-readable error message
+ * @param code - JSON-RPC error code
+ */
+export const writeJsonRpcError = (
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code: number = -32000
+): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    })
+  );
+};
+
+/**
+ * Answers a request whose handling failed, unless a response has already started.
+ *
+ * `HttpRequestError`s get their own status and JSON-RPC code, closing the
+ * connection afterwards when asked to; anything else is a 500.
+ *
+ * @param req - Failed HTTP request
+ * @param res - HTTP response to write to
+ * @param error - Why handling the request failed
+ */
+export const writeRequestFailure = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  error: unknown
+): void => {
+  if (res.headersSent) {
+    return;
+  }
+  if (!(error instanceof HttpRequestError)) {
+    return writeJsonRpcError(res, 500, 'Internal server error');
+  }
+  if (error.closeConnection) {
+    res.setHeader('Connection', 'close');
+    res.once('finish', () => req.destroy());
+  }
+  writeJsonRpcError(res, error.status, error.message, error.rpcCode);
+};
+
+/**
+ * Starts a Node HTTP server for the lifetime of the current scope.
+ *
+ * @param handler - Request handler
+ * @param host - Interface to listen on
+ * @param port - Port to listen on
+ * @returns Scoped Effect that completes once listening and closes the server on release
+ */
+export const serveHttp = (
+  handler: (req: IncomingMessage, res: ServerResponse) => void,
+  host: string,
+  port: number
+): Effect.Effect<void, GremlinConnectionError, Scope.Scope> => {
+  const httpServer = createServer(handler);
+
+  return Effect.acquireRelease(
+    Effect.async<void, GremlinConnectionError>(resume => {
+      const onError = (error: Error) =>
+        resume(
+          Effect.fail(
+            Errors.connection('HTTP transport failed to start', {
+              error_message: error.message,
+              host,
+              port,
+            })
+          )
+        );
+      httpServer.once('error', onError);
+      httpServer.listen(port, host, () => {
+        httpServer.off('error', onError);
+        resume(Effect.void);
+      });
+    }),
+    () =>
+      Effect.async<void>(resume => {
+        httpServer.close(() => resume(Effect.void));
+        httpServer.closeAllConnections();
+      })
+  );
+};
+
+/**
+ * Extracts the pathname from a request URL.
+ */
+export const requestPathname = (req: IncomingMessage): string =>
+  new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`).pathname;
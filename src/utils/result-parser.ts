@@ -100,6 +100,74 @@ function isRawProperty(obj: unknown): obj is RawProperty {
   return obj !== null && typeof obj === 'object' && 'value' in obj;
 }
 
+/**
+ * Extracts a property value from a driver `Property`/`VertexProperty`, a plain
+ * `{ id, value }` object (untyped GraphSON, e.g. Azure Cosmos DB) or a bare value.
+ */
+const propertyValue = (property: unknown): unknown =>
+  isRawProperty(property) ? property.value : property;
+
+/**
+ * Normalizes element properties to `{ key: [values] }` whatever the serializer.
+ *
+ * - GraphSON v2/v3: object keyed by name holding `VertexProperty` arrays (vertices)
+ *   or a single `Property` (edges)
+ * - GraphBinary: flat array of `Property`/`VertexProperty` instances
+ * - Untyped GraphSON: object keyed by name holding `{ id, value }` arrays or bare values
+ *
+ * Elements without properties yield `undefined` so that every serializer produces
+ * the same output.
+ */
+const normalizeElementProperties = (properties: unknown): Record<string, unknown[]> | undefined => {
+  const normalized: Record<string, unknown[]> = {};
+
+  if (Array.isArray(properties)) {
+    for (const property of properties) {
+      if (isRawProperty(property)) {
+        const key = property.key || property.label || '';
+        normalized[key] = [...(normalized[key] ?? []), property.value];
+      }
+    }
+  } else if (properties instanceof Map) {
+    return normalizeElementProperties(Object.fromEntries(properties.entries()));
+  } else if (properties !== null && typeof properties === 'object') {
+    for (const [key, value] of Object.entries(properties)) {
+      normalized[key] = (Array.isArray(value) ? value : [value]).map(propertyValue);
+    }
+  }
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+/**
+ * Reduces an edge endpoint to its id; typed serializers return a `Vertex`
+ * reference while untyped GraphSON returns the id itself.
+ */
+const endpointId = (endpoint: unknown): unknown =>
+  endpoint !== null && typeof endpoint === 'object' && 'id' in endpoint ? endpoint.id : endpoint;
+
+/**
+ * Builds the normalized vertex representation.
+ */
+const toVertex = (vertex: RawVertex) => ({
+  id: vertex.id,
+  label: vertex.label,
+  properties: normalizeElementProperties(vertex.properties),
+  type: 'vertex' as const,
+});
+
+/**
+ * Builds the normalized edge representation.
+ */
+const toEdge = (edge: RawEdge) => ({
+  id: edge.id,
+  label: edge.label,
+  inV: endpointId(edge.inV),
+  outV: endpointId(edge.outV),
+  properties: normalizeElementProperties(edge.properties),
+  type: 'edge' as const,
+});
+
 /**
  * Zod schema with preprocessing for raw Gremlin results.
  *
@@ -111,8 +179,9 @@ function isRawProperty(obj: unknown): obj is RawProperty {
  * 3. Adds type discriminators for schema validation
  * 4. Handles various result formats from different Gremlin implementations
  *
- * Critical for cross-driver compatibility - different Gremlin servers return
- * results in slightly different formats.
+ * Critical for cross-driver compatibility - different Gremlin servers and wire
+ * serializers (GraphSON v2, GraphSON v3, GraphBinary) return results in slightly
+ * different formats; vertices and edges come out in the same shape for all of them.
  */
 const GremlinPreprocessedResultSchema = z.preprocess((arg: unknown) => {
   // Pass through primitives and null/undefined, which Zod can handle directly.
@@ -123,11 +192,11 @@ const GremlinPreprocessedResultSchema = z.preprocess((arg: unknown) => {
   // Handle native Gremlin structure types by checking their constructor name
   // and transforming them into plain objects with a 'type' discriminator.
   if (hasConstructorName(arg, 'Vertex') && isRawVertex(arg)) {
-    return { ...arg, type: 'vertex' };
+    return toVertex(arg);
   }
 
   if (hasConstructorName(arg, 'Edge') && isRawEdge(arg)) {
-    return { ...arg, type: 'edge' };
+    return toEdge(arg);
   }
 
   if (hasConstructorName(arg, 'Path') && isRawPath(arg)) {
@@ -158,10 +227,10 @@ const GremlinPreprocessedResultSchema = z.preprocess((arg: unknown) => {
   // or a simple JSON response), add the 'type' discriminator to help Zod parse it.
   if ('id' in arg && 'label' in arg) {
     if ('properties' in arg && !('inV' in arg) && !('outV' in arg) && isRawVertex(arg)) {
-      return { ...arg, type: 'vertex' };
+      return toVertex(arg);
     }
     if ('inV' in arg && 'outV' in arg && isRawEdge(arg)) {
-      return { ...arg, type: 'edge' };
+      return toEdge(arg);
     }
   }
 
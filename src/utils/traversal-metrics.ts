@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Parsing of profile() and explain() results.
+ *
+ * The Gremlin JavaScript driver has no deserializers for `g:TraversalMetrics`,
+ * `g:Metrics` or `g:TraversalExplanation`, so it hands back their raw GraphSON
+ * values: typed wrappers (`{ "@type", "@value" }`), GraphSON 3 maps as flat
+ * key/value lists, and nested typed numbers. These are decoded to plain values
+ * before being mapped onto the structured profiling models.
+ */
+
+import { Effect } from 'effect';
+import { z } from 'zod';
+import { Errors, type ParseError } from '../errors.js';
+import type { ProfileStep, QueryExplanation, QueryProfile } from '../gremlin/models/index.js';
+
+/**
+ * Decodes a raw GraphSON (v2 or v3) value into plain JavaScript values.
+ *
+ * @param value - Value as returned by the driver for types it does not know
+ * @returns The value with typed wrappers removed and maps turned into objects
+ */
+export const decodeGraphSON = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decodeGraphSON);
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      Array.from(value, ([key, entry]) => [String(key), decodeGraphSON(entry)])
+    );
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  if ('@type' in record && '@value' in record) {
+    const inner = record['@value'];
+    if (record['@type'] === 'g:Map' && Array.isArray(inner)) {
+      const entries: [string, unknown][] = [];
+      for (let i = 0; i + 1 < inner.length; i += 2) {
+        entries.push([String(decodeGraphSON(inner[i])), decodeGraphSON(inner[i + 1])]);
+      }
+      return Object.fromEntries(entries);
+    }
+    return decodeGraphSON(inner);
+  }
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, entry]) => [key, decodeGraphSON(entry)])
+  );
+};
+
+/**
+ * Matches a trailing terminal step (or an existing profile/explain step) and statement separator.
+ */
+const TRAILING_TERMINAL_STEP =
+  /(?:\.\s*(?:toList|toSet|next|iterate|profile|explain)\(\s*\))?\s*;?\s*$/;
+
+/**
+ * Rewrites a traversal so that it is profiled or explained instead of returning results.
+ *
+ * @param query - Gremlin traversal, optionally ending in a terminal step
+ * @param mode - Step to append
+ * @returns The traversal ending in `.profile()` or `.explain()`
+ */
+export const toProfilingQuery = (query: string, mode: 'profile' | 'explain'): string =>
+  `${query.replace(TRAILING_TERMINAL_STEP, '')}.${mode}()`;
+
+interface RawMetrics {
+  name: string;
+  dur: number;
+  counts?: { traverserCount?: number; elementCount?: number } | undefined;
+  annotations?: { percentDur?: number } | undefined;
+  metrics?: RawMetrics[] | undefined;
+}
+
+const RawMetricsSchema: z.ZodType<RawMetrics> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    dur: z.number(),
+    counts: z
+      .object({ traverserCount: z.number().optional(), elementCount: z.number().optional() })
+      .optional(),
+    annotations: z.object({ percentDur: z.number().optional() }).optional(),
+    metrics: z.array(RawMetricsSchema).optional(),
+  })
+);
+
+const RawTraversalMetricsSchema = z.object({
+  dur: z.number(),
+  metrics: z.array(RawMetricsSchema),
+});
+
+const RawTraversalExplanationSchema = z.object({
+  original: z.array(z.string()),
+  intermediate: z.array(
+    z.object({
+      strategy: z.string(),
+      category: z.string(),
+      traversal: z.array(z.string()),
+    })
+  ),
+  final: z.array(z.string()),
+});
+
+/**
+ * Maps the metrics of one step, including those of its child traversals.
+ */
+const toProfileStep = (metrics: RawMetrics): ProfileStep => ({
+  step: metrics.name,
+  traversers: metrics.counts?.traverserCount ?? 0,
+  count: metrics.counts?.elementCount ?? 0,
+  duration_ms: metrics.dur,
+  percent: metrics.annotations?.percentDur ?? 0,
+  ...(metrics.metrics?.length ? { nested_steps: metrics.metrics.map(toProfileStep) } : {}),
+});
+
+/**
+ * Parses the TraversalMetrics returned by a `.profile()` traversal.
+ *
+ * @param raw - Result item returned by the driver
+ * @returns Per-step breakdown of the traversal
+ */
+export const parseTraversalMetrics = (raw: unknown): Effect.Effect<QueryProfile, ParseError> =>
+  Effect.try({
+    try: () => {
+      const metrics = RawTraversalMetricsSchema.parse(decodeGraphSON(raw));
+      return {
+        total_duration_ms: metrics.dur,
+        steps: metrics.metrics.map(toProfileStep),
+      };
+    },
+    catch: error => Errors.parse('Failed to parse traversal metrics', raw, error),
+  });
+
+/**
+ * Parses the TraversalExplanation returned by an `.explain()` traversal.
+ *
+ * @param raw - Result item returned by the driver
+ * @returns Original, intermediate and final form of the traversal
+ */
+export const parseTraversalExplanation = (
+  raw: unknown
+): Effect.Effect<QueryExplanation, ParseError> =>
+  Effect.try({
+    try: () => RawTraversalExplanationSchema.parse(decodeGraphSON(raw)),
+    catch: error => Errors.parse('Failed to parse traversal explanation', raw, error),
+  });
@@ -3,6 +3,7 @@
  */
 
 import type { driver } from 'gremlin';
+import { GREMLIN_STATUS_CODES } from '../constants.js';
 type GremlinResultSet = driver.ResultSet;
 
 /**
@@ -62,3 +63,68 @@ export function isGremlinResult(
 
   return false;
 }
+
+/**
+ * Type guard for errors returned by the Gremlin server itself (driver `ResponseError`).
+ * These carry the server status code, e.g. 597 for script evaluation errors.
+ */
+export function isServerResponseError(
+  error: unknown
+): error is Error & { statusCode: number; statusMessage?: string; statusAttributes?: unknown } {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'statusCode' in error &&
+    typeof (error as { statusCode: unknown }).statusCode === 'number'
+  );
+}
+
+/**
+ * Checks whether the server aborted a request for exceeding its evaluation timeout.
+ */
+export function isServerTimeout(error: unknown): boolean {
+  return isServerResponseError(error) && error.statusCode === GREMLIN_STATUS_CODES.SERVER_TIMEOUT;
+}
+
+/**
+ * Socket error codes meaning the server could not be reached or the connection broke.
+ */
+const CONNECTION_ERROR_CODES: ReadonlySet<string> = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+]);
+
+/**
+ * Messages of transport failures that carry no error code: the driver's closed
+ * connection, websocket handshake and state errors, and error codes embedded in text.
+ */
+const CONNECTION_ERROR_MESSAGE =
+  /connection (has been |was |is )?closed|socket hang up|websocket is not open|unexpected server response|\b(ECONNREFUSED|ECONNRESET|ECONNABORTED|ETIMEDOUT|EPIPE|EHOSTUNREACH|ENETUNREACH|ENOTFOUND|EAI_AGAIN)\b/i;
+
+/**
+ * Checks whether an error means the connection itself failed (socket closed,
+ * refused, reset or timed out) rather than the server rejecting a request.
+ *
+ * Server response errors never count, and neither do local errors such as
+ * serialization failures, so those leave a healthy connection in place. The
+ * error's `cause` is checked as well, since wrappers keep the socket error there.
+ */
+export function isConnectionFailure(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null || isServerResponseError(error)) {
+    return false;
+  }
+
+  const { code, message, cause } = error as { code?: unknown; message?: unknown; cause?: unknown };
+  return (
+    (typeof code === 'string' && CONNECTION_ERROR_CODES.has(code)) ||
+    (typeof message === 'string' && CONNECTION_ERROR_MESSAGE.test(message)) ||
+    (cause !== error && isConnectionFailure(cause))
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Tests for AWS credential resolution used by Neptune IAM authentication.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Effect, Exit, Option } from 'effect';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  credentialsFromEnv,
+  parseSharedCredentials,
+  resolveAwsCredentials,
+} from '../src/gremlin/aws-credentials.js';
+
+const credentialsFile = `
+[default]
+aws_access_key_id = DEFAULTKEY
+aws_secret_access_key = defaultsecret
+
+# Temporary credentials
+[neptune]
+aws_access_key_id=NEPTUNEKEY
+aws_secret_access_key=neptunesecret
+aws_session_token=neptunetoken
+`;
+
+const now = new Date('2024-01-15T08:30:00Z');
+
+describe('aws-credentials', () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gremlin-mcp-aws-'));
+    file = join(dir, 'credentials');
+    writeFileSync(file, credentialsFile);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('credentialsFromEnv', () => {
+    it('should read the access key pair, session token and expiration', () => {
+      const credentials = credentialsFromEnv({
+        AWS_ACCESS_KEY_ID: 'ENVKEY',
+        AWS_SECRET_ACCESS_KEY: 'envsecret',
+        AWS_SESSION_TOKEN: 'envtoken',
+        AWS_CREDENTIAL_EXPIRATION: '2024-01-15T09:30:00Z',
+      });
+
+      expect(Option.getOrThrow(credentials)).toEqual({
+        accessKeyId: 'ENVKEY',
+        secretAccessKey: 'envsecret',
+        sessionToken: 'envtoken',
+        expiration: new Date('2024-01-15T09:30:00Z'),
+      });
+    });
+
+    it('should return none without a complete key pair', () => {
+      expect(Option.isNone(credentialsFromEnv({ AWS_ACCESS_KEY_ID: 'ENVKEY' }))).toBe(true);
+    });
+  });
+
+  describe('parseSharedCredentials', () => {
+    it('should read the requested profile', () => {
+      expect(Option.getOrThrow(parseSharedCredentials(credentialsFile, 'neptune'))).toEqual({
+        accessKeyId: 'NEPTUNEKEY',
+        secretAccessKey: 'neptunesecret',
+        sessionToken: 'neptunetoken',
+      });
+    });
+
+    it('should return none for a missing profile', () => {
+      expect(Option.isNone(parseSharedCredentials(credentialsFile, 'missing'))).toBe(true);
+    });
+  });
+
+  describe('resolveAwsCredentials', () => {
+    it('should prefer environment credentials', async () => {
+      const credentials = await Effect.runPromise(
+        resolveAwsCredentials(
+          {
+            AWS_ACCESS_KEY_ID: 'ENVKEY',
+            AWS_SECRET_ACCESS_KEY: 'envsecret',
+            AWS_SHARED_CREDENTIALS_FILE: file,
+          },
+          now
+        )
+      );
+
+      expect(credentials.accessKeyId).toBe('ENVKEY');
+    });
+
+    it('should fall back to the profile from the shared credentials file', async () => {
+      const credentials = await Effect.runPromise(
+        resolveAwsCredentials({ AWS_SHARED_CREDENTIALS_FILE: file, AWS_PROFILE: 'neptune' }, now)
+      );
+
+      expect(credentials.accessKeyId).toBe('NEPTUNEKEY');
+    });
+
+    it('should skip credentials that expire within the refresh window', async () => {
+      const credentials = await Effect.runPromise(
+        resolveAwsCredentials(
+          {
+            AWS_ACCESS_KEY_ID: 'ENVKEY',
+            AWS_SECRET_ACCESS_KEY: 'envsecret',
+            AWS_CREDENTIAL_EXPIRATION: '2024-01-15T08:32:00Z',
+            AWS_SHARED_CREDENTIALS_FILE: file,
+          },
+          now
+        )
+      );
+
+      expect(credentials.accessKeyId).toBe('DEFAULTKEY');
+    });
+
+    it('should fail when no source has credentials', async () => {
+      const result = await Effect.runPromiseExit(
+        resolveAwsCredentials({ AWS_SHARED_CREDENTIALS_FILE: join(dir, 'missing') }, now)
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+    });
+  });
+});
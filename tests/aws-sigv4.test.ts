@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Tests for AWS SigV4 request signing against fixed clocks and credentials.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { signNeptuneHandshake, signRequest } from '../src/utils/aws-sigv4.js';
+
+// Example credentials from the AWS Signature Version 4 test suite
+const credentials = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+};
+
+describe('aws-sigv4', () => {
+  describe('signRequest', () => {
+    it('should match the get-vanilla case of the AWS SigV4 test suite', () => {
+      const headers = signRequest(
+        { method: 'GET', host: 'example.amazonaws.com', path: '/' },
+        {
+          service: 'service',
+          region: 'us-east-1',
+          credentials,
+          now: new Date('2015-08-30T12:36:00Z'),
+        }
+      );
+
+      expect(headers).toEqual({
+        Host: 'example.amazonaws.com',
+        'X-Amz-Date': '20150830T123600Z',
+        Authorization:
+          'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+      });
+    });
+
+    it('should produce a different signature at a different time', () => {
+      const sign = (now: Date) =>
+        signRequest(
+          { method: 'GET', host: 'example.amazonaws.com', path: '/' },
+          { service: 'service', region: 'us-east-1', credentials, now }
+        ).Authorization;
+
+      expect(sign(new Date('2015-08-30T12:36:00Z'))).not.toBe(
+        sign(new Date('2015-08-30T12:41:00Z'))
+      );
+    });
+  });
+
+  describe('signNeptuneHandshake', () => {
+    it('should sign the Gremlin path for neptune-db including the session token', () => {
+      const headers = signNeptuneHandshake(
+        'my-cluster.cluster-abc.us-west-2.neptune.amazonaws.com',
+        8182,
+        'us-west-2',
+        { ...credentials, sessionToken: 'session-token-example' },
+        new Date('2024-01-15T08:30:00Z')
+      );
+
+      expect(headers).toEqual({
+        Host: 'my-cluster.cluster-abc.us-west-2.neptune.amazonaws.com:8182',
+        'X-Amz-Date': '20240115T083000Z',
+        'X-Amz-Security-Token': 'session-token-example',
+        Authorization:
+          'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20240115/us-west-2/neptune-db/aws4_request, SignedHeaders=host;x-amz-date;x-amz-security-token, Signature=7d05f25335a666a99583383132e347ceba477d73560ca57391645e841df73227',
+      });
+    });
+  });
+});
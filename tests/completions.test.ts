@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Tests for argument completion candidates.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { filterCompletions, listPropertyKeys } from '../src/gremlin/completions.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const schema: GraphSchema = {
+  nodes: [
+    {
+      labels: 'person',
+      properties: [
+        { name: 'name', type: ['string'] },
+        { name: 'age', type: ['number'] },
+      ],
+    },
+    { labels: 'software', properties: [{ name: 'name', type: ['string'] }] },
+  ],
+  relationships: [{ type: 'created', properties: [{ name: 'weight', type: ['number'] }] }],
+  relationship_patterns: [],
+};
+
+describe('completions', () => {
+  describe('filterCompletions', () => {
+    it('should match the typed prefix case-insensitively', () => {
+      expect(filterCompletions(['Person', 'place', 'software'], 'p')).toEqual(['Person', 'place']);
+      expect(filterCompletions(['person', 'software'], '')).toEqual(['person', 'software']);
+    });
+
+    it('should drop duplicates, sort and cap the values', () => {
+      expect(filterCompletions(['name', 'age', 'name'], '')).toEqual(['age', 'name']);
+      expect(filterCompletions(['c', 'b', 'a'], '', 2)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('listPropertyKeys', () => {
+    it('should list the keys of every label', () => {
+      expect(listPropertyKeys(schema)).toEqual(['name', 'age', 'name', 'weight']);
+    });
+
+    it('should list the keys of one vertex or edge label', () => {
+      expect(listPropertyKeys(schema, 'person')).toEqual(['name', 'age']);
+      expect(listPropertyKeys(schema, 'created')).toEqual(['weight']);
+      expect(listPropertyKeys(schema, 'unknown')).toEqual([]);
+    });
+  });
+});
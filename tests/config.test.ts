@@ -2,7 +2,7 @@
  * Tests for Effect-based configuration management and validation.
  */
 
-import { Effect } from 'effect';
+import { Effect, Option } from 'effect';
 import { AppConfig, type AppConfigType } from '../src/config.js';
 
 describe('Effect-based Configuration Management', () => {
@@ -110,6 +110,16 @@ describe('Effect-based Configuration Management', () => {
       expect(result.schema.includeCounts).toBe(false);
     });
 
+    it('should parse lazy connect flag', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+
+      expect((await Effect.runPromise(AppConfig)).gremlin.lazyConnect).toBe(false);
+
+      process.env.GREMLIN_LAZY_CONNECT = 'true';
+
+      expect((await Effect.runPromise(AppConfig)).gremlin.lazyConnect).toBe(true);
+    });
+
     it('should parse endpoint with traversal source', async () => {
       process.env.GREMLIN_ENDPOINT = 'localhost:8182/custom';
 
@@ -148,16 +158,29 @@ describe('Effect-based Configuration Management', () => {
     it('should parse numeric values correctly', async () => {
       process.env.GREMLIN_ENDPOINT = 'localhost:8182';
       process.env.GREMLIN_IDLE_TIMEOUT = '600';
+      process.env.GREMLIN_QUERY_TIMEOUT_MS = '5000';
+      process.env.GREMLIN_MAX_RESULTS = '50';
+      process.env.GREMLIN_MAX_RESULT_BYTES = '4096';
+      process.env.GREMLIN_RESULT_CURSOR_MAX_BYTES = '1048576';
       process.env.GREMLIN_ENUM_CARDINALITY_THRESHOLD = '20';
       process.env.GREMLIN_SCHEMA_MAX_ENUM_VALUES = '15';
 
       const result = await Effect.runPromise(AppConfig);
 
       expect(result.gremlin.idleTimeout).toBe(600);
+      expect(result.gremlin.queryTimeoutMs).toBe(5000);
+      expect(result.results).toEqual({ maxResults: 50, maxBytes: 4096, cursorMaxBytes: 1048576 });
       expect(result.schema.enumCardinalityThreshold).toBe(20);
       expect(result.schema.maxEnumValues).toBe(15);
     });
 
+    it('should reject a non-positive query timeout', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.GREMLIN_QUERY_TIMEOUT_MS = '0';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+    });
+
     it('should handle optional authentication fields', async () => {
       process.env.GREMLIN_ENDPOINT = 'localhost:8182';
       process.env.GREMLIN_USERNAME = 'testuser';
@@ -181,6 +204,413 @@ describe('Effect-based Configuration Management', () => {
     });
   });
 
+  describe('Reconnect Configuration', () => {
+    it('should use default reconnect backoff settings', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.gremlin.reconnect).toEqual({
+        initialDelayMs: 500,
+        maxDelayMs: 30000,
+        maxAttempts: 5,
+      });
+    });
+
+    it('should parse custom reconnect settings', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.GREMLIN_RECONNECT_INITIAL_DELAY_MS = '100';
+      process.env.GREMLIN_RECONNECT_MAX_DELAY_MS = '2000';
+      process.env.GREMLIN_RECONNECT_MAX_ATTEMPTS = '0';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.gremlin.reconnect).toEqual({
+        initialDelayMs: 100,
+        maxDelayMs: 2000,
+        maxAttempts: 0,
+      });
+    });
+
+    it('should reject a max delay below the initial delay', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.GREMLIN_RECONNECT_INITIAL_DELAY_MS = '5000';
+      process.env.GREMLIN_RECONNECT_MAX_DELAY_MS = '1000';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow(
+        /max delay must be greater than or equal/
+      );
+    });
+  });
+
+  describe('Graph Configuration', () => {
+    it('should expose the primary graph under the default name', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.gremlin.name).toBe('default');
+      expect(result.graphs).toHaveLength(1);
+      expect(result.graphs[0]).toMatchObject({ name: 'default', host: 'localhost', port: 8182 });
+    });
+
+    it('should parse additional named graphs with their own endpoint, SSL and credentials', async () => {
+      process.env.GREMLIN_ENDPOINT = 'dev-host:8182';
+      process.env.GREMLIN_GRAPH_NAME = 'dev';
+      process.env.GREMLIN_USERNAME = 'dev-user';
+      process.env.GREMLIN_PASSWORD = 'dev-pass';
+      process.env.GREMLIN_LAZY_CONNECT = 'true';
+      process.env.GREMLIN_GRAPHS = 'staging, analytics';
+      process.env.GREMLIN_GRAPH_STAGING_ENDPOINT = 'staging-host:8183/gs';
+      process.env.GREMLIN_GRAPH_STAGING_USE_SSL = 'true';
+      process.env.GREMLIN_GRAPH_STAGING_USERNAME = 'staging-user';
+      process.env.GREMLIN_GRAPH_STAGING_PASSWORD = 'staging-pass';
+      process.env.GREMLIN_GRAPH_ANALYTICS_ENDPOINT = 'analytics-host:8184';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.graphs.map(graph => graph.name)).toEqual(['dev', 'staging', 'analytics']);
+      expect(result.graphs[1]).toMatchObject({
+        host: 'staging-host',
+        port: 8183,
+        traversalSource: 'gs',
+        useSSL: true,
+        lazyConnect: true,
+      });
+      expect(Option.getOrNull(result.graphs[1]!.username)).toBe('staging-user');
+      expect(result.graphs[2]).toMatchObject({
+        host: 'analytics-host',
+        port: 8184,
+        traversalSource: 'g',
+        useSSL: false,
+      });
+      expect(Option.isNone(result.graphs[2]!.username)).toBe(true);
+    });
+
+    it('should fail when an additional graph has no endpoint', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.GREMLIN_GRAPHS = 'staging';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+    });
+
+    it('should reject invalid and duplicate graph names', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.GREMLIN_GRAPHS = 'stag-ing';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+
+      process.env.GREMLIN_GRAPHS = 'Default';
+      process.env.GREMLIN_GRAPH_DEFAULT_ENDPOINT = 'other-host:8182';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow('unique');
+    });
+  });
+
+  describe('Read-only Configuration', () => {
+    beforeEach(() => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+    });
+
+    it('should default to read-write with the strategy disabled', async () => {
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.gremlin.readOnly).toBe(false);
+      expect(result.gremlin.readOnlyStrategy).toBe(false);
+    });
+
+    it('should share read-only mode with additional graphs', async () => {
+      process.env.GREMLIN_READ_ONLY = 'true';
+      process.env.GREMLIN_GRAPHS = 'neptune';
+      process.env.GREMLIN_GRAPH_NEPTUNE_ENDPOINT = 'db.cluster.neptune.amazonaws.com:8182';
+      process.env.GREMLIN_READ_ONLY_STRATEGY = 'true';
+      process.env.GREMLIN_GRAPH_NEPTUNE_READ_ONLY_STRATEGY = 'false';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.graphs.map(graph => graph.readOnly)).toEqual([true, true]);
+      expect(result.graphs.map(graph => graph.readOnlyStrategy)).toEqual([true, false]);
+    });
+  });
+
+  describe('Query History Configuration', () => {
+    beforeEach(() => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+    });
+
+    it('should keep 100 queries in memory by default', async () => {
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.history.size).toBe(100);
+      expect(Option.isNone(result.history.file)).toBe(true);
+      expect(result.history.fileBindings).toBe(false);
+    });
+
+    it('should accept a size of zero and reject negative sizes', async () => {
+      process.env.GREMLIN_HISTORY_SIZE = '0';
+      expect((await Effect.runPromise(AppConfig)).history.size).toBe(0);
+
+      process.env.GREMLIN_HISTORY_SIZE = '-1';
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+    });
+  });
+
+  describe('Schema Cache Configuration', () => {
+    beforeEach(() => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+    });
+
+    it('should keep the schema in memory only by default', async () => {
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(Option.isNone(result.schema.cacheDir)).toBe(true);
+      expect(result.schema.cacheMaxAgeMs).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('should expire schemas after five minutes without background refresh by default', async () => {
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.schema.cacheTtlMs).toBe(5 * 60 * 1000);
+      expect(result.schema.staleWhileRevalidate).toBe(false);
+    });
+
+    it('should parse the TTL and stale-while-revalidate mode', async () => {
+      process.env.GREMLIN_SCHEMA_CACHE_TTL_MS = '3600000';
+      process.env.GREMLIN_SCHEMA_STALE_WHILE_REVALIDATE = 'true';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.schema.cacheTtlMs).toBe(3600000);
+      expect(result.schema.staleWhileRevalidate).toBe(true);
+    });
+
+    it('should parse the cache directory and maximum age', async () => {
+      process.env.GREMLIN_SCHEMA_CACHE_DIR = '/var/cache/gremlin-mcp';
+      process.env.GREMLIN_SCHEMA_CACHE_MAX_AGE_MS = '3600000';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(Option.getOrUndefined(result.schema.cacheDir)).toBe('/var/cache/gremlin-mcp');
+      expect(result.schema.cacheMaxAgeMs).toBe(3600000);
+    });
+
+    it('should reject a non-positive TTL or maximum age', async () => {
+      process.env.GREMLIN_SCHEMA_CACHE_TTL_MS = '0';
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+
+      delete process.env.GREMLIN_SCHEMA_CACHE_TTL_MS;
+      process.env.GREMLIN_SCHEMA_CACHE_MAX_AGE_MS = '0';
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+    });
+  });
+
+  describe('Serializer Configuration', () => {
+    beforeEach(() => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+    });
+
+    it('should default to GraphSON v3', async () => {
+      expect((await Effect.runPromise(AppConfig)).gremlin.serializer).toBe('graphsonv3');
+    });
+
+    it('should accept GraphSON v2 and GraphBinary', async () => {
+      process.env.GREMLIN_SERIALIZER = 'graphsonv2';
+      expect((await Effect.runPromise(AppConfig)).gremlin.serializer).toBe('graphsonv2');
+
+      process.env.GREMLIN_SERIALIZER = 'graphbinary';
+      expect((await Effect.runPromise(AppConfig)).gremlin.serializer).toBe('graphbinary');
+    });
+
+    it('should reject unknown serializers', async () => {
+      process.env.GREMLIN_SERIALIZER = 'gryo';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+    });
+
+    it('should configure the serializer per graph', async () => {
+      process.env.GREMLIN_GRAPHS = 'cosmos';
+      process.env.GREMLIN_GRAPH_COSMOS_ENDPOINT = 'my-account.gremlin.cosmos.azure.com:443';
+      process.env.GREMLIN_GRAPH_COSMOS_SERIALIZER = 'graphsonv2';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.graphs.map(graph => graph.serializer)).toEqual(['graphsonv3', 'graphsonv2']);
+    });
+  });
+
+  describe('TLS Configuration', () => {
+    beforeEach(() => {
+      process.env.GREMLIN_ENDPOINT = 'janus.internal:8182';
+    });
+
+    it('should parse TLS file paths, passphrase, servername and verification flag', async () => {
+      process.env.GREMLIN_USE_SSL = 'true';
+      process.env.GREMLIN_TLS_CA_FILE = '/etc/ssl/internal-ca.pem';
+      process.env.GREMLIN_TLS_CERT_FILE = '/etc/ssl/client.pem';
+      process.env.GREMLIN_TLS_KEY_FILE = '/etc/ssl/client.key';
+      process.env.GREMLIN_TLS_KEY_PASSPHRASE = 'secret';
+      process.env.GREMLIN_TLS_SERVERNAME = 'janus';
+      process.env.GREMLIN_TLS_INSECURE_SKIP_VERIFY = 'true';
+
+      const { tls } = (await Effect.runPromise(AppConfig)).gremlin;
+
+      expect(Option.getOrNull(tls.caFile)).toBe('/etc/ssl/internal-ca.pem');
+      expect(Option.getOrNull(tls.certFile)).toBe('/etc/ssl/client.pem');
+      expect(Option.getOrNull(tls.keyFile)).toBe('/etc/ssl/client.key');
+      expect(Option.isSome(tls.keyPassphrase)).toBe(true);
+      expect(Option.getOrNull(tls.servername)).toBe('janus');
+      expect(tls.insecureSkipVerify).toBe(true);
+    });
+
+    it('should verify certificates by default', async () => {
+      const { tls } = (await Effect.runPromise(AppConfig)).gremlin;
+
+      expect(tls.insecureSkipVerify).toBe(false);
+      expect(Option.isNone(tls.caFile)).toBe(true);
+    });
+
+    it('should require the client certificate and key together', async () => {
+      process.env.GREMLIN_USE_SSL = 'true';
+      process.env.GREMLIN_TLS_CERT_FILE = '/etc/ssl/client.pem';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow('certificate and key');
+    });
+
+    it('should reject TLS options without SSL', async () => {
+      process.env.GREMLIN_TLS_CA_FILE = '/etc/ssl/internal-ca.pem';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow('SSL');
+    });
+
+    it('should configure TLS per graph', async () => {
+      process.env.GREMLIN_GRAPHS = 'onprem';
+      process.env.GREMLIN_GRAPH_ONPREM_ENDPOINT = 'janus.corp:8182';
+      process.env.GREMLIN_GRAPH_ONPREM_USE_SSL = 'true';
+      process.env.GREMLIN_GRAPH_ONPREM_TLS_CA_FILE = '/etc/ssl/corp-ca.pem';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(Option.isNone(result.graphs[0]!.tls.caFile)).toBe(true);
+      expect(Option.getOrNull(result.graphs[1]!.tls.caFile)).toBe('/etc/ssl/corp-ca.pem');
+    });
+  });
+
+  describe('IAM Authentication Configuration', () => {
+    beforeEach(() => {
+      delete process.env.AWS_REGION;
+      delete process.env.AWS_DEFAULT_REGION;
+      process.env.GREMLIN_ENDPOINT = 'my-cluster.neptune.amazonaws.com:8182';
+    });
+
+    it('should be disabled by default', async () => {
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.gremlin.iamAuth).toBe(false);
+      expect(Option.isNone(result.gremlin.awsRegion)).toBe(true);
+    });
+
+    it('should require a region when enabled', async () => {
+      process.env.GREMLIN_IAM_AUTH = 'true';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow('region');
+    });
+
+    it('should fall back to AWS_REGION', async () => {
+      process.env.GREMLIN_IAM_AUTH = 'true';
+      process.env.AWS_REGION = 'eu-west-1';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.gremlin.iamAuth).toBe(true);
+      expect(Option.getOrNull(result.gremlin.awsRegion)).toBe('eu-west-1');
+    });
+
+    it('should configure IAM authentication per graph', async () => {
+      process.env.GREMLIN_GRAPHS = 'analytics';
+      process.env.GREMLIN_GRAPH_ANALYTICS_ENDPOINT = 'analytics.neptune.amazonaws.com:8182';
+      process.env.GREMLIN_GRAPH_ANALYTICS_IAM_AUTH = 'true';
+      process.env.GREMLIN_GRAPH_ANALYTICS_AWS_REGION = 'us-west-2';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.graphs[0]!.iamAuth).toBe(false);
+      expect(result.graphs[1]!.iamAuth).toBe(true);
+      expect(Option.getOrNull(result.graphs[1]!.awsRegion)).toBe('us-west-2');
+    });
+  });
+
+  describe('Transport Configuration', () => {
+    it('should default to the stdio transport', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      delete process.env.MCP_TRANSPORT;
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.transport).toEqual({
+        type: 'stdio',
+        host: '127.0.0.1',
+        port: 3000,
+        path: '/mcp',
+        messagesPath: '/messages',
+        sessionIdleTimeoutMs: 1800000,
+      });
+    });
+
+    it('should parse http transport settings', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.MCP_TRANSPORT = 'http';
+      process.env.MCP_HTTP_HOST = '0.0.0.0';
+      process.env.MCP_HTTP_PORT = '8080';
+      process.env.MCP_HTTP_PATH = '/gremlin-mcp';
+      process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS = '0';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.transport).toEqual({
+        type: 'http',
+        host: '0.0.0.0',
+        port: 8080,
+        path: '/gremlin-mcp',
+        messagesPath: '/messages',
+        sessionIdleTimeoutMs: 0,
+      });
+    });
+
+    it('should parse sse transport settings', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.MCP_TRANSPORT = 'sse';
+      process.env.MCP_HTTP_PATH = '/sse';
+      process.env.MCP_HTTP_MESSAGES_PATH = '/sse/messages';
+
+      const result = await Effect.runPromise(AppConfig);
+
+      expect(result.transport.type).toBe('sse');
+      expect(result.transport.path).toBe('/sse');
+      expect(result.transport.messagesPath).toBe('/sse/messages');
+    });
+
+    it('should fail with an unknown transport', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.MCP_TRANSPORT = 'carrier-pigeon';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow();
+    });
+
+    it('should fail with an invalid http port', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.MCP_HTTP_PORT = '70000';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow(/HTTP port must be/);
+    });
+
+    it('should fail with a negative http session idle timeout', async () => {
+      process.env.GREMLIN_ENDPOINT = 'localhost:8182';
+      process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS = '-1';
+
+      await expect(Effect.runPromise(AppConfig)).rejects.toThrow(/idle timeout must be/);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should provide meaningful error for invalid endpoint format', async () => {
       process.env.GREMLIN_ENDPOINT = 'invalid-endpoint';
@@ -238,6 +668,12 @@ describe('Effect-based Configuration Management', () => {
       expect(result.gremlin.traversalSource).toBe('g');
       expect(result.gremlin.useSSL).toBe(false);
       expect(result.gremlin.idleTimeout).toBe(300);
+      expect(result.gremlin.queryTimeoutMs).toBe(30000);
+      expect(result.results).toEqual({
+        maxResults: 500,
+        maxBytes: 131072,
+        cursorMaxBytes: 67108864,
+      });
       expect(result.schema.enumDiscoveryEnabled).toBe(true);
       expect(result.schema.enumCardinalityThreshold).toBe(10);
       expect(result.schema.includeSampleValues).toBe(false);
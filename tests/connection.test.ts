@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Tests for the Gremlin connection manager and its reconnect behavior.
+ */
+
+import { Cause, Duration, Effect, Exit, Layer, Schedule } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'node:events';
+
+/**
+ * Fake driver objects: each created connection records itself so tests can
+ * emit websocket events and control whether the connection test succeeds.
+ */
+const driverState = {
+  failuresBeforeSuccess: 0,
+  hangsBeforeSuccess: 0,
+  created: [] as FakeConnection[],
+};
+
+class FakeConnection extends EventEmitter {
+  closed = false;
+  addListener(event: string, handler: (...args: unknown[]) => void) {
+    return super.on(event, handler);
+  }
+  close() {
+    this.closed = true;
+    return Promise.resolve();
+  }
+}
+
+jest.mock('gremlin', () => ({
+  __esModule: true,
+  default: {
+    driver: {
+      DriverRemoteConnection: class extends FakeConnection {
+        constructor() {
+          super();
+          driverState.created.push(this);
+        }
+      },
+      Client: class extends FakeConnection {},
+    },
+    process: {
+      AnonymousTraversalSource: {
+        traversal: () => ({
+          withRemote: () => ({
+            V: () => ({
+              limit: () => ({
+                count: () => ({
+                  next: () =>
+                    driverState.hangsBeforeSuccess-- > 0
+                      ? new Promise(() => {})
+                      : driverState.failuresBeforeSuccess-- > 0
+                        ? Promise.reject(new Error('connect ECONNREFUSED'))
+                        : Promise.resolve({ value: 0, done: false }),
+                }),
+              }),
+            }),
+          }),
+        }),
+      },
+    },
+  },
+}));
+
+import { GremlinClientLive, makeReconnectSchedule } from '../src/gremlin/connection.js';
+import { GremlinClient, GremlinGraph } from '../src/gremlin/client.js';
+import { AppConfig } from '../src/config.js';
+
+const PrimaryGraphLive = Layer.effect(
+  GremlinGraph,
+  Effect.map(AppConfig, config => config.gremlin)
+);
+
+const withClient = <A, E>(
+  f: (client: typeof GremlinClient.Service) => Effect.Effect<A, E>
+): Promise<Exit.Exit<A, unknown>> =>
+  Effect.runPromiseExit(
+    Effect.provide(
+      Effect.andThen(GremlinClient, f),
+      Layer.provide(GremlinClientLive, PrimaryGraphLive)
+    )
+  );
+
+describe('connection', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      GREMLIN_RECONNECT_INITIAL_DELAY_MS: '1',
+      GREMLIN_RECONNECT_MAX_DELAY_MS: '5',
+      GREMLIN_RECONNECT_MAX_ATTEMPTS: '3',
+    };
+    driverState.failuresBeforeSuccess = 0;
+    driverState.hangsBeforeSuccess = 0;
+    driverState.created = [];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('makeReconnectSchedule', () => {
+    it('should stop after the configured number of retries', async () => {
+      let attempts = 0;
+      const failing = Effect.suspend(() => {
+        attempts++;
+        return Effect.fail('down');
+      });
+
+      const result = await Effect.runPromiseExit(
+        Effect.retry(
+          failing,
+          makeReconnectSchedule({ initialDelayMs: 1, maxDelayMs: 2, maxAttempts: 2 })
+        )
+      );
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(attempts).toBe(3);
+    });
+
+    it('should cap delays at the configured maximum', async () => {
+      const delays = await Effect.runPromise(
+        Schedule.run(
+          Schedule.delays(
+            makeReconnectSchedule({ initialDelayMs: 100, maxDelayMs: 400, maxAttempts: 6 })
+          ),
+          Date.now(),
+          [1, 2, 3, 4, 5, 6]
+        )
+      );
+
+      const millis = Array.from(delays).map(Duration.toMillis);
+      expect(millis).toHaveLength(6);
+      // Jitter keeps each delay within 80%-120% of the capped exponential value
+      expect(Math.max(...millis)).toBeLessThanOrEqual(400 * 1.2);
+      expect(millis[0]).toBeGreaterThanOrEqual(100 * 0.8);
+    });
+  });
+
+  describe('GremlinClientLive', () => {
+    it('should retry the initial connection with backoff', async () => {
+      driverState.failuresBeforeSuccess = 2;
+
+      const result = await withClient(client => client.getConnection);
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      expect(driverState.created).toHaveLength(3);
+      expect(driverState.created[0]?.closed).toBe(true);
+      expect(driverState.created[1]?.closed).toBe(true);
+    });
+
+    it('should fail once reconnect attempts are exhausted', async () => {
+      driverState.failuresBeforeSuccess = 10;
+
+      const result = await withClient(client => client.getConnection);
+
+      expect(Exit.isFailure(result)).toBe(true);
+      expect(driverState.created).toHaveLength(4);
+    });
+
+    it('should give up on a connection test that does not answer', async () => {
+      process.env.GREMLIN_QUERY_TIMEOUT_MS = '20';
+      driverState.hangsBeforeSuccess = 10;
+
+      const result = await withClient(client => client.getConnection);
+
+      expect(Exit.isFailure(result)).toBe(true);
+      if (Exit.isFailure(result)) {
+        expect(Cause.squash(result.cause)).toMatchObject({
+          _tag: 'GremlinConnectionError',
+          message: expect.stringContaining('Connection test timed out after 20ms'),
+        });
+      }
+      expect(driverState.created).toHaveLength(4);
+      expect(driverState.created.every(connection => connection.closed)).toBe(true);
+    });
+
+    it('should close a connection whose test is interrupted', async () => {
+      process.env.GREMLIN_LAZY_CONNECT = 'true';
+      driverState.hangsBeforeSuccess = 1;
+
+      const result = await withClient(client =>
+        Effect.gen(function* () {
+          yield* Effect.timeout(client.getConnection, '20 millis').pipe(Effect.ignore);
+          return yield* client.getConnection;
+        })
+      );
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      expect(driverState.created).toHaveLength(2);
+      expect(driverState.created[0]?.closed).toBe(true);
+    });
+
+    it('should reuse the connection while it stays open', async () => {
+      const result = await withClient(client =>
+        Effect.all([client.getConnection, client.getConnection])
+      );
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      expect(driverState.created).toHaveLength(1);
+    });
+
+    it('should reconnect after the websocket closes', async () => {
+      const result = await withClient(client =>
+        Effect.gen(function* () {
+          const first = yield* client.getConnection;
+          driverState.created[0]?.emit('close', 1006, 'server restarted');
+          yield* Effect.sleep('10 millis');
+          const second = yield* client.getConnection;
+          return { first, second };
+        })
+      );
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      if (Exit.isSuccess(result)) {
+        expect(result.value.second).not.toBe(result.value.first);
+      }
+      expect(driverState.created).toHaveLength(2);
+      expect(driverState.created[0]?.closed).toBe(true);
+    });
+
+    it('should reconnect after an explicit invalidation', async () => {
+      const result = await withClient(client =>
+        Effect.gen(function* () {
+          const first = yield* client.getConnection;
+          yield* client.invalidate(first, 'socket error');
+          return yield* client.getConnection;
+        })
+      );
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      expect(driverState.created).toHaveLength(2);
+    });
+
+    it('should not connect at startup in lazy mode', async () => {
+      process.env.GREMLIN_LAZY_CONNECT = 'true';
+      driverState.failuresBeforeSuccess = 10;
+
+      const result = await withClient(() => Effect.void);
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      expect(driverState.created).toHaveLength(0);
+    });
+
+    it('should connect on first use in lazy mode', async () => {
+      process.env.GREMLIN_LAZY_CONNECT = 'true';
+
+      const result = await withClient(client =>
+        Effect.gen(function* () {
+          const before = driverState.created.length;
+          yield* client.getConnection;
+          return before;
+        })
+      );
+
+      expect(Exit.isSuccess(result)).toBe(true);
+      if (Exit.isSuccess(result)) {
+        expect(result.value).toBe(0);
+      }
+      expect(driverState.created).toHaveLength(1);
+    });
+
+    it('should close the connection when the scope closes', async () => {
+      await withClient(client => client.getConnection);
+
+      expect(driverState.created[0]?.closed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tests for structured tool errors.
+ */
+
+import { Effect, Either } from 'effect';
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { ERROR_CODES, Errors, toStructuredError } from '../src/errors.js';
+
+/**
+ * Builds an error shaped like the driver's `ResponseError`.
+ */
+const responseError = (statusCode: number, statusMessage: string, exceptions: string[] = []) =>
+  Object.assign(new Error(`Server error: ${statusMessage} (${statusCode})`), {
+    statusCode,
+    statusMessage,
+    statusAttributes: new Map([['exceptions', exceptions]]),
+  });
+
+describe('toStructuredError', () => {
+  it('should classify compilation failures as syntax errors', () => {
+    const error = Errors.query(
+      'Query execution failed',
+      'g.V().hasLable("person")',
+      responseError(597, 'No signature of method: hasLable()', [
+        'groovy.lang.MissingMethodException',
+      ])
+    );
+
+    expect(toStructuredError(error)).toEqual({
+      code: ERROR_CODES.QUERY_SYNTAX_ERROR,
+      category: 'query',
+      message: 'Query failed: Query execution failed: No signature of method: hasLable()',
+      retryable: false,
+      status_code: 597,
+      query: 'g.V().hasLable("person")',
+      hint: expect.any(String),
+    });
+  });
+
+  it('should classify other evaluation failures by server status', () => {
+    const evaluation = Errors.query(
+      'Query execution failed',
+      'g.V(1).next()',
+      responseError(597, 'The traversal has no more elements', ['java.util.NoSuchElementException'])
+    );
+    expect(toStructuredError(evaluation).code).toBe(ERROR_CODES.QUERY_EVALUATION_ERROR);
+
+    const temporary = toStructuredError(
+      Errors.query('Query execution failed', 'g.V()', responseError(596, 'Lock timeout'))
+    );
+    expect(temporary.code).toBe(ERROR_CODES.TEMPORARY_FAILURE);
+    expect(temporary.retryable).toBe(true);
+
+    expect(
+      toStructuredError(
+        Errors.query('Query execution failed', 'g.V()', responseError(599, 'Cannot serialize'))
+      ).code
+    ).toBe(ERROR_CODES.SERIALIZATION_ERROR);
+    expect(
+      toStructuredError(
+        Errors.query('Query execution failed', 'g.V()', { error: responseError(401, 'Denied') })
+      ).code
+    ).toBe(ERROR_CODES.AUTHENTICATION_FAILED);
+  });
+
+  it('should classify connection failures', () => {
+    const refused = toStructuredError(
+      Errors.connection('Connection test failed', { error: new Error('connect ECONNREFUSED') })
+    );
+    expect(refused).toMatchObject({
+      code: ERROR_CODES.CONNECTION_FAILED,
+      category: 'connection',
+      retryable: true,
+    });
+
+    const rejected = toStructuredError(
+      Errors.connection('Connection test failed', {
+        error: new Error('Unexpected server response: 403'),
+      })
+    );
+    expect(rejected.code).toBe(ERROR_CODES.AUTHENTICATION_FAILED);
+    expect(rejected.retryable).toBe(false);
+  });
+
+  it('should report timeouts with the query that ran out of time', () => {
+    expect(
+      toStructuredError(Errors.timeout('Query did not complete within 10ms', 10, 'g.V()'))
+    ).toMatchObject({
+      code: ERROR_CODES.QUERY_TIMEOUT,
+      category: 'timeout',
+      retryable: true,
+      query: 'g.V()',
+    });
+  });
+
+  it('should prefer an explicit code in the error details', () => {
+    const error = Errors.query(
+      'Read-only mode does not allow mutating steps (drop)',
+      'g.V().drop()',
+      {
+        code: ERROR_CODES.READ_ONLY_VIOLATION,
+        steps: ['drop'],
+      }
+    );
+
+    expect(toStructuredError(error)).toMatchObject({
+      code: ERROR_CODES.READ_ONLY_VIOLATION,
+      category: 'validation',
+      retryable: false,
+    });
+  });
+
+  it('should report invalid arguments from schema validation', () => {
+    const result = Effect.runSync(
+      Effect.either(Effect.try(() => z.object({ limit: z.number() }).parse({ limit: 'ten' })))
+    );
+    if (Either.isRight(result)) {
+      throw new Error('Expected validation to fail');
+    }
+
+    const structured = toStructuredError(result.left);
+    expect(structured.code).toBe(ERROR_CODES.INVALID_ARGUMENTS);
+    expect(structured.message).toContain('limit');
+  });
+
+  it('should fall back to an internal error for unknown failures', () => {
+    expect(toStructuredError(new Error('boom'))).toEqual({
+      code: ERROR_CODES.INTERNAL_ERROR,
+      category: 'internal',
+      message: 'boom',
+      retryable: false,
+    });
+  });
+});
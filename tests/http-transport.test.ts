@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Tests for the Streamable HTTP transport.
+ *
+ * Starts the transport on a free local port and talks to it with the MCP SDK
+ * client and with raw requests.
+ */
+
+import { request } from 'node:http';
+import { createServer } from 'node:net';
+import { Effect, Exit, LogLevel, Logger, Scope } from 'effect';
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { HTTP_TRANSPORT } from '../src/constants.js';
+import { startHttpTransport } from '../src/transports/http.js';
+
+const freePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+
+const waitFor = async (condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const initializeBody = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const listToolsBody = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+const mcpHeaders = (sessionId?: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+  ...(sessionId && { [HTTP_TRANSPORT.SESSION_HEADER]: sessionId }),
+});
+
+describe('http transport', () => {
+  let close: (() => Promise<void>) | undefined;
+  let url: string;
+  let created: number;
+  let closed: Set<number>;
+
+  const createMcpServer = () => {
+    const serverNumber = ++created;
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    server.registerTool('whoami', { description: 'Returns the server number' }, () => ({
+      content: [{ type: 'text', text: String(serverNumber) }],
+    }));
+    server.server.onclose = () => {
+      closed.add(serverNumber);
+    };
+    return server;
+  };
+
+  const start = async (sessionIdleTimeoutMs = 0) => {
+    const port = await freePort();
+    const scope = Effect.runSync(Scope.make());
+    created = 0;
+    closed = new Set();
+    url = `http://127.0.0.1:${port}/mcp`;
+
+    await Effect.runPromise(
+      Scope.extend(
+        startHttpTransport(createMcpServer, {
+          type: 'http',
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          messagesPath: '/messages',
+          sessionIdleTimeoutMs,
+        }),
+        scope
+      ).pipe(Logger.withMinimumLogLevel(LogLevel.None))
+    );
+    close = async () => {
+      close = undefined;
+      await Effect.runPromise(Scope.close(scope, Exit.void));
+    };
+  };
+
+  const connectClient = async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(url));
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  /** Starts a session with a raw initialize request, without opening an event stream. */
+  const initializeSession = async (): Promise<string> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: mcpHeaders(),
+      body: JSON.stringify(initializeBody),
+    });
+    await response.text();
+    return response.headers.get(HTTP_TRANSPORT.SESSION_HEADER) ?? '';
+  };
+
+  const postToSession = (sessionId: string, body: string) =>
+    fetch(url, { method: 'POST', headers: mcpHeaders(sessionId), body });
+
+  afterEach(async () => {
+    await close?.();
+  });
+
+  it('should route each client to its own session', async () => {
+    await start();
+    const first = await connectClient();
+    const second = await connectClient();
+
+    const whoami = async (client: Client) => {
+      const result = (await client.callTool({ name: 'whoami' })) as {
+        content: Array<{ text: string }>;
+      };
+      return result.content[0]!.text;
+    };
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect([await whoami(first.client), await whoami(second.client)]).toEqual(['1', '2']);
+    expect(await whoami(first.client)).toBe('1');
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should answer unknown session ids with 404 and missing ones with 400', async () => {
+    await start();
+
+    const post = await postToSession('unknown', JSON.stringify(listToolsBody));
+    const get = await fetch(url, { headers: mcpHeaders('unknown') });
+    const getWithoutSession = await fetch(url, { headers: mcpHeaders() });
+    const withoutSession = await fetch(url, {
+      method: 'POST',
+      headers: mcpHeaders(),
+      body: JSON.stringify(listToolsBody),
+    });
+
+    expect(post.status).toBe(404);
+    expect(await post.json()).toMatchObject({
+      error: { code: -32001, message: 'Session not found' },
+    });
+    expect(get.status).toBe(404);
+    expect(withoutSession.status).toBe(400);
+    expect(getWithoutSession.status).toBe(400);
+    expect(created).toBe(0);
+  });
+
+  it('should answer malformed JSON with a parse error', async () => {
+    await start();
+    const sessionId = await initializeSession();
+
+    const response = await postToSession(sessionId, '{"jsonrpc": ');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+  });
+
+  it('should answer oversized bodies with 413 before closing the connection', async () => {
+    await start();
+    const body = Buffer.alloc(HTTP_TRANSPORT.MAX_BODY_BYTES + 1, ' ');
+
+    const response = await new Promise<{ status: number; connection: string | undefined }>(
+      (resolve, reject) => {
+        const req = request(url, { method: 'POST', headers: mcpHeaders() }, res => {
+          resolve({ status: res.statusCode ?? 0, connection: res.headers.connection });
+          res.resume();
+        });
+        // Once the response arrived, the server closing the connection mid-upload is expected
+        req.on('error', reject);
+        req.end(body);
+      }
+    );
+
+    expect(response).toEqual({ status: 413, connection: 'close' });
+  });
+
+  it('should end a session when the client deletes it', async () => {
+    await start();
+    const { client, transport } = await connectClient();
+    const sessionId = transport.sessionId!;
+
+    await transport.terminateSession();
+    await client.close();
+
+    await waitFor(async () => closed.size === 1);
+    const response = await postToSession(sessionId, JSON.stringify(listToolsBody));
+    expect(response.status).toBe(404);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    await start(100);
+    const sessionId = await initializeSession();
+
+    await waitFor(async () => closed.size === 1);
+    const response = await postToSession(sessionId, JSON.stringify(listToolsBody));
+    expect(response.status).toBe(404);
+  });
+
+  it('should keep sessions with an open event stream', async () => {
+    await start(300);
+    const { client } = await connectClient();
+
+    await new Promise(resolve => setTimeout(resolve, 900));
+
+    expect(closed.size).toBe(0);
+    await client.close();
+  });
+
+  it('should close every session and stop listening on shutdown', async () => {
+    await start();
+    await initializeSession();
+    await initializeSession();
+
+    await close!();
+
+    expect(closed.size).toBe(2);
+    await expect(fetch(url, { method: 'POST', headers: mcpHeaders() })).rejects.toThrow();
+  });
+});
@@ -101,11 +101,14 @@ describe('MCP Server Integration Tests', () => {
     'should list available tools',
     async () => {
       const response = await client.listTools();
-      expect(response.tools).toHaveLength(6);
+      expect(response.tools).toHaveLength(9);
       const toolNames = response.tools.map(t => t.name);
       expect(toolNames).toContain(TOOL_NAMES.GET_GRAPH_STATUS);
       expect(toolNames).toContain(TOOL_NAMES.GET_GRAPH_SCHEMA);
       expect(toolNames).toContain(TOOL_NAMES.RUN_GREMLIN_QUERY);
+      expect(toolNames).toContain(TOOL_NAMES.PROFILE_GREMLIN_QUERY);
+      expect(toolNames).toContain(TOOL_NAMES.RERUN_QUERY);
+      expect(toolNames).toContain(TOOL_NAMES.DIFF_GRAPH_SCHEMA);
       expect(toolNames).toContain(TOOL_NAMES.REFRESH_SCHEMA_CACHE);
       expect(toolNames).toContain(TOOL_NAMES.IMPORT_GRAPH_DATA);
       expect(toolNames).toContain(TOOL_NAMES.EXPORT_SUBGRAPH);
@@ -124,7 +127,11 @@ describe('MCP Server Integration Tests', () => {
       const content = result.content[0];
       expect(content.type).toBe('text');
       if (content.type === 'text') {
-        expect(content.text).toBe('connected');
+        const status = JSON.parse(content.text);
+        expect(status.status).toBe('connected');
+        expect(status.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(status.driverVersion).toBeDefined();
+        expect(status.checkedAt).toBeDefined();
       }
     },
     30000
@@ -181,10 +188,11 @@ describe('MCP Server Integration Tests', () => {
       const content = result.content[0];
       expect(content.type).toBe('text');
       if (content.type === 'text') {
-        const queryResult = JSON.parse(content.text);
-        expect(queryResult).toBeDefined();
-        expect(queryResult.message).toContain('Query failed');
-        expect(queryResult.results).toHaveLength(0);
+        const { error } = JSON.parse(content.text);
+        expect(result.isError).toBe(true);
+        expect(error.message).toContain('Query failed');
+        expect(error.code).toBe('QUERY_SYNTAX_ERROR');
+        expect(error.query).toBe(query);
       }
     },
     30000
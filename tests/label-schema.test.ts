@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Tests for per-label schema views.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getEdgeLabelSchema,
+  getVertexLabelSchema,
+  listEdgeLabels,
+  listVertexLabels,
+} from '../src/gremlin/label-schema.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const schema: GraphSchema = {
+  nodes: [
+    {
+      labels: 'person',
+      count: 4,
+      properties: [{ name: 'status', type: ['string'], enum: ['active', 'inactive'] }],
+    },
+    { labels: 'software', properties: [{ name: 'lang', type: ['string'] }] },
+  ],
+  relationships: [
+    { type: 'knows', count: 2, properties: [{ name: 'weight', type: ['number'] }] },
+    { type: 'created', properties: [] },
+  ],
+  relationship_patterns: [
+    { left_node: 'person', right_node: 'person', relation: 'knows' },
+    { left_node: 'person', right_node: 'software', relation: 'created' },
+  ],
+};
+
+describe('label-schema', () => {
+  it('should list vertex and edge labels', () => {
+    expect(listVertexLabels(schema)).toEqual(['person', 'software']);
+    expect(listEdgeLabels(schema)).toEqual(['knows', 'created']);
+  });
+
+  it('should describe a vertex label with its relationship patterns', () => {
+    expect(getVertexLabelSchema(schema, 'person')).toEqual({
+      label: 'person',
+      count: 4,
+      properties: [{ name: 'status', type: ['string'], enum: ['active', 'inactive'] }],
+      outgoing: [
+        { relation: 'knows', to: 'person' },
+        { relation: 'created', to: 'software' },
+      ],
+      incoming: [{ relation: 'knows', from: 'person' }],
+    });
+    expect(getVertexLabelSchema(schema, 'software')).toEqual({
+      label: 'software',
+      properties: [{ name: 'lang', type: ['string'] }],
+      outgoing: [],
+      incoming: [{ relation: 'created', from: 'person' }],
+    });
+  });
+
+  it('should describe an edge label with the vertex labels it connects', () => {
+    expect(getEdgeLabelSchema(schema, 'knows')).toEqual({
+      label: 'knows',
+      count: 2,
+      properties: [{ name: 'weight', type: ['number'] }],
+      connects: [{ from: 'person', to: 'person' }],
+    });
+  });
+
+  it('should return undefined for unknown labels', () => {
+    expect(getVertexLabelSchema(schema, 'knows')).toBeUndefined();
+    expect(getEdgeLabelSchema(schema, 'person')).toBeUndefined();
+  });
+});
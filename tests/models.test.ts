@@ -9,6 +9,7 @@ import {
   GraphSchemaSchema,
   GremlinConfigSchema,
   GremlinQueryResultSchema,
+  GremlinBindingsSchema,
   SchemaMetadataSchema,
 } from '../src/gremlin/models.js';
 
@@ -154,6 +155,23 @@ describe('Models and Schemas', () => {
     });
   });
 
+  describe('GremlinBindingsSchema', () => {
+    it('should accept values keyed by identifier', () => {
+      const bindings = { name: 'marko', minAge: 29, tags: ['a', 'b'], _limit: 10 };
+
+      expect(GremlinBindingsSchema.parse(bindings)).toEqual(bindings);
+    });
+
+    it('should reject names that are not identifiers', () => {
+      expect(() => GremlinBindingsSchema.parse({ 'first-name': 'marko' })).toThrow();
+      expect(() => GremlinBindingsSchema.parse({ '1st': 'marko' })).toThrow();
+    });
+
+    it('should reject names reserved by Gremlin Server', () => {
+      expect(() => GremlinBindingsSchema.parse({ label: 'person' })).toThrow(/cannot be one of/);
+    });
+  });
+
   describe('SchemaMetadataSchema', () => {
     it('should validate schema metadata', () => {
       const validMetadata = {
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Tests for prompts: the schema they embed and the completion of their arguments.
+ */
+
+import { Effect, Layer, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+jest.mock('../src/gremlin/driver-version.js', () => ({
+  __esModule: true,
+  GREMLIN_DRIVER_VERSION: 'test',
+}));
+
+import { registerEffectPromptHandlers } from '../src/handlers/prompts.js';
+import { GremlinService } from '../src/gremlin/service.js';
+import { GraphRegistry } from '../src/gremlin/graphs.js';
+import { PROMPT_NAMES } from '../src/constants.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const schema: GraphSchema = {
+  nodes: [{ labels: 'person', properties: [{ name: 'name', type: ['string'] }] }],
+  relationships: [{ type: 'knows', properties: [] }],
+  relationship_patterns: [{ left_node: 'person', right_node: 'person', relation: 'knows' }],
+};
+
+describe('prompts', () => {
+  let cached: GraphSchema | null;
+  let getSchema: jest.Mock<() => void>;
+  let runtime: ManagedRuntime.ManagedRuntime<GremlinService | GraphRegistry, never>;
+  let client: Client;
+
+  beforeEach(async () => {
+    cached = null;
+    getSchema = jest.fn();
+
+    const service = {
+      getCachedSchema: Effect.sync(() => cached),
+      getSchema: Effect.sync(() => {
+        getSchema();
+        return schema;
+      }),
+      getLabels: Effect.succeed({ vertexLabels: ['person', 'software'], edgeLabels: ['knows'] }),
+    } as unknown as typeof GremlinService.Service;
+    runtime = ManagedRuntime.make(
+      Layer.mergeAll(
+        Layer.succeed(GremlinService, service),
+        Layer.succeed(GraphRegistry, { names: ['default'], get: () => Effect.succeed(service) })
+      )
+    );
+
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerEffectPromptHandlers(server, await runtime.runtime());
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await runtime.dispose();
+  });
+
+  const promptText = async () => {
+    const result = await client.getPrompt({ name: PROMPT_NAMES.EXPLORE_GRAPH, arguments: {} });
+    const [message] = result.messages;
+    return message?.content.type === 'text' ? message.content.text : '';
+  };
+
+  it('should embed the cached schema', async () => {
+    cached = schema;
+
+    const text = await promptText();
+
+    expect(text).toContain('Graph schema:');
+    expect(text).toContain('person');
+    expect(getSchema).not.toHaveBeenCalled();
+  });
+
+  it('should list the labels without starting a discovery when nothing is cached', async () => {
+    const text = await promptText();
+
+    expect(text).toContain('The graph schema has not been loaded yet');
+    expect(text).toContain('Vertex labels: person, software');
+    expect(text).toContain('Edge labels: knows');
+    expect(getSchema).not.toHaveBeenCalled();
+  });
+
+  it('should complete the labels and property keys of the data quality review', async () => {
+    cached = schema;
+    const ref = { type: 'ref/prompt' as const, name: PROMPT_NAMES.REVIEW_DATA_QUALITY };
+
+    const labels = await client.complete({ ref, argument: { name: 'label', value: 'p' } });
+    const properties = await client.complete({
+      ref,
+      argument: { name: 'property', value: '' },
+      context: { arguments: { label: 'person' } },
+    });
+
+    expect(labels.completion.values).toEqual(['person']);
+    expect(properties.completion.values).toEqual(['name']);
+  });
+
+  it('should review every label and property when asked for all', async () => {
+    const result = await client.getPrompt({
+      name: PROMPT_NAMES.REVIEW_DATA_QUALITY,
+      arguments: { label: '*', property: '*' },
+    });
+    const [message] = result.messages;
+
+    expect(message?.content).toMatchObject({
+      text: expect.stringContaining('Review the data quality of this graph.'),
+    });
+  });
+});
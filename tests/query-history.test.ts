@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Tests for the query history.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Effect, Either, LogLevel, Logger } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+jest.mock('node:fs/promises', () => {
+  const actual = jest.requireActual<typeof import('node:fs/promises')>('node:fs/promises');
+  return { ...actual, writeFile: jest.fn(actual.writeFile) };
+});
+
+import { writeFile } from 'node:fs/promises';
+import { QueryHistory, QueryHistoryLive } from '../src/gremlin/query-history.js';
+import { ERROR_CODES, toStructuredError } from '../src/errors.js';
+
+const mockWriteFile = writeFile as jest.MockedFunction<typeof writeFile>;
+
+const runWithHistory = <A, E>(effect: Effect.Effect<A, E, QueryHistory>) =>
+  Effect.runPromise(
+    Effect.provide(effect, QueryHistoryLive).pipe(Logger.withMinimumLogLevel(LogLevel.None))
+  );
+
+const entry = (query: string) => ({
+  graph: 'default',
+  query,
+  executed_at: '2024-01-01T00:00:00.000Z',
+  duration_ms: 12,
+  status: 'success' as const,
+  result_count: 1,
+});
+
+describe('QueryHistory', () => {
+  const originalEnv = process.env;
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'gremlin-history-'));
+    process.env = {
+      ...originalEnv,
+      GREMLIN_ENDPOINT: 'localhost:8182',
+      GREMLIN_HISTORY_SIZE: '2',
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep the most recent queries, newest first', async () => {
+    const entries = await runWithHistory(
+      Effect.gen(function* () {
+        const history = yield* QueryHistory;
+        yield* history.record(entry('g.V().count()'));
+        yield* history.record(entry('g.E().count()'));
+        yield* history.record(entry('g.V().limit(1)'));
+        return yield* history.list;
+      })
+    );
+
+    expect(entries.map(({ id, query }) => ({ id, query }))).toEqual([
+      { id: 3, query: 'g.V().limit(1)' },
+      { id: 2, query: 'g.E().count()' },
+    ]);
+  });
+
+  it('should look up queries by id', async () => {
+    const [found, missing] = await runWithHistory(
+      Effect.gen(function* () {
+        const history = yield* QueryHistory;
+        yield* history.record(entry('g.V().count()'));
+        return [yield* history.get(1), yield* Effect.either(history.get(9))] as const;
+      })
+    );
+
+    expect(found.query).toBe('g.V().count()');
+    if (Either.isRight(missing)) {
+      throw new Error('Expected an unknown id to fail');
+    }
+    expect(toStructuredError(missing.left).code).toBe(ERROR_CODES.NOT_FOUND);
+  });
+
+  it('should record nothing when disabled', async () => {
+    process.env['GREMLIN_HISTORY_SIZE'] = '0';
+
+    const entries = await runWithHistory(
+      Effect.gen(function* () {
+        const history = yield* QueryHistory;
+        yield* history.record(entry('g.V().count()'));
+        return yield* history.list;
+      })
+    );
+
+    expect(entries).toEqual([]);
+  });
+
+  it('should persist the history and continue numbering after a restart', async () => {
+    const file = join(directory, 'history.json');
+    process.env['GREMLIN_HISTORY_FILE'] = file;
+
+    await runWithHistory(Effect.flatMap(QueryHistory, history => history.record(entry('g.V()'))));
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toHaveLength(1);
+
+    const entries = await runWithHistory(
+      Effect.gen(function* () {
+        const history = yield* QueryHistory;
+        yield* history.record(entry('g.E()'));
+        return yield* history.list;
+      })
+    );
+
+    expect(entries.map(({ id, query }) => ({ id, query }))).toEqual([
+      { id: 2, query: 'g.E()' },
+      { id: 1, query: 'g.V()' },
+    ]);
+  });
+
+  it('should leave bindings out of the history file unless enabled', async () => {
+    const file = join(directory, 'history.json');
+    process.env['GREMLIN_HISTORY_FILE'] = file;
+    const withBindings = { ...entry('g.V(id)'), bindings: { id: 'secret' } };
+
+    const [kept] = await runWithHistory(
+      Effect.gen(function* () {
+        const history = yield* QueryHistory;
+        yield* history.record(withBindings);
+        return yield* history.list;
+      })
+    );
+    const [written] = JSON.parse(readFileSync(file, 'utf8'));
+
+    expect(kept?.bindings).toEqual({ id: 'secret' });
+    expect(written).not.toHaveProperty('bindings');
+
+    process.env['GREMLIN_HISTORY_FILE_BINDINGS'] = 'true';
+    await runWithHistory(Effect.flatMap(QueryHistory, history => history.record(withBindings)));
+
+    expect(JSON.parse(readFileSync(file, 'utf8'))[1].bindings).toEqual({ id: 'secret' });
+  });
+
+  it('should record queries without waiting for the history file', async () => {
+    const file = join(directory, 'history.json');
+    process.env['GREMLIN_HISTORY_FILE'] = file;
+    let finishWrite = () => {};
+    let writeStarted = () => {};
+    const started = new Promise<void>(resolve => (writeStarted = resolve));
+    mockWriteFile.mockImplementationOnce(
+      () =>
+        new Promise<void>(resolve => {
+          finishWrite = resolve;
+          writeStarted();
+        })
+    );
+
+    const entries = await runWithHistory(
+      Effect.gen(function* () {
+        const history = yield* QueryHistory;
+        yield* history.record(entry('g.V()'));
+        // The write is still pending after the query was recorded
+        yield* Effect.promise(() => started);
+        const recorded = yield* history.list;
+        finishWrite();
+        return recorded;
+      })
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toHaveLength(1);
+  });
+
+  it('should start empty when the history file is invalid', async () => {
+    const file = join(directory, 'history.json');
+    writeFileSync(file, '{ not json');
+    process.env['GREMLIN_HISTORY_FILE'] = file;
+
+    const entries = await runWithHistory(Effect.flatMap(QueryHistory, history => history.list));
+
+    expect(entries).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Tests for read-only query enforcement.
+ */
+
+import { Effect, Either } from 'effect';
+import { describe, it, expect } from '@jest/globals';
+import { enforceReadOnly, findMutatingSteps } from '../src/gremlin/read-only.js';
+import { READ_ONLY } from '../src/constants.js';
+import { AppConfig } from '../src/config.js';
+
+describe('read-only', () => {
+  describe('findMutatingSteps', () => {
+    it('should accept read traversals', () => {
+      expect(findMutatingSteps("g.V().hasLabel('person').properties('name').value()")).toEqual([]);
+      expect(findMutatingSteps('g.V().valueMap(true).limit(10)')).toEqual([]);
+    });
+
+    it('should detect mutating steps', () => {
+      expect(findMutatingSteps('g.V().drop()')).toEqual(['drop']);
+      expect(findMutatingSteps("g.addV('person').property('name', 'marko')")).toEqual([
+        'addV',
+        'property',
+      ]);
+      expect(findMutatingSteps("g.mergeV([(T.label): 'person']).mergeE([:])")).toEqual([
+        'mergeV',
+        'mergeE',
+      ]);
+    });
+
+    it('should detect structure API mutations inside lambdas', () => {
+      expect(findMutatingSteps('g.V().sideEffect{ it.get().remove() }')).toEqual(['remove']);
+      expect(findMutatingSteps("graph.addVertex('person')")).toEqual(['addVertex']);
+    });
+
+    it('should ignore step names inside string literals', () => {
+      expect(findMutatingSteps("g.V().has('action', 'drop()')")).toEqual([]);
+      expect(findMutatingSteps('g.V().has("note", "say \\"addV\\" here")')).toEqual([]);
+    });
+
+    it('should detect methods called through a quoted name', () => {
+      expect(findMutatingSteps('g.V()."drop"()')).toEqual([READ_ONLY.QUOTED_METHOD_CALL]);
+      expect(findMutatingSteps("g.V().'addV'('x')")).toEqual([READ_ONLY.QUOTED_METHOD_CALL]);
+      expect(findMutatingSteps('g.V()."${name}"()')).toEqual([READ_ONLY.QUOTED_METHOD_CALL]);
+      expect(findMutatingSteps("g.V().&'drop'")).toEqual([READ_ONLY.QUOTED_METHOD_CALL]);
+    });
+
+    it('should detect methods called by reflection', () => {
+      expect(findMutatingSteps("g.V().invokeMethod('drop', null)")).toEqual(['invokeMethod']);
+      expect(findMutatingSteps("g.V().metaClass.getMetaMethod('drop')")).toEqual(['metaClass']);
+      expect(findMutatingSteps('g.getMetaClass()')).toEqual(['getMetaClass']);
+    });
+
+    it('should only match whole identifiers', () => {
+      expect(findMutatingSteps('g.V().has("x", 1).dropped().propertyMap()')).toEqual([]);
+    });
+  });
+
+  describe('enforceReadOnly', () => {
+    it('should reject mutating queries', () => {
+      const result = Effect.runSync(Effect.either(enforceReadOnly('g.E().drop()', true)));
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe('GremlinQueryError');
+        expect(result.left.message).toContain('drop');
+      }
+    });
+
+    it('should bind the read-only strategy when enabled', () => {
+      expect(Effect.runSync(enforceReadOnly('g.V().count()', true))).toBe(
+        `${READ_ONLY.STRATEGY_PREFIX}g.V().count()`
+      );
+    });
+
+    it('should submit the query unchanged when the strategy is disabled', () => {
+      expect(Effect.runSync(enforceReadOnly('g.V().count()', false))).toBe('g.V().count()');
+    });
+
+    it('should leave the script unchanged with the default configuration', async () => {
+      const originalEnv = process.env;
+      process.env = { GREMLIN_ENDPOINT: 'localhost:8182', GREMLIN_READ_ONLY: 'true' };
+      try {
+        const { gremlin } = await Effect.runPromise(AppConfig);
+
+        expect(gremlin.readOnly).toBe(true);
+        expect(Effect.runSync(enforceReadOnly('g.V().count()', gremlin.readOnlyStrategy))).toBe(
+          'g.V().count()'
+        );
+      } finally {
+        process.env = originalEnv;
+      }
+    });
+  });
+});
@@ -16,6 +16,7 @@ import type { RelationshipPattern } from '../src/gremlin/models.js';
 
 // Mock Gremlin query utilities
 jest.mock('../src/gremlin/query-utils.js', () => ({
+  ...jest.requireActual<object>('../src/gremlin/query-utils.js'),
   executeGremlinQuery: jest.fn(),
 }));
 
@@ -77,6 +78,39 @@ describe('relationship-patterns', () => {
       );
     });
 
+    it('should query only the selected labels and drop duplicate patterns', async () => {
+      mockExecuteGremlinQuery
+        .mockReturnValueOnce(Effect.succeed([{ from: 'person', to: 'company', label: 'worksAt' }]))
+        .mockReturnValueOnce(
+          Effect.succeed([
+            { from: 'person', to: 'company', label: 'worksAt' },
+            { from: 'person', to: 'person', label: 'knows' },
+          ])
+        );
+
+      const result = await Effect.runPromise(
+        generateRelationshipPatterns(mockTraversalSource, 1000, {
+          vertexLabels: ['person'],
+          edgeLabels: ['worksAt'],
+        })
+      );
+
+      expect(result).toEqual([
+        { left_node: 'person', right_node: 'company', relation: 'worksAt' },
+        { left_node: 'person', right_node: 'person', relation: 'knows' },
+      ]);
+      expect(mockExecuteGremlinQuery).toHaveBeenCalledWith(
+        expect.any(Function),
+        'Failed to get relationship patterns',
+        expect.stringMatching(/^g\.E\(\)\.hasLabel\('worksAt'\)\.project/)
+      );
+      expect(mockExecuteGremlinQuery).toHaveBeenCalledWith(
+        expect.any(Function),
+        'Failed to get relationship patterns',
+        expect.stringMatching(/^g\.V\(\)\.hasLabel\('person'\)\.bothE\(\)\.project/)
+      );
+    });
+
     it('should handle empty pattern results', async () => {
       mockExecuteGremlinQuery.mockReturnValue(Effect.succeed([]));
 
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Tests for resource subscriptions and schema change notifications.
+ *
+ * Runs the schema and Gremlin services with a stubbed schema generator and
+ * talks to the MCP server through an in-memory transport.
+ */
+
+import { Effect, Layer, LogLevel, Logger, ManagedRuntime, Stream } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+jest.mock('../src/gremlin/driver-version.js', () => ({
+  __esModule: true,
+  GREMLIN_DRIVER_VERSION: 'test',
+}));
+
+jest.mock('../src/gremlin/schema-generator.js', () => ({
+  ...jest.requireActual<object>('../src/gremlin/schema-generator.js'),
+  generateGraphSchema: jest.fn(),
+}));
+
+import { generateGraphSchema } from '../src/gremlin/schema-generator.js';
+import { registerEffectResourceHandlers } from '../src/handlers/resources.js';
+import { GremlinService, GremlinServiceLive } from '../src/gremlin/service.js';
+import { GremlinClient, GremlinGraph } from '../src/gremlin/client.js';
+import { SchemaServiceLive } from '../src/gremlin/schema.js';
+import { QueryHistory } from '../src/gremlin/query-history.js';
+import { AppConfig } from '../src/config.js';
+import { RESOURCE_URIS } from '../src/constants.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const mockGenerateGraphSchema = generateGraphSchema as jest.MockedFunction<
+  typeof generateGraphSchema
+>;
+
+const schemaWith = (...labels: string[]): GraphSchema => ({
+  nodes: labels.map(label => ({ labels: label, properties: [] })),
+  relationships: [],
+  relationship_patterns: [],
+});
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('resources', () => {
+  const originalEnv = process.env;
+  let runtime: ManagedRuntime.ManagedRuntime<GremlinService | QueryHistory, unknown>;
+  let client: Client;
+  let updates: string[];
+  let watching: boolean;
+  let changes: GraphSchema[];
+
+  /** Regenerates the schema as the given one, as refresh_schema_cache would. */
+  const regenerate = (schema: GraphSchema) => {
+    mockGenerateGraphSchema.mockReturnValue(Effect.succeed(schema));
+    return runtime.runPromise(
+      Effect.andThen(GremlinService, service => service.refreshSchemaCache)
+    );
+  };
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, GREMLIN_ENDPOINT: 'localhost:8182' };
+    updates = [];
+    watching = false;
+    changes = [];
+
+    const dependencies = Layer.mergeAll(
+      Layer.succeed(GremlinClient, {
+        getConnection: Effect.succeed({} as any),
+        invalidate: () => Effect.void,
+      }),
+      Layer.succeed(QueryHistory, {
+        record: () => Effect.void,
+        list: Effect.succeed([]),
+        get: () => Effect.die('unused'),
+      }),
+      Layer.effect(
+        GremlinGraph,
+        Effect.map(AppConfig, config => config.gremlin)
+      )
+    );
+    // Records the schema changes the subscription's watcher reads, and when it starts and stops
+    const TrackedGremlinServiceLive = Layer.effect(
+      GremlinService,
+      Effect.map(GremlinService, service => ({
+        ...service,
+        schemaChanges: service.schemaChanges.pipe(
+          Stream.onStart(Effect.sync(() => (watching = true))),
+          Stream.tap(schema => Effect.sync(() => changes.push(schema))),
+          Stream.ensuring(Effect.sync(() => (watching = false)))
+        ),
+      }))
+    ).pipe(Layer.provide(GremlinServiceLive), Layer.provide(SchemaServiceLive));
+
+    runtime = ManagedRuntime.make(
+      Layer.merge(TrackedGremlinServiceLive, dependencies).pipe(
+        Layer.provide(dependencies),
+        Layer.provide(Logger.minimumLogLevel(LogLevel.None))
+      )
+    );
+
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerEffectResourceHandlers(server, await runtime.runtime());
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updates.push(notification.params.uri);
+    });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await runtime.dispose();
+    process.env = originalEnv;
+  });
+
+  const subscribe = async () => {
+    await client.subscribeResource({ uri: RESOURCE_URIS.SCHEMA });
+    await waitFor(() => watching);
+  };
+
+  it('should notify subscribers when a regenerated schema differs', async () => {
+    await regenerate(schemaWith('person'));
+    await subscribe();
+
+    await regenerate(schemaWith('person', 'software'));
+
+    await waitFor(() => updates.length === 1);
+    expect(updates).toEqual([RESOURCE_URIS.SCHEMA]);
+  });
+
+  it('should not notify subscribers when a regenerated schema is unchanged', async () => {
+    await subscribe();
+
+    await regenerate(schemaWith('person'));
+    await regenerate(schemaWith('person'));
+    // Changes are read one at a time, so a change for the unchanged schema would come first
+    await regenerate(schemaWith('person', 'software'));
+
+    await waitFor(() => updates.length === 1);
+    expect(changes).toEqual([schemaWith('person', 'software')]);
+  });
+
+  it('should stop watching schema changes when the session closes', async () => {
+    await subscribe();
+
+    await client.close();
+
+    await waitFor(() => !watching);
+  });
+});
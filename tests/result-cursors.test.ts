@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Tests for paging of large query results.
+ */
+
+import { Effect, Either } from 'effect';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { findPageEnd, ResultCursors, ResultCursorsLive } from '../src/gremlin/result-cursors.js';
+
+const limits = { maxResults: 3, maxBytes: 1024 };
+
+const runWithCursors = <A, E>(effect: Effect.Effect<A, E, ResultCursors>) =>
+  Effect.runPromise(Effect.provide(effect, ResultCursorsLive));
+
+describe('result-cursors', () => {
+  describe('findPageEnd', () => {
+    it('should stop at the result count limit', () => {
+      expect(findPageEnd([1, 2, 3, 4, 5], 0, limits)).toBe(3);
+      expect(findPageEnd([1, 2, 3, 4, 5], 3, limits)).toBe(5);
+    });
+
+    it('should stop before exceeding the byte limit', () => {
+      const results = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+
+      expect(findPageEnd(results, 0, { maxResults: 10, maxBytes: 90 })).toBe(2);
+    });
+
+    it('should always include at least one result', () => {
+      expect(findPageEnd(['x'.repeat(500)], 0, { maxResults: 10, maxBytes: 10 })).toBe(1);
+    });
+  });
+
+  describe('ResultCursors', () => {
+    const originalEnv = process.env;
+    const query = 'g.V().values(key)';
+    const request = { query, graph: 'default', bindings: { key: 'name', limit: 10 } };
+    const result = { results: [1, 2, 3, 4, 5, 6, 7], message: 'Query executed successfully' };
+
+    beforeEach(() => {
+      process.env = {
+        ...originalEnv,
+        GREMLIN_ENDPOINT: 'localhost:8182',
+        GREMLIN_MAX_RESULTS: '3',
+      };
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should return small results unchanged', async () => {
+      const page = await runWithCursors(
+        Effect.flatMap(ResultCursors, cursors =>
+          cursors.paginate(request, { results: [1], message: 'Query executed successfully' })
+        )
+      );
+
+      expect(page).toEqual({
+        results: [1],
+        message: 'Query executed successfully',
+        truncated: false,
+        total_results: 1,
+      });
+    });
+
+    it('should page through truncated results with the cursor', async () => {
+      const pages = await runWithCursors(
+        Effect.gen(function* () {
+          const cursors = yield* ResultCursors;
+          const first = yield* cursors.paginate(request, result);
+          const second = yield* cursors.resume(request, first.cursor ?? '');
+          const third = yield* cursors.resume(request, second.cursor ?? '');
+          return [first, second, third];
+        })
+      );
+
+      expect(pages.map(page => page.results)).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+      expect(pages.map(page => page.truncated)).toEqual([true, true, false]);
+      expect(pages[2]?.cursor).toBeUndefined();
+      expect(pages[2]?.message).toBe('Returned results 7-7 of 7');
+    });
+
+    it('should serve the same page when a cursor is retried', async () => {
+      const [second, retried] = await runWithCursors(
+        Effect.gen(function* () {
+          const cursors = yield* ResultCursors;
+          const first = yield* cursors.paginate(request, result);
+          return [
+            yield* cursors.resume(request, first.cursor ?? ''),
+            yield* cursors.resume(request, first.cursor ?? ''),
+          ];
+        })
+      );
+
+      expect(retried).toEqual(second);
+    });
+
+    it('should reject unknown cursors and cursors of other queries', async () => {
+      const [unknown, mismatched] = await runWithCursors(
+        Effect.gen(function* () {
+          const cursors = yield* ResultCursors;
+          const first = yield* cursors.paginate(request, result);
+          return [
+            yield* Effect.either(cursors.resume(request, 'missing:3')),
+            yield* Effect.either(
+              cursors.resume({ ...request, query: 'g.E()' }, first.cursor ?? '')
+            ),
+          ];
+        })
+      );
+
+      expect(Either.isLeft(unknown!)).toBe(true);
+      expect(Either.isLeft(mismatched!)).toBe(true);
+    });
+
+    it('should reject cursors used with another graph or other bindings', async () => {
+      const [otherGraph, otherBindings, reordered] = await runWithCursors(
+        Effect.gen(function* () {
+          const cursors = yield* ResultCursors;
+          const { cursor = '' } = yield* cursors.paginate(request, result);
+          return [
+            yield* Effect.either(cursors.resume({ ...request, graph: 'staging' }, cursor)),
+            yield* Effect.either(
+              cursors.resume({ ...request, bindings: { key: 'age', limit: 10 } }, cursor)
+            ),
+            yield* Effect.either(
+              cursors.resume({ ...request, bindings: { limit: 10, key: 'name' } }, cursor)
+            ),
+          ];
+        })
+      );
+
+      expect(Either.isLeft(otherGraph!) && otherGraph.left.message).toContain('different graph');
+      expect(Either.isLeft(otherBindings!) && otherBindings.left.message).toContain(
+        'different bindings'
+      );
+      expect(Either.isRight(reordered!)).toBe(true);
+    });
+
+    it('should drop the oldest cursors beyond the total size limit', async () => {
+      // Each result set keeps its last four results, of one byte each
+      process.env.GREMLIN_RESULT_CURSOR_MAX_BYTES = '6';
+
+      const [oldest, newest] = await runWithCursors(
+        Effect.gen(function* () {
+          const cursors = yield* ResultCursors;
+          const first = yield* cursors.paginate(request, result);
+          const second = yield* cursors.paginate(request, result);
+          return [
+            yield* Effect.either(cursors.resume(request, first.cursor ?? '')),
+            yield* Effect.either(cursors.resume(request, second.cursor ?? '')),
+          ];
+        })
+      );
+
+      expect(Either.isLeft(oldest!)).toBe(true);
+      expect(Either.isRight(newest!) && newest.right.results).toEqual([4, 5, 6]);
+    });
+
+    it('should truncate without a cursor when the remaining results are too large', async () => {
+      process.env.GREMLIN_RESULT_CURSOR_MAX_BYTES = '3';
+
+      const page = await runWithCursors(
+        Effect.flatMap(ResultCursors, cursors => cursors.paginate(request, result))
+      );
+
+      expect(page.results).toEqual([1, 2, 3]);
+      expect(page.truncated).toBe(true);
+      expect(page.cursor).toBeUndefined();
+      expect(page.total_results).toBe(7);
+      expect(page.message).toContain('narrow the query');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tests that results parse into the same shapes whatever the wire serializer.
+ */
+
+import { Effect } from 'effect';
+import { describe, it, expect } from '@jest/globals';
+import gremlin from 'gremlin';
+import { parseGremlinResultItem } from '../src/utils/result-parser.js';
+
+const { Vertex, Edge, VertexProperty, Property } = gremlin.structure;
+
+const parse = (raw: unknown) => Effect.runPromise(parseGremlinResultItem(raw));
+
+const expectedVertex = {
+  id: 1,
+  label: 'person',
+  properties: { name: ['marko'], skill: ['java', 'gremlin'] },
+  type: 'vertex',
+};
+
+const expectedEdge = {
+  id: 7,
+  label: 'knows',
+  inV: 2,
+  outV: 1,
+  properties: { weight: [0.5] },
+  type: 'edge',
+};
+
+describe('result-parser', () => {
+  describe('vertices', () => {
+    it('should normalize GraphSON vertex properties keyed by name', async () => {
+      const vertex = new Vertex(1, 'person', {
+        name: [new VertexProperty(10, 'name', 'marko')],
+        skill: [
+          new VertexProperty(11, 'skill', 'java'),
+          new VertexProperty(12, 'skill', 'gremlin'),
+        ],
+      } as any);
+
+      expect(await parse(vertex)).toEqual(expectedVertex);
+    });
+
+    it('should normalize GraphBinary vertex property lists', async () => {
+      const vertex = new Vertex(1, 'person', [
+        new VertexProperty(10, 'name', 'marko'),
+        new VertexProperty(11, 'skill', 'java'),
+        new VertexProperty(12, 'skill', 'gremlin'),
+      ] as any);
+
+      expect(await parse(vertex)).toEqual(expectedVertex);
+    });
+
+    it('should normalize untyped GraphSON vertices from Cosmos DB', async () => {
+      const vertex = {
+        id: 1,
+        label: 'person',
+        type: 'vertex',
+        properties: {
+          name: [{ id: 'a', value: 'marko' }],
+          skill: [
+            { id: 'b', value: 'java' },
+            { id: 'c', value: 'gremlin' },
+          ],
+        },
+      };
+
+      expect(await parse(vertex)).toEqual(expectedVertex);
+    });
+
+    it('should omit properties when a serializer returns none', async () => {
+      const withEmptyList = await parse(new Vertex(1, 'person', [] as any));
+      const withoutProperties = await parse(new Vertex(1, 'person', undefined));
+
+      expect(withEmptyList).toEqual(withoutProperties);
+      expect(withEmptyList).toEqual({
+        id: 1,
+        label: 'person',
+        properties: undefined,
+        type: 'vertex',
+      });
+    });
+  });
+
+  describe('edges', () => {
+    it('should normalize GraphSON edges with single properties and vertex references', async () => {
+      const edge = new Edge(7, new Vertex(1, 'person'), 'knows', new Vertex(2, 'person'), {
+        weight: new Property('weight', 0.5),
+      });
+
+      expect(await parse(edge)).toEqual(expectedEdge);
+    });
+
+    it('should normalize untyped GraphSON edges from Cosmos DB', async () => {
+      const edge = {
+        id: 7,
+        label: 'knows',
+        type: 'edge',
+        inVLabel: 'person',
+        outVLabel: 'person',
+        inV: 2,
+        outV: 1,
+        properties: { weight: 0.5 },
+      };
+
+      expect(await parse(edge)).toEqual(expectedEdge);
+    });
+  });
+
+  it('should convert maps returned by typed serializers to plain objects', async () => {
+    expect(await parse(new Map([['name', ['marko']]]))).toEqual({ name: ['marko'] });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for the saved query library.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Effect } from 'effect';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { z } from 'zod';
+import { loadSavedQueries, toBindings, toParameterShape } from '../src/gremlin/saved-queries.js';
+import { SavedQuerySchema } from '../src/gremlin/models/index.js';
+
+const customersByRegion = SavedQuerySchema.parse({
+  name: 'customers_by_region',
+  description: 'Customers living in a region',
+  query: "g.V().hasLabel('customer').has('region', region).limit(max)",
+  parameters: {
+    region: { type: 'string', enum: ['emea', 'apac', 'amer'] },
+    max: { type: 'integer', default: 25 },
+    active: { type: 'boolean', required: false },
+  },
+});
+
+describe('saved-queries', () => {
+  describe('toParameterShape', () => {
+    const schema = z.object(toParameterShape(customersByRegion));
+
+    it('should validate arguments against the declared parameters', () => {
+      expect(schema.parse({ region: 'emea' })).toEqual({ region: 'emea', max: 25 });
+      expect(schema.parse({ region: 'apac', max: 5, active: true })).toEqual({
+        region: 'apac',
+        max: 5,
+        active: true,
+      });
+    });
+
+    it('should reject missing, mistyped and unlisted arguments', () => {
+      expect(schema.safeParse({}).success).toBe(false);
+      expect(schema.safeParse({ region: 'mars' }).success).toBe(false);
+      expect(schema.safeParse({ region: 'emea', max: 2.5 }).success).toBe(false);
+    });
+  });
+
+  describe('toBindings', () => {
+    it('should bind omitted optional parameters to null', () => {
+      expect(toBindings(customersByRegion, { region: 'emea', max: 25 })).toEqual({
+        region: 'emea',
+        max: 25,
+        active: null,
+      });
+    });
+  });
+
+  describe('loadSavedQueries', () => {
+    let directory: string;
+
+    const writeLibrary = (content: unknown) => {
+      const file = join(directory, 'queries.json');
+      writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+      return file;
+    };
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'gremlin-saved-queries-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should load a valid library', async () => {
+      const file = writeLibrary({
+        queries: [
+          {
+            name: 'orphaned_devices',
+            description: 'Devices without an owner',
+            query: "g.V().hasLabel('device').not(inE('owns'))",
+            graph: 'default',
+          },
+        ],
+      });
+
+      const queries = await Effect.runPromise(loadSavedQueries(file, ['default']));
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0]?.parameters).toEqual({});
+    });
+
+    it('should report every problem of an invalid library', async () => {
+      const file = writeLibrary({
+        queries: [
+          {
+            name: 'run_gremlin_query',
+            description: 'Shadows a built-in tool',
+            query: 'g.V()',
+            graph: 'unknown',
+            parameters: { cursor: { type: 'string' }, limit: { type: 'integer', default: 'ten' } },
+          },
+        ],
+      });
+
+      const error = await Effect.runPromise(Effect.flip(loadSavedQueries(file, ['default'])));
+
+      expect(error.message).toContain('built-in tool');
+      expect(error.message).toContain("graph 'unknown' is not configured");
+      expect(error.message).toContain('cursor: name is reserved');
+      expect(error.message).toContain('limit: default does not match type integer');
+    });
+
+    it('should reject malformed definitions', async () => {
+      const file = writeLibrary({
+        queries: [{ name: 'Bad Name', description: 'x', query: 'g.V()', parameters: { id: {} } }],
+      });
+
+      const error = await Effect.runPromise(Effect.flip(loadSavedQueries(file, ['default'])));
+
+      expect(error.message).toContain('snake_case');
+      expect(error.message).toContain('parameters.id');
+    });
+
+    it('should fail on unreadable files', async () => {
+      await expect(
+        Effect.runPromise(loadSavedQueries(join(directory, 'missing.json'), ['default']))
+      ).rejects.toThrow('Failed to read saved queries file');
+      await expect(
+        Effect.runPromise(loadSavedQueries(writeLibrary('{'), ['default']))
+      ).rejects.toThrow('not valid JSON');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for the persistent schema cache file.
+ */
+
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Effect, Option } from 'effect';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  loadSchemaCacheFile,
+  schemaCacheFilePath,
+  writeSchemaCacheFile,
+  type SchemaCacheKey,
+} from '../src/gremlin/schema-cache-file.js';
+import { DEFAULT_SCHEMA_CONFIG } from '../src/gremlin/schema-generator.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const schema: GraphSchema = {
+  nodes: [{ labels: 'person', properties: [{ name: 'name', type: ['string'] }] }],
+  relationships: [{ type: 'knows', properties: [] }],
+  relationship_patterns: [{ left_node: 'person', right_node: 'person', relation: 'knows' }],
+};
+
+const key: SchemaCacheKey = {
+  endpoint: 'localhost:8182',
+  traversalSource: 'g',
+  config: DEFAULT_SCHEMA_CONFIG,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('schema-cache-file', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'gremlin-schema-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load a persisted schema with its generation time', async () => {
+    const timestamp = Date.now() - HOUR_MS;
+    await Effect.runPromise(writeSchemaCacheFile(directory, key, { schema, timestamp }));
+
+    const loaded = await Effect.runPromise(loadSchemaCacheFile(directory, key, 2 * HOUR_MS));
+
+    expect(loaded).toEqual(Option.some({ schema, timestamp }));
+    expect(readdirSync(directory)).toHaveLength(1);
+  });
+
+  it('should create the cache directory', async () => {
+    const nested = join(directory, 'nested', 'cache');
+    await Effect.runPromise(writeSchemaCacheFile(nested, key, { schema, timestamp: Date.now() }));
+
+    expect(Option.isSome(await Effect.runPromise(loadSchemaCacheFile(nested, key, HOUR_MS)))).toBe(
+      true
+    );
+  });
+
+  it('should ignore schemas older than the maximum age', async () => {
+    await Effect.runPromise(
+      writeSchemaCacheFile(directory, key, { schema, timestamp: Date.now() - 2 * HOUR_MS })
+    );
+
+    expect(await Effect.runPromise(loadSchemaCacheFile(directory, key, HOUR_MS))).toEqual(
+      Option.none()
+    );
+  });
+
+  it('should keep schemas of other graphs and settings apart', async () => {
+    await Effect.runPromise(
+      writeSchemaCacheFile(directory, key, { schema, timestamp: Date.now() })
+    );
+
+    const otherGraph = { ...key, endpoint: 'other-host:8182' };
+    const otherSettings = { ...key, config: { ...key.config, includeCounts: false } };
+
+    expect(schemaCacheFilePath(directory, otherGraph)).not.toBe(
+      schemaCacheFilePath(directory, key)
+    );
+    expect(await Effect.runPromise(loadSchemaCacheFile(directory, otherGraph, HOUR_MS))).toEqual(
+      Option.none()
+    );
+    expect(await Effect.runPromise(loadSchemaCacheFile(directory, otherSettings, HOUR_MS))).toEqual(
+      Option.none()
+    );
+  });
+
+  it('should ignore missing and corrupt files', async () => {
+    expect(await Effect.runPromise(loadSchemaCacheFile(directory, key, HOUR_MS))).toEqual(
+      Option.none()
+    );
+
+    writeFileSync(schemaCacheFilePath(directory, key), '{"key":');
+    expect(await Effect.runPromise(loadSchemaCacheFile(directory, key, HOUR_MS))).toEqual(
+      Option.none()
+    );
+  });
+});
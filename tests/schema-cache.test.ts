@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Tests for the schema cache module.
+ */
+
+import { Deferred, Effect, Fiber, pipe } from 'effect';
+import { describe, it, expect } from '@jest/globals';
+import {
+  awaitSchemaGeneration,
+  createSchemaCache,
+  getCachedSchema,
+  hasSchemaChanged,
+  peekCachedSchema,
+  peekFreshCachedSchema,
+  refreshSchemaCache,
+  updateCachedSchema,
+  type SchemaCacheOptions,
+} from '../src/gremlin/schema-cache.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const metadata: NonNullable<GraphSchema['metadata']> = {
+  node_count: 1,
+  relationship_count: 1,
+  pattern_count: 1,
+  generation_time_ms: 12,
+  optimization_settings: {
+    sample_values_included: false,
+    max_enum_values: 10,
+    counts_included: true,
+    enum_cardinality_threshold: 10,
+  },
+  generated_at: '2024-01-01T00:00:00.000Z',
+};
+
+const schema: GraphSchema = {
+  nodes: [{ labels: 'person', properties: [{ name: 'name', type: ['string'] }] }],
+  relationships: [{ type: 'knows', properties: [] }],
+  relationship_patterns: [{ left_node: 'person', right_node: 'person', relation: 'knows' }],
+  metadata,
+};
+
+const changed: GraphSchema = { ...schema, nodes: [] };
+
+const options: SchemaCacheOptions = { ttl: '5 minutes', staleWhileRevalidate: false };
+
+describe('schema-cache', () => {
+  describe('hasSchemaChanged', () => {
+    it('should ignore generation metadata', () => {
+      const regenerated: GraphSchema = {
+        ...schema,
+        metadata: {
+          ...metadata,
+          generation_time_ms: 40,
+          generated_at: '2024-01-01T00:05:00.000Z',
+        },
+      };
+
+      expect(hasSchemaChanged(schema, regenerated)).toBe(false);
+    });
+
+    it('should detect new labels, properties and patterns', () => {
+      expect(
+        hasSchemaChanged(schema, {
+          ...schema,
+          nodes: [...schema.nodes, { labels: 'software', properties: [] }],
+        })
+      ).toBe(true);
+      expect(
+        hasSchemaChanged(schema, {
+          ...schema,
+          nodes: [{ labels: 'person', properties: [{ name: 'age', type: ['number'] }] }],
+        })
+      ).toBe(true);
+      expect(hasSchemaChanged(schema, { ...schema, relationship_patterns: [] })).toBe(true);
+    });
+  });
+
+  describe('getCachedSchema', () => {
+    it('should generate once for concurrent callers', async () => {
+      let generations = 0;
+      const generate = Effect.delay(
+        Effect.sync(() => {
+          generations++;
+          return schema;
+        }),
+        '20 millis'
+      );
+
+      const schemas = await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* createSchemaCache<never>(options);
+          return yield* Effect.all(
+            [1, 2, 3].map(() => getCachedSchema(cache, generate)),
+            { concurrency: 'unbounded' }
+          );
+        })
+      );
+
+      expect(schemas).toEqual([schema, schema, schema]);
+      expect(generations).toBe(1);
+    });
+
+    it('should regenerate expired schemas before returning them', async () => {
+      const generations: GraphSchema[] = [schema, changed];
+      const generate = Effect.sync(() => generations.shift() ?? schema);
+
+      const second = await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* createSchemaCache<never>({ ...options, ttl: 0 });
+          yield* getCachedSchema(cache, generate);
+          return yield* getCachedSchema(cache, generate);
+        })
+      );
+
+      expect(second).toBe(changed);
+    });
+
+    it('should serve expired schemas while regenerating them in the background', async () => {
+      const [stale, beforeRegeneration, fresh] = await Effect.runPromise(
+        Effect.gen(function* () {
+          const started = yield* Deferred.make<void>();
+          const release = yield* Deferred.make<void>();
+          const generations = [
+            Effect.succeed(schema),
+            pipe(
+              Deferred.succeed(started, undefined),
+              Effect.andThen(Deferred.await(release)),
+              Effect.as(changed)
+            ),
+          ];
+          const generate = Effect.suspend(() => generations.shift() ?? Effect.succeed(schema));
+          const cache = yield* createSchemaCache<never>({ ttl: 0, staleWhileRevalidate: true });
+
+          yield* getCachedSchema(cache, generate);
+          const stale = yield* getCachedSchema(cache, generate);
+          yield* Deferred.await(started);
+          const beforeRegeneration = yield* peekCachedSchema(cache);
+          yield* Deferred.succeed(release, undefined);
+          yield* awaitSchemaGeneration(cache);
+          return [stale, beforeRegeneration, yield* peekCachedSchema(cache)];
+        })
+      );
+
+      expect(stale).toBe(schema);
+      expect(beforeRegeneration).toBe(schema);
+      expect(fresh).toBe(changed);
+    });
+
+    it('should keep serving expired schemas when background regeneration fails', async () => {
+      let generations = 0;
+
+      const [stale, kept] = await Effect.runPromise(
+        Effect.gen(function* () {
+          const started = yield* Deferred.make<void>();
+          const generate = Effect.suspend(() =>
+            generations++ === 0
+              ? Effect.succeed(schema)
+              : Effect.zipRight(Deferred.succeed(started, undefined), Effect.fail('unreachable'))
+          );
+          const cache = yield* createSchemaCache<string>({ ttl: 0, staleWhileRevalidate: true });
+
+          yield* getCachedSchema(cache, generate);
+          const stale = yield* getCachedSchema(cache, generate);
+          yield* Deferred.await(started);
+          yield* awaitSchemaGeneration(cache);
+          return [stale, yield* peekCachedSchema(cache)];
+        })
+      );
+
+      expect(stale).toBe(schema);
+      expect(kept).toBe(schema);
+      expect(generations).toBe(2);
+    });
+  });
+
+  describe('refreshSchemaCache', () => {
+    it('should regenerate a cached schema', async () => {
+      let generations = 0;
+      const generate = Effect.sync(() => {
+        generations++;
+        return schema;
+      });
+
+      await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* createSchemaCache<never>(options);
+          yield* getCachedSchema(cache, generate);
+          yield* getCachedSchema(cache, generate);
+          yield* refreshSchemaCache(cache, generate);
+        })
+      );
+
+      expect(generations).toBe(2);
+    });
+
+    it('should start a new generation once the one in progress finishes', async () => {
+      let generations = 0;
+
+      const [inProgress, refreshed] = await Effect.runPromise(
+        Effect.gen(function* () {
+          const started = yield* Deferred.make<void>();
+          const release = yield* Deferred.make<void>();
+          const generate = Effect.suspend(() =>
+            ++generations === 1
+              ? pipe(
+                  Deferred.succeed(started, undefined),
+                  Effect.andThen(Deferred.await(release)),
+                  Effect.as(schema)
+                )
+              : Effect.succeed(changed)
+          );
+          const cache = yield* createSchemaCache<never>(options);
+
+          const first = yield* Effect.fork(getCachedSchema(cache, generate));
+          yield* Deferred.await(started);
+          const refresh = yield* Effect.fork(refreshSchemaCache(cache, generate));
+          yield* Deferred.succeed(release, undefined);
+          return [yield* Fiber.join(first), yield* Fiber.join(refresh)];
+        })
+      );
+
+      expect(inProgress).toBe(schema);
+      expect(refreshed).toBe(changed);
+      expect(generations).toBe(2);
+    });
+  });
+
+  describe('updateCachedSchema', () => {
+    it('should update a cached schema without extending its TTL', async () => {
+      const [updated, fresh, peeked] = await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* createSchemaCache<never>({ ...options, ttl: 0 });
+          yield* getCachedSchema(cache, Effect.succeed(schema));
+          const updated = yield* updateCachedSchema(cache, () => changed);
+          return [updated, yield* peekFreshCachedSchema(cache), yield* peekCachedSchema(cache)];
+        })
+      );
+
+      expect(updated).toBe(changed);
+      expect(fresh).toBeNull();
+      expect(peeked).toBe(changed);
+    });
+
+    it('should leave an empty cache empty', async () => {
+      const updated = await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* createSchemaCache<never>(options);
+          return yield* updateCachedSchema(cache, () => changed);
+        })
+      );
+
+      expect(updated).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tests for schema snapshot comparison.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diffGraphSchemas } from '../src/gremlin/schema-diff.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const options = { countChangeThreshold: 0.1 };
+
+const previous: GraphSchema = {
+  nodes: [
+    {
+      labels: 'person',
+      count: 100,
+      properties: [
+        { name: 'name', type: ['string'] },
+        { name: 'age', type: ['number'] },
+        { name: 'status', type: ['string'], enum: ['active', 'inactive'] },
+        { name: 'nickname', type: ['string'] },
+      ],
+    },
+    { labels: 'legacy', count: 3, properties: [] },
+  ],
+  relationships: [{ type: 'knows', count: 0, properties: [] }],
+  relationship_patterns: [
+    { left_node: 'person', right_node: 'person', relation: 'knows' },
+    { left_node: 'person', right_node: 'legacy', relation: 'knows' },
+  ],
+};
+
+describe('schema-diff', () => {
+  it('should report no changes between equal snapshots', () => {
+    const diff = diffGraphSchemas(previous, previous, options);
+
+    expect(diff.has_changes).toBe(false);
+    expect(diff.added_labels).toEqual([]);
+    expect(diff.count_changes).toEqual([]);
+  });
+
+  it('should report label, property, type, enum, pattern and count changes', () => {
+    const current: GraphSchema = {
+      nodes: [
+        {
+          labels: 'person',
+          count: 105,
+          properties: [
+            { name: 'name', type: ['string'] },
+            { name: 'age', type: ['string'] },
+            { name: 'status', type: ['string'], enum: ['active', 'banned'] },
+            { name: 'email', type: ['string'] },
+          ],
+        },
+        { labels: 'company', count: 5, properties: [] },
+      ],
+      relationships: [{ type: 'knows', count: 12, properties: [] }],
+      relationship_patterns: [
+        { left_node: 'person', right_node: 'person', relation: 'knows' },
+        { left_node: 'person', right_node: 'company', relation: 'knows' },
+      ],
+    };
+
+    expect(diffGraphSchemas(previous, current, options)).toEqual({
+      has_changes: true,
+      added_labels: [{ kind: 'vertex', label: 'company' }],
+      removed_labels: [{ kind: 'vertex', label: 'legacy' }],
+      added_properties: [{ kind: 'vertex', label: 'person', property: 'email', type: ['string'] }],
+      removed_properties: [
+        { kind: 'vertex', label: 'person', property: 'nickname', type: ['string'] },
+      ],
+      type_changes: [
+        { kind: 'vertex', label: 'person', property: 'age', from: ['number'], to: ['string'] },
+      ],
+      enum_changes: [
+        {
+          kind: 'vertex',
+          label: 'person',
+          property: 'status',
+          added: ['banned'],
+          removed: ['inactive'],
+        },
+      ],
+      added_patterns: [{ left_node: 'person', right_node: 'company', relation: 'knows' }],
+      removed_patterns: [{ left_node: 'person', right_node: 'legacy', relation: 'knows' }],
+      count_changes: [{ kind: 'edge', label: 'knows', from: 0, to: 12, change_ratio: null }],
+    });
+  });
+
+  it('should report count changes at or above the threshold', () => {
+    const current: GraphSchema = {
+      ...previous,
+      nodes: previous.nodes.map(node => (node.labels === 'person' ? { ...node, count: 80 } : node)),
+    };
+
+    expect(diffGraphSchemas(previous, current, options).count_changes).toEqual([
+      { kind: 'vertex', label: 'person', from: 100, to: 80, change_ratio: -0.2 },
+    ]);
+    expect(
+      diffGraphSchemas(previous, current, { countChangeThreshold: 0.5 }).count_changes
+    ).toEqual([]);
+  });
+
+  it('should include the generation times of both snapshots', () => {
+    const metadata = (generated_at: string): GraphSchema['metadata'] => ({
+      node_count: 2,
+      relationship_count: 1,
+      pattern_count: 2,
+      optimization_settings: {
+        sample_values_included: false,
+        max_enum_values: 10,
+        counts_included: true,
+        enum_cardinality_threshold: 10,
+      },
+      generated_at,
+    });
+
+    const diff = diffGraphSchemas(
+      { ...previous, metadata: metadata('2024-01-01T00:00:00.000Z') },
+      { ...previous, metadata: metadata('2024-02-01T00:00:00.000Z') },
+      options
+    );
+
+    expect(diff.previous_generated_at).toBe('2024-01-01T00:00:00.000Z');
+    expect(diff.current_generated_at).toBe('2024-02-01T00:00:00.000Z');
+    expect(diff.has_changes).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tests for label filters and partial schema merging.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  filterGraphSchema,
+  matchesLabel,
+  mergeGraphSchemas,
+  selectLabels,
+} from '../src/gremlin/schema-filter.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const metadata = {
+  node_count: 3,
+  relationship_count: 2,
+  pattern_count: 3,
+  optimization_settings: {
+    sample_values_included: false,
+    max_enum_values: 10,
+    counts_included: true,
+    enum_cardinality_threshold: 10,
+  },
+  generated_at: '2026-01-01T00:00:00.000Z',
+};
+
+const schema: GraphSchema = {
+  nodes: [
+    { labels: 'person', count: 10, properties: [{ name: 'name', type: ['string'] }] },
+    { labels: 'user_account', count: 5, properties: [{ name: 'email', type: ['string'] }] },
+    { labels: 'user_legacy', count: 2, properties: [] },
+  ],
+  relationships: [
+    { type: 'knows', properties: [] },
+    { type: 'owns', properties: [] },
+  ],
+  relationship_patterns: [
+    { left_node: 'person', right_node: 'person', relation: 'knows' },
+    { left_node: 'person', right_node: 'user_account', relation: 'owns' },
+    { left_node: 'person', right_node: 'user_legacy', relation: 'owns' },
+  ],
+  metadata,
+};
+
+describe('schema-filter', () => {
+  describe('matchesLabel', () => {
+    it('should match exact labels and glob patterns', () => {
+      expect(matchesLabel(['person'], 'person')).toBe(true);
+      expect(matchesLabel(['person'], 'persons')).toBe(false);
+      expect(matchesLabel(['user_*'], 'user_account')).toBe(true);
+      expect(matchesLabel(['user_*'], 'superuser_account')).toBe(false);
+      expect(matchesLabel(['?nows'], 'knows')).toBe(true);
+      expect(matchesLabel(['*'], 'anything')).toBe(true);
+    });
+
+    it('should treat other characters literally and match case-sensitively', () => {
+      expect(matchesLabel(['a.b'], 'a.b')).toBe(true);
+      expect(matchesLabel(['a.b'], 'axb')).toBe(false);
+      expect(matchesLabel(['Person'], 'person')).toBe(false);
+    });
+
+    it('should match nothing without patterns', () => {
+      expect(matchesLabel(undefined, 'person')).toBe(false);
+      expect(matchesLabel([], 'person')).toBe(false);
+    });
+  });
+
+  describe('selectLabels', () => {
+    it('should select the labels matching each kind of pattern', () => {
+      const selection = selectLabels(
+        { vertexLabels: ['user_*', 'missing'] },
+        { vertexLabels: ['person', 'user_account', 'user_legacy'], edgeLabels: ['knows'] }
+      );
+
+      expect(selection).toEqual({ vertexLabels: ['user_account', 'user_legacy'], edgeLabels: [] });
+    });
+  });
+
+  describe('filterGraphSchema', () => {
+    it('should keep matching labels and the patterns involving them', () => {
+      const filtered = filterGraphSchema(schema, { vertexLabels: ['user_*'] });
+
+      expect(filtered.nodes.map(node => node.labels)).toEqual(['user_account', 'user_legacy']);
+      expect(filtered.relationships).toEqual([]);
+      expect(filtered.relationship_patterns.map(pattern => pattern.right_node)).toEqual([
+        'user_account',
+        'user_legacy',
+      ]);
+      expect(filtered.metadata).toMatchObject({ node_count: 2, pattern_count: 2 });
+    });
+
+    it('should keep patterns of matching edge labels', () => {
+      const filtered = filterGraphSchema(schema, { edgeLabels: ['knows'] });
+
+      expect(filtered.nodes).toEqual([]);
+      expect(filtered.relationships).toEqual([{ type: 'knows', properties: [] }]);
+      expect(filtered.relationship_patterns).toEqual([
+        { left_node: 'person', right_node: 'person', relation: 'knows' },
+      ]);
+    });
+  });
+
+  describe('mergeGraphSchemas', () => {
+    it('should replace, add and remove covered labels and patterns', () => {
+      const partial: GraphSchema = {
+        nodes: [
+          {
+            labels: 'user_account',
+            count: 7,
+            properties: [
+              { name: 'email', type: ['string'] },
+              { name: 'plan', type: ['string'] },
+            ],
+          },
+          { labels: 'user_profile', count: 7, properties: [] },
+        ],
+        relationships: [],
+        relationship_patterns: [
+          { left_node: 'person', right_node: 'user_account', relation: 'owns' },
+          { left_node: 'user_account', right_node: 'user_profile', relation: 'has' },
+        ],
+      };
+
+      const merged = mergeGraphSchemas(schema, partial, { vertexLabels: ['user_*'] });
+
+      expect(merged.nodes.map(node => [node.labels, node.count])).toEqual([
+        ['person', 10],
+        ['user_account', 7],
+        ['user_profile', 7],
+      ]);
+      expect(merged.relationships).toEqual(schema.relationships);
+      expect(merged.relationship_patterns).toEqual([
+        { left_node: 'person', right_node: 'person', relation: 'knows' },
+        { left_node: 'person', right_node: 'user_account', relation: 'owns' },
+        { left_node: 'user_account', right_node: 'user_profile', relation: 'has' },
+      ]);
+      expect(merged.metadata).toEqual({ ...metadata, node_count: 3, pattern_count: 3 });
+    });
+
+    it('should leave labels outside the filter untouched', () => {
+      const partial: GraphSchema = {
+        nodes: [],
+        relationships: [{ type: 'owns', count: 3, properties: [] }],
+        relationship_patterns: [
+          { left_node: 'person', right_node: 'user_account', relation: 'owns' },
+        ],
+      };
+
+      const merged = mergeGraphSchemas(schema, partial, { edgeLabels: ['owns'] });
+
+      expect(merged.nodes).toEqual(schema.nodes);
+      expect(merged.relationships).toEqual([
+        { type: 'knows', properties: [] },
+        { type: 'owns', count: 3, properties: [] },
+      ]);
+      expect(merged.relationship_patterns).toEqual([
+        { left_node: 'person', right_node: 'person', relation: 'knows' },
+        { left_node: 'person', right_node: 'user_account', relation: 'owns' },
+      ]);
+    });
+  });
+});
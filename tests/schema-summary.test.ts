@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Tests for the compact schema rendering used by prompts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { renderSchemaSummary } from '../src/gremlin/schema-summary.js';
+
+describe('schema-summary', () => {
+  it('should render labels, properties, enums and patterns', () => {
+    expect(
+      renderSchemaSummary({
+        nodes: [
+          {
+            labels: 'person',
+            count: 4,
+            properties: [
+              { name: 'name', type: ['string'] },
+              { name: 'status', type: ['string'], enum: ['active', 'inactive'] },
+            ],
+          },
+          { labels: 'software', properties: [] },
+        ],
+        relationships: [{ type: 'knows', properties: [{ name: 'weight', type: ['number'] }] }],
+        relationship_patterns: [{ left_node: 'person', right_node: 'person', relation: 'knows' }],
+      })
+    ).toBe(
+      [
+        'Vertex labels:',
+        '- person (4): name: string; status: string {"active", "inactive"}',
+        '- software',
+        'Edge labels:',
+        '- knows: weight: number',
+        'Relationship patterns:',
+        '- (person)-[knows]->(person)',
+      ].join('\n')
+    );
+  });
+
+  it('should mark empty sections', () => {
+    expect(renderSchemaSummary({ nodes: [], relationships: [], relationship_patterns: [] })).toBe(
+      [
+        'Vertex labels:',
+        '- (none)',
+        'Edge labels:',
+        '- (none)',
+        'Relationship patterns:',
+        '- (none)',
+      ].join('\n')
+    );
+  });
+});
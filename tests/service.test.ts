@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tests for query submission in the Gremlin service: time limits
+ * and the mapping of submission failures.
+ */
+
+import { Cause, Effect, Exit, Layer, LogLevel, Logger } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+jest.mock('../src/gremlin/driver-version.js', () => ({
+  __esModule: true,
+  GREMLIN_DRIVER_VERSION: 'test',
+}));
+
+import { GremlinService, GremlinServiceLive } from '../src/gremlin/service.js';
+import { GremlinClient, GremlinGraph } from '../src/gremlin/client.js';
+import { SchemaService } from '../src/gremlin/schema.js';
+import { QueryHistory } from '../src/gremlin/query-history.js';
+import { AppConfig } from '../src/config.js';
+import { QUERY_REQUEST } from '../src/constants.js';
+
+const resultSet = (items: unknown[]) => ({ _items: items, toArray: () => items });
+
+describe('service', () => {
+  const originalEnv = process.env;
+  let submit: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  let invalidate: jest.Mock<(...args: unknown[]) => Effect.Effect<void>>;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, GREMLIN_ENDPOINT: 'localhost:8182' };
+    submit = jest.fn(() => Promise.resolve(resultSet([1])));
+    invalidate = jest.fn(() => Effect.void);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const run = <A, E>(
+    f: (service: typeof GremlinService.Service) => Effect.Effect<A, E>,
+    getConnection: Effect.Effect<any> = Effect.succeed({
+      client: { submit },
+      lastUsed: Date.now(),
+    })
+  ) => {
+    const dependencies = Layer.mergeAll(
+      Layer.succeed(GremlinClient, { getConnection, invalidate }),
+      Layer.succeed(SchemaService, {} as typeof SchemaService.Service),
+      Layer.succeed(QueryHistory, {
+        record: () => Effect.void,
+        list: Effect.succeed([]),
+        get: () => Effect.die('unused'),
+      }),
+      Layer.effect(
+        GremlinGraph,
+        Effect.map(AppConfig, config => config.gremlin)
+      )
+    );
+
+    return Effect.runPromiseExit(
+      Effect.andThen(GremlinService, f).pipe(
+        Effect.provide(Layer.provide(GremlinServiceLive, dependencies)),
+        Logger.withMinimumLogLevel(LogLevel.None)
+      )
+    );
+  };
+
+  const failureOf = (exit: Exit.Exit<unknown, unknown>) =>
+    Exit.isFailure(exit) ? Cause.squash(exit.cause) : undefined;
+
+  describe('executeQuery', () => {
+    it('should send the time limit to the server as evaluationTimeout', async () => {
+      const exit = await run(service => service.executeQuery('g.V(x)', { x: 1 }, 1234));
+
+      expect(Exit.isSuccess(exit)).toBe(true);
+      expect(submit).toHaveBeenCalledWith(
+        'g.V(x)',
+        { x: 1 },
+        {
+          requestId: expect.stringMatching(/^[0-9a-f-]{36}$/),
+          batchSize: QUERY_REQUEST.BATCH_SIZE,
+          userAgent: QUERY_REQUEST.USER_AGENT,
+          evaluationTimeout: 1234,
+        }
+      );
+    });
+
+    it('should default to the configured query timeout', async () => {
+      process.env.GREMLIN_QUERY_TIMEOUT_MS = '4321';
+
+      await run(service => service.executeQuery('g.V()'));
+
+      expect(submit).toHaveBeenCalledWith(
+        'g.V()',
+        undefined,
+        expect.objectContaining({ evaluationTimeout: 4321 })
+      );
+    });
+
+    it('should fail with a timeout when the response does not arrive in time', async () => {
+      submit.mockImplementation(() => new Promise(() => undefined));
+
+      const exit = await run(service => service.executeQuery('g.V()', undefined, 20));
+
+      expect(failureOf(exit)).toMatchObject({
+        _tag: 'TimeoutError',
+        timeoutMs: 20,
+        message: expect.stringContaining('did not complete within 20ms'),
+      });
+      expect(invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should count acquiring the connection towards the time limit', async () => {
+      const exit = await run(service => service.executeQuery('g.V()', undefined, 20), Effect.never);
+
+      expect(failureOf(exit)).toMatchObject({
+        _tag: 'TimeoutError',
+        timeoutMs: 20,
+        message: expect.stringContaining('did not complete within 20ms'),
+      });
+      expect(submit).not.toHaveBeenCalled();
+    });
+
+    it('should map a server evaluation timeout to a timeout error', async () => {
+      submit.mockImplementation(() =>
+        Promise.reject(Object.assign(new Error('Timed out'), { statusCode: 598 }))
+      );
+
+      const exit = await run(service => service.executeQuery('g.V()', undefined, 50));
+
+      expect(failureOf(exit)).toMatchObject({
+        _tag: 'TimeoutError',
+        timeoutMs: 50,
+        message: expect.stringContaining('Server stopped evaluating the query after 50ms'),
+      });
+      expect(invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should keep the connection on other server and local errors', async () => {
+      submit
+        .mockImplementationOnce(() =>
+          Promise.reject(Object.assign(new Error('Script error'), { statusCode: 597 }))
+        )
+        .mockImplementationOnce(() => Promise.reject(new TypeError('Cannot serialize')));
+
+      const server = await run(service => service.executeQuery('g.V()'));
+      const local = await run(service => service.executeQuery('g.V()'));
+
+      expect(failureOf(server)).toMatchObject({ _tag: 'GremlinQueryError' });
+      expect(failureOf(local)).toMatchObject({ _tag: 'GremlinQueryError' });
+      expect(invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should discard the connection when it fails', async () => {
+      submit.mockImplementation(() => Promise.reject(new Error('Connection has been closed.')));
+
+      const exit = await run(service => service.executeQuery('g.V()'));
+
+      expect(failureOf(exit)).toMatchObject({ _tag: 'GremlinConnectionError' });
+      expect(invalidate).toHaveBeenCalledTimes(1);
+    });
+  });
+});
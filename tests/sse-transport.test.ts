@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Tests for the legacy HTTP+SSE transport.
+ *
+ * Starts the transport on a free local port and talks to it with the MCP SDK
+ * client and with raw event streams and requests.
+ */
+
+import { request } from 'node:http';
+import { createServer } from 'node:net';
+import { Effect, Exit, LogLevel, Logger, Scope } from 'effect';
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { HTTP_TRANSPORT } from '../src/constants.js';
+import { startSseTransport } from '../src/transports/sse.js';
+
+const freePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+
+const waitFor = async (condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const listToolsBody = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+describe('sse transport', () => {
+  let close: (() => Promise<void>) | undefined;
+  let baseUrl: string;
+  let created: number;
+  let closed: Set<number>;
+
+  const createMcpServer = () => {
+    const serverNumber = ++created;
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    server.registerTool('whoami', { description: 'Returns the server number' }, () => ({
+      content: [{ type: 'text', text: String(serverNumber) }],
+    }));
+    server.server.onclose = () => {
+      closed.add(serverNumber);
+    };
+    return server;
+  };
+
+  const start = async () => {
+    const port = await freePort();
+    const scope = Effect.runSync(Scope.make());
+    created = 0;
+    closed = new Set();
+    baseUrl = `http://127.0.0.1:${port}`;
+
+    await Effect.runPromise(
+      Scope.extend(
+        startSseTransport(createMcpServer, {
+          type: 'sse',
+          host: '127.0.0.1',
+          port,
+          path: '/sse',
+          messagesPath: '/messages',
+          sessionIdleTimeoutMs: 0,
+        }),
+        scope
+      ).pipe(Logger.withMinimumLogLevel(LogLevel.None))
+    );
+    close = async () => {
+      close = undefined;
+      await Effect.runPromise(Scope.close(scope, Exit.void));
+    };
+  };
+
+  /** Opens a raw event stream and reads the message endpoint announced on it. */
+  const openStream = async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, {
+      headers: { Accept: 'text/event-stream' },
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    let endpoint: RegExpMatchArray | null = null;
+    while (!(endpoint = received.match(/event: endpoint\ndata: (.*)\n/))) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('Event stream ended before announcing the endpoint');
+      }
+      received += decoder.decode(value, { stream: true });
+    }
+
+    return {
+      endpoint: new URL(endpoint[1]!, baseUrl).href,
+      disconnect: () => controller.abort(),
+    };
+  };
+
+  const post = (endpoint: string, body: string) =>
+    fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  afterEach(async () => {
+    await close?.();
+  });
+
+  it('should track every connection separately', async () => {
+    await start();
+    const clients = [
+      new Client({ name: 'first', version: '1.0.0' }),
+      new Client({ name: 'second', version: '1.0.0' }),
+    ];
+    for (const client of clients) {
+      await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    }
+
+    const answers = await Promise.all(
+      clients.map(async client => {
+        const result = (await client.callTool({ name: 'whoami' })) as {
+          content: Array<{ text: string }>;
+        };
+        return result.content[0]!.text;
+      })
+    );
+
+    expect(created).toBe(2);
+    expect(answers).toEqual(['1', '2']);
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  it('should reject messages for unknown sessions and unsupported methods', async () => {
+    await start();
+
+    const unknown = await post(`${baseUrl}/messages?sessionId=unknown`, listToolsBody);
+    const withoutSession = await post(`${baseUrl}/messages`, listToolsBody);
+    const wrongMethod = await fetch(`${baseUrl}/messages`);
+    const unknownPath = await fetch(`${baseUrl}/elsewhere`);
+
+    expect(unknown.status).toBe(404);
+    expect(withoutSession.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(unknownPath.status).toBe(404);
+  });
+
+  it('should answer malformed JSON with a parse error', async () => {
+    await start();
+    const stream = await openStream();
+
+    const response = await post(stream.endpoint, '{"jsonrpc": ');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+    stream.disconnect();
+  });
+
+  it('should answer oversized messages with 413 before closing the connection', async () => {
+    await start();
+    const stream = await openStream();
+    const body = Buffer.alloc(HTTP_TRANSPORT.MAX_BODY_BYTES + 1, ' ');
+
+    const response = await new Promise<{ status: number; connection: string | undefined }>(
+      (resolve, reject) => {
+        const req = request(
+          stream.endpoint,
+          { method: 'POST', headers: { 'Content-Type': 'application/json' } },
+          res => {
+            resolve({ status: res.statusCode ?? 0, connection: res.headers.connection });
+            res.resume();
+          }
+        );
+        // Once the response arrived, the server closing the connection mid-upload is expected
+        req.on('error', reject);
+        req.end(body);
+      }
+    );
+
+    expect(response).toEqual({ status: 413, connection: 'close' });
+    stream.disconnect();
+  });
+
+  it('should close the session when the client disconnects', async () => {
+    await start();
+    const stream = await openStream();
+    expect((await post(stream.endpoint, listToolsBody)).status).toBe(202);
+
+    stream.disconnect();
+
+    await waitFor(async () => closed.size === 1);
+    expect((await post(stream.endpoint, listToolsBody)).status).toBe(404);
+  });
+
+  it('should close every connection and stop listening on shutdown', async () => {
+    await start();
+    await openStream();
+    await openStream();
+
+    await close!();
+
+    expect(closed.size).toBe(2);
+    await expect(fetch(`${baseUrl}/sse`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Tests for connection status probing and status assembly.
+ */
+
+import { Effect } from 'effect';
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  buildServiceStatus,
+  classifyProbeError,
+  fetchServerVersion,
+  probeConnection,
+} from '../src/gremlin/status.js';
+
+const makeState = (next: () => Promise<unknown>, submit?: () => Promise<unknown>) =>
+  ({
+    g: { inject: jest.fn(() => ({ next })) },
+    client: { submit: jest.fn(submit ?? (() => Promise.reject(new Error('unsupported')))) },
+  }) as any;
+
+const info = {
+  endpoint: 'localhost:8182',
+  traversalSource: 'g',
+  driverVersion: '3.7.4',
+};
+
+describe('status', () => {
+  describe('classifyProbeError', () => {
+    it('should treat server responses as errors', () => {
+      expect(classifyProbeError({ statusCode: 597, message: 'boom' })).toBe('error');
+    });
+
+    it('should treat transport failures as disconnected', () => {
+      expect(classifyProbeError(new Error('connect ECONNREFUSED'))).toBe('disconnected');
+      expect(classifyProbeError(Object.assign(new Error('read'), { code: 'ECONNRESET' }))).toBe(
+        'disconnected'
+      );
+      expect(classifyProbeError(new Error('Connection has been closed.'))).toBe('disconnected');
+      expect(
+        classifyProbeError(new Error('request failed', { cause: { code: 'ETIMEDOUT' } }))
+      ).toBe('disconnected');
+    });
+
+    it('should treat local failures as errors', () => {
+      expect(classifyProbeError(new TypeError('Cannot read properties of undefined'))).toBe(
+        'error'
+      );
+      expect(classifyProbeError(new Error('Unable to serialize bytecode'))).toBe('error');
+      expect(classifyProbeError('boom')).toBe('error');
+    });
+  });
+
+  describe('probeConnection', () => {
+    it('should report a reachable graph with latency', async () => {
+      const state = makeState(() => Promise.resolve({ value: 1, done: false }));
+
+      const result = await Effect.runPromise(probeConnection(Effect.succeed(state)));
+
+      expect(result.reachable).toBe(true);
+      expect(result.reachable && result.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(state.g.inject).toHaveBeenCalledWith(1);
+    });
+
+    it('should report connection failures as disconnected', async () => {
+      const state = makeState(() => Promise.reject(new Error('connect ECONNREFUSED')));
+
+      const result = await Effect.runPromise(probeConnection(Effect.succeed(state)));
+
+      expect(result).toEqual({
+        reachable: false,
+        status: 'disconnected',
+        message: 'connect ECONNREFUSED',
+      });
+    });
+
+    it('should time out when the graph does not answer', async () => {
+      const state = makeState(() => new Promise(() => undefined));
+
+      const result = await Effect.runPromise(probeConnection(Effect.succeed(state), 20));
+
+      expect(result).toEqual({
+        reachable: false,
+        status: 'disconnected',
+        message: 'Status probe timed out after 20ms',
+      });
+    });
+
+    it('should time out while the connection is still being acquired', async () => {
+      const result = await Effect.runPromise(
+        probeConnection(
+          Effect.delay(
+            Effect.fail(new Error('Connection error: connect ECONNREFUSED')),
+            '5 seconds'
+          ),
+          10
+        )
+      );
+
+      expect(result).toEqual({
+        reachable: false,
+        status: 'disconnected',
+        message: 'Status probe timed out after 10ms',
+      });
+    });
+
+    it('should report a connection that cannot be acquired as disconnected', async () => {
+      const result = await Effect.runPromise(
+        probeConnection(Effect.fail(new Error('Connection error: Connection test failed')))
+      );
+
+      expect(result).toEqual({
+        reachable: false,
+        status: 'disconnected',
+        message: 'Connection error: Connection test failed',
+      });
+    });
+  });
+
+  describe('fetchServerVersion', () => {
+    it('should return the version reported by the server', async () => {
+      const state = makeState(
+        () => Promise.resolve(undefined),
+        () => Promise.resolve({ first: () => '3.7.4' })
+      );
+
+      expect(await Effect.runPromise(fetchServerVersion(state))).toBe('3.7.4');
+    });
+
+    it('should return undefined when the server cannot report it', async () => {
+      const state = makeState(() => Promise.resolve(undefined));
+
+      expect(await Effect.runPromise(fetchServerVersion(state))).toBeUndefined();
+    });
+  });
+
+  describe('buildServiceStatus', () => {
+    const now = Date.parse('2025-01-01T00:00:10.000Z');
+
+    it('should build a connected status', () => {
+      const status = buildServiceStatus(
+        { reachable: true, latencyMs: 12 },
+        { lastSuccessAt: Date.parse('2025-01-01T00:00:09.000Z') },
+        { ...info, serverVersion: '3.7.4' },
+        now
+      );
+
+      expect(status).toEqual({
+        status: 'connected',
+        endpoint: 'localhost:8182',
+        traversalSource: 'g',
+        latencyMs: 12,
+        serverVersion: '3.7.4',
+        driverVersion: '3.7.4',
+        lastSuccessfulQueryAt: '2025-01-01T00:00:09.000Z',
+        checkedAt: '2025-01-01T00:00:10.000Z',
+      });
+    });
+
+    it('should include the last error for an unreachable graph', () => {
+      const lastError = { message: 'connect ECONNREFUSED', at: '2025-01-01T00:00:10.000Z' };
+      const status = buildServiceStatus(
+        { reachable: false, status: 'disconnected', message: 'connect ECONNREFUSED' },
+        { lastError },
+        info,
+        now
+      );
+
+      expect(status.status).toBe('disconnected');
+      expect(status.latencyMs).toBeUndefined();
+      expect(status.lastSuccessfulQueryAt).toBeUndefined();
+      expect(status.lastError).toEqual(lastError);
+    });
+  });
+});
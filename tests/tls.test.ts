@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Tests for building the TLS agent used by secure Gremlin connections.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Effect, Exit, Option, Redacted } from 'effect';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { makeTlsAgent } from '../src/gremlin/tls.js';
+
+const defaults = {
+  caFile: Option.none<string>(),
+  certFile: Option.none<string>(),
+  keyFile: Option.none<string>(),
+  keyPassphrase: Option.none<Redacted.Redacted<string>>(),
+  servername: Option.none<string>(),
+  insecureSkipVerify: false,
+};
+
+describe('tls', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gremlin-mcp-tls-'));
+    writeFileSync(join(dir, 'ca.pem'), 'CA');
+    writeFileSync(join(dir, 'client.pem'), 'CERT');
+    writeFileSync(join(dir, 'client.key'), 'KEY');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the driver defaults without custom TLS options', async () => {
+    expect(await Effect.runPromise(makeTlsAgent(defaults))).toBeUndefined();
+  });
+
+  it('should pass CA bundle, client certificate, passphrase and servername to the agent', async () => {
+    const agent = await Effect.runPromise(
+      makeTlsAgent({
+        ...defaults,
+        caFile: Option.some(join(dir, 'ca.pem')),
+        certFile: Option.some(join(dir, 'client.pem')),
+        keyFile: Option.some(join(dir, 'client.key')),
+        keyPassphrase: Option.some(Redacted.make('secret')),
+        servername: Option.some('janus.internal'),
+      })
+    );
+
+    expect(agent?.options).toMatchObject({
+      ca: Buffer.from('CA'),
+      cert: Buffer.from('CERT'),
+      key: Buffer.from('KEY'),
+      passphrase: 'secret',
+      servername: 'janus.internal',
+      rejectUnauthorized: true,
+    });
+  });
+
+  it('should disable certificate verification only when asked to', async () => {
+    const agent = await Effect.runPromise(makeTlsAgent({ ...defaults, insecureSkipVerify: true }));
+
+    expect(agent?.options.rejectUnauthorized).toBe(false);
+  });
+
+  it('should fail when a certificate file cannot be read', async () => {
+    const result = await Effect.runPromiseExit(
+      makeTlsAgent({ ...defaults, caFile: Option.some(join(dir, 'missing.pem')) })
+    );
+
+    expect(Exit.isFailure(result)).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Tests for tool handlers running against the schema service.
+ *
+ * Runs the schema and Gremlin services with a stubbed schema generator and
+ * calls the tools through an in-memory transport.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Effect, Layer, LogLevel, Logger, ManagedRuntime } from 'effect';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+jest.mock('../src/gremlin/driver-version.js', () => ({
+  __esModule: true,
+  GREMLIN_DRIVER_VERSION: 'test',
+}));
+
+jest.mock('../src/gremlin/schema-generator.js', () => ({
+  ...jest.requireActual<object>('../src/gremlin/schema-generator.js'),
+  generateGraphSchema: jest.fn(),
+}));
+
+import { generateGraphSchema } from '../src/gremlin/schema-generator.js';
+import { registerEffectToolHandlers } from '../src/handlers/tools.js';
+import { GremlinService, GremlinServiceLive } from '../src/gremlin/service.js';
+import { GremlinClient, GremlinGraph } from '../src/gremlin/client.js';
+import { GraphRegistry } from '../src/gremlin/graphs.js';
+import { SchemaServiceLive } from '../src/gremlin/schema.js';
+import { QueryHistory } from '../src/gremlin/query-history.js';
+import { ResultCursorsLive } from '../src/gremlin/result-cursors.js';
+import { AppConfig } from '../src/config.js';
+import { TOOL_NAMES } from '../src/constants.js';
+import type { GraphSchema } from '../src/gremlin/models/index.js';
+
+const mockGenerateGraphSchema = generateGraphSchema as jest.MockedFunction<
+  typeof generateGraphSchema
+>;
+
+const schemaWith = (...labels: string[]): GraphSchema => ({
+  nodes: labels.map(label => ({ labels: label, properties: [] })),
+  relationships: [],
+  relationship_patterns: [],
+});
+
+describe('tools', () => {
+  const originalEnv = process.env;
+  let directory: string;
+  let runtime: ManagedRuntime.ManagedRuntime<
+    GremlinService | GraphRegistry | QueryHistory,
+    unknown
+  >;
+  let client: Client;
+
+  /** Generates the schema the graph currently has, caching and persisting it. */
+  const generate = (schema: GraphSchema) => {
+    mockGenerateGraphSchema.mockReturnValue(Effect.succeed(schema));
+    return runtime.runPromise(Effect.andThen(GremlinService, service => service.getSchema));
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = (await client.callTool({ name, arguments: args })) as {
+      content: Array<{ text: string }>;
+      isError?: boolean;
+    };
+    return { isError: result.isError, data: JSON.parse(result.content[0]!.text) };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    directory = mkdtempSync(join(tmpdir(), 'gremlin-mcp-tools-'));
+    process.env = {
+      ...originalEnv,
+      GREMLIN_ENDPOINT: 'localhost:8182',
+      GREMLIN_SCHEMA_CACHE_DIR: directory,
+    };
+
+    const dependencies = Layer.mergeAll(
+      Layer.succeed(GremlinClient, {
+        getConnection: Effect.succeed({} as any),
+        invalidate: () => Effect.void,
+      }),
+      Layer.succeed(QueryHistory, {
+        record: () => Effect.void,
+        list: Effect.succeed([]),
+        get: () => Effect.die('unused'),
+      }),
+      Layer.effect(
+        GremlinGraph,
+        Effect.map(AppConfig, config => config.gremlin)
+      )
+    );
+    const GraphServicesLive = GremlinServiceLive.pipe(Layer.provide(SchemaServiceLive));
+    const GraphRegistryLive = Layer.effect(
+      GraphRegistry,
+      Effect.map(GremlinService, service => ({
+        names: ['default'],
+        get: () => Effect.succeed(service),
+      }))
+    );
+
+    runtime = ManagedRuntime.make(
+      Layer.mergeAll(
+        GraphRegistryLive.pipe(Layer.provideMerge(GraphServicesLive)),
+        ResultCursorsLive,
+        dependencies
+      ).pipe(Layer.provide(dependencies), Layer.provide(Logger.minimumLogLevel(LogLevel.None)))
+    );
+
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerEffectToolHandlers(server, await runtime.runtime(), await Effect.runPromise(AppConfig));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await runtime.dispose();
+    process.env = originalEnv;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('get_graph_schema', () => {
+    it('should analyze only the matching labels when nothing is cached', async () => {
+      mockGenerateGraphSchema.mockReturnValue(Effect.succeed(schemaWith('person')));
+
+      const { data } = await callTool(TOOL_NAMES.GET_GRAPH_SCHEMA, { vertex_labels: ['person'] });
+      const cached = await runtime.runPromise(
+        Effect.andThen(GremlinService, service => service.getCachedSchema)
+      );
+
+      expect(data).toMatchObject({ nodes: [{ labels: 'person' }] });
+      expect(mockGenerateGraphSchema).toHaveBeenCalledTimes(1);
+      expect(mockGenerateGraphSchema).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ vertexLabels: ['person'] })
+      );
+      expect(cached).toBeNull();
+    });
+  });
+
+  describe('diff_graph_schema', () => {
+    it('should compare the persisted schema with a newly generated one', async () => {
+      await generate(schemaWith('person'));
+      mockGenerateGraphSchema.mockReturnValue(Effect.succeed(schemaWith('person', 'software')));
+
+      const { isError, data } = await callTool(TOOL_NAMES.DIFF_GRAPH_SCHEMA, {
+        baseline: 'persisted',
+      });
+
+      expect(isError).toBeUndefined();
+      expect(data).toMatchObject({
+        baseline: 'persisted',
+        has_changes: true,
+        added_labels: [{ kind: 'vertex', label: 'software' }],
+      });
+    });
+
+    it('should report no changes when the graph is unchanged', async () => {
+      await generate(schemaWith('person'));
+
+      const { data } = await callTool(TOOL_NAMES.DIFF_GRAPH_SCHEMA, { baseline: 'persisted' });
+
+      expect(data).toMatchObject({ baseline: 'persisted', has_changes: false });
+      expect(mockGenerateGraphSchema).toHaveBeenCalledTimes(2);
+    });
+  });
+});
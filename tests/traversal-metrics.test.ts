@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Tests for profile() and explain() result parsing.
+ *
+ * The payloads below are Gremlin Server responses as the JavaScript driver hands
+ * them back: the `@value` of the unknown `g:TraversalMetrics` type, undecoded.
+ */
+
+import { Effect, Either } from 'effect';
+import { describe, it, expect } from '@jest/globals';
+import {
+  decodeGraphSON,
+  parseTraversalExplanation,
+  parseTraversalMetrics,
+  toProfilingQuery,
+} from '../src/utils/traversal-metrics.js';
+
+const double = (value: number) => ({ '@type': 'g:Double', '@value': value });
+const long = (value: number) => ({ '@type': 'g:Int64', '@value': value });
+const map = (...entries: unknown[]) => ({ '@type': 'g:Map', '@value': entries });
+const list = (...items: unknown[]) => ({ '@type': 'g:List', '@value': items });
+
+const metricsV3 = (
+  id: string,
+  name: string,
+  dur: number,
+  traversers: number,
+  elements: number,
+  percent: number,
+  ...nested: unknown[]
+) => ({
+  '@type': 'g:Metrics',
+  '@value': map(
+    'dur',
+    double(dur),
+    'counts',
+    map('traverserCount', long(traversers), 'elementCount', long(elements)),
+    'name',
+    name,
+    'annotations',
+    map('percentDur', double(percent)),
+    'id',
+    id,
+    ...(nested.length ? ['metrics', list(...nested)] : [])
+  ),
+});
+
+// g.V().hasLabel('person').where(out('created')).values('name').profile() over GraphSON 3
+const graphSON3Metrics = map(
+  'dur',
+  double(1.2),
+  'metrics',
+  list(
+    metricsV3('0.0.0()', 'TinkerGraphStep(vertex,[~label.eq(person)])', 0.3, 4, 4, 25.0),
+    metricsV3(
+      '2.0.0()',
+      'TraversalFilterStep([VertexStep(OUT,[created],edge)])',
+      0.6,
+      3,
+      3,
+      50.0,
+      metricsV3('1.0.0(2.0.0())', 'VertexStep(OUT,[created],edge)', 0.2, 3, 3, 0)
+    ),
+    metricsV3('3.0.0()', 'PropertiesStep([name],value)', 0.3, 3, 3, 25.0)
+  )
+);
+
+// g.V().count().profile() over GraphSON 2
+const graphSON2Metrics = {
+  dur: double(0.5),
+  metrics: [
+    {
+      '@type': 'g:Metrics',
+      '@value': {
+        dur: double(0.4),
+        counts: { traverserCount: long(1), elementCount: long(1) },
+        name: 'TinkerCountGlobalStep(vertex)',
+        annotations: { percentDur: double(80.0) },
+        id: '1.0.0()',
+      },
+    },
+    {
+      '@type': 'g:Metrics',
+      '@value': {
+        dur: double(0.1),
+        counts: { traverserCount: long(1), elementCount: long(1) },
+        name: 'ReferenceElementStep',
+        annotations: { percentDur: double(20.0) },
+        id: '2.0.0()',
+      },
+    },
+  ],
+};
+
+// g.V().out().count().explain() over GraphSON 3
+const graphSON3Explanation = map(
+  'original',
+  list('GraphStep(vertex,[])', 'VertexStep(OUT,vertex)', 'CountGlobalStep'),
+  'intermediate',
+  list(
+    map(
+      'strategy',
+      'CountStrategy',
+      'category',
+      'optimization',
+      'traversal',
+      list('GraphStep(vertex,[])', 'VertexStep(OUT,vertex)', 'CountGlobalStep')
+    ),
+    map(
+      'strategy',
+      'AdjacentToIncidentStrategy',
+      'category',
+      'optimization',
+      'traversal',
+      list('GraphStep(vertex,[])', 'VertexStep(OUT,edge)', 'CountGlobalStep')
+    )
+  ),
+  'final',
+  list('TinkerGraphStep(vertex,[])', 'VertexStep(OUT,edge)', 'CountGlobalStep')
+);
+
+describe('traversal-metrics', () => {
+  describe('toProfilingQuery', () => {
+    it('should append the profiling step', () => {
+      expect(toProfilingQuery('g.V().count()', 'profile')).toBe('g.V().count().profile()');
+      expect(toProfilingQuery('g.V().out()', 'explain')).toBe('g.V().out().explain()');
+    });
+
+    it('should replace a trailing terminal step', () => {
+      expect(toProfilingQuery('g.V().toList();\n', 'profile')).toBe('g.V().profile()');
+      expect(toProfilingQuery('g.V().out().iterate()', 'explain')).toBe('g.V().out().explain()');
+      expect(toProfilingQuery('g.V().profile()', 'profile')).toBe('g.V().profile()');
+    });
+  });
+
+  describe('decodeGraphSON', () => {
+    it('should unwrap typed values and GraphSON 3 maps', () => {
+      expect(decodeGraphSON(map('a', long(1), 'b', list(double(2.5), 'x')))).toEqual({
+        a: 1,
+        b: [2.5, 'x'],
+      });
+    });
+
+    it('should convert JavaScript maps', () => {
+      expect(decodeGraphSON(new Map<unknown, unknown>([['a', [long(1)]]]))).toEqual({ a: [1] });
+    });
+  });
+
+  describe('parseTraversalMetrics', () => {
+    it('should parse GraphSON 3 metrics including nested traversals', () => {
+      const profile = Effect.runSync(parseTraversalMetrics(graphSON3Metrics));
+
+      expect(profile.total_duration_ms).toBe(1.2);
+      expect(profile.steps).toEqual([
+        {
+          step: 'TinkerGraphStep(vertex,[~label.eq(person)])',
+          traversers: 4,
+          count: 4,
+          duration_ms: 0.3,
+          percent: 25,
+        },
+        {
+          step: 'TraversalFilterStep([VertexStep(OUT,[created],edge)])',
+          traversers: 3,
+          count: 3,
+          duration_ms: 0.6,
+          percent: 50,
+          nested_steps: [
+            {
+              step: 'VertexStep(OUT,[created],edge)',
+              traversers: 3,
+              count: 3,
+              duration_ms: 0.2,
+              percent: 0,
+            },
+          ],
+        },
+        {
+          step: 'PropertiesStep([name],value)',
+          traversers: 3,
+          count: 3,
+          duration_ms: 0.3,
+          percent: 25,
+        },
+      ]);
+    });
+
+    it('should parse GraphSON 2 metrics', () => {
+      const profile = Effect.runSync(parseTraversalMetrics(graphSON2Metrics));
+
+      expect(profile.total_duration_ms).toBe(0.5);
+      expect(profile.steps.map(step => [step.step, step.percent])).toEqual([
+        ['TinkerCountGlobalStep(vertex)', 80],
+        ['ReferenceElementStep', 20],
+      ]);
+    });
+
+    it('should fail on results that are not metrics', () => {
+      const result = Effect.runSync(Effect.either(parseTraversalMetrics([1, 2, 3])));
+
+      expect(Either.isLeft(result)).toBe(true);
+    });
+  });
+
+  describe('parseTraversalExplanation', () => {
+    it('should parse GraphSON 3 explanations', () => {
+      const explanation = Effect.runSync(parseTraversalExplanation(graphSON3Explanation));
+
+      expect(explanation.original).toEqual([
+        'GraphStep(vertex,[])',
+        'VertexStep(OUT,vertex)',
+        'CountGlobalStep',
+      ]);
+      expect(explanation.intermediate.map(entry => entry.strategy)).toEqual([
+        'CountStrategy',
+        'AdjacentToIncidentStrategy',
+      ]);
+      expect(explanation.final[0]).toBe('TinkerGraphStep(vertex,[])');
+    });
+  });
+});